@@ -0,0 +1,102 @@
+const { execFileSync, spawnSync } = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { SQONRecords } = require('../dist/cjs/extends/parseRecords');
+
+/**
+ * Generates the lines of a `@records` section.
+ * @param {number} count - The number of records.
+ * @param {(index: number) => string} content - Builds the content of a record.
+ * @returns {string[]} The lines, starting with `@records` and ending with `@end`.
+ */
+function generate(count, content) {
+    const lines = ['@records'];
+    for (let i = 0; i < count; i++) {
+        lines.push(`#${i} -> ${content(i)}`);
+    }
+    lines.push('@end');
+    return lines;
+}
+
+function nested(depth, leaf) {
+    return depth === 0 ? leaf : `child{ level(${depth}); items[ _0(${depth}); _1{ ${nested(depth - 1, leaf)} }; ]; };`;
+}
+
+/**
+ * Compiles the records parser of another revision, so the current parser can be compared with it.
+ * @param {string} ref - A git revision, such as a commit, branch or tag.
+ * @param {string} directory - The directory to compile it into.
+ * @returns {Function} The `SQONRecords` class of that revision.
+ */
+function baseline(ref, directory) {
+    const root = path.resolve(__dirname, '..');
+    const archive = path.join(directory, 'lib.tar');
+    execFileSync('git', ['archive', '--format=tar', `--output=${archive}`, ref, 'lib'], { cwd: root });
+    execFileSync('tar', ['-xf', archive], { cwd: directory });
+
+    const output = path.join(directory, 'dist');
+    spawnSync(process.execPath, [
+        require.resolve('typescript/bin/tsc'), '--rootDir', path.join(directory, 'lib'), '--outDir', output, '--module', 'CommonJS', '--target', 'ES2022',
+        '--moduleResolution', 'node', '--esModuleInterop', '--skipLibCheck', path.join(directory, 'lib/extends/parseRecords.ts'),
+    ], { stdio: 'ignore' });
+
+    const compiled = path.join(output, 'extends/parseRecords.js');
+    if (!fs.existsSync(compiled)) {
+        throw new Error(`Could not compile the records parser of '${ref}'.`);
+    }
+    return require(compiled).SQONRecords;
+}
+
+/**
+ * Parses a case several times with each parser and keeps the best time of each.
+ * The parsers take turns starting each run, so neither always runs on the heap the other left behind.
+ * @param {Function[]} parsers - The `SQONRecords` classes to run.
+ * @param {string} name - The name of the case.
+ * @param {string[]} lines - The lines of the case.
+ * @returns {number[]} The best time of each parser, in milliseconds.
+ */
+function time(parsers, name, lines) {
+    const times = parsers.map(() => []);
+
+    for (let run = 0; run < runs; run++) {
+        for (let turn = 0; turn < parsers.length; turn++) {
+            const index = (run + turn) % parsers.length;
+            const start = process.hrtime.bigint();
+            const { records, errors } = new parsers[index](lines, 1).parseRecords();
+            times[index].push(Number(process.hrtime.bigint() - start) / 1e6);
+
+            if (errors.length > 0 || records.length !== lines.length - 2) {
+                throw new Error(`${name}: expected ${lines.length - 2} records without errors, got ${records.length} records and ${errors.length} errors.`);
+            }
+        }
+    }
+
+    return times.map((parserTimes) => Math.min(...parserTimes));
+}
+
+const cases = {
+    flat: generate(60000, (i) => `name("user ${i}"); age(${i % 90}); active(TRUE); joined(2024-01-0${(i % 9) + 1}T00:00:00Z); note("see (a); b");`),
+    nested: generate(15000, (i) => `id(${i}); profile{ name("user ${i}"); tags[ _0("a"); _1("b"); _2("c"); ]; address{ city("Paris"); geo{ lat(48.8); lng(2.3); }; }; }; history[ _0{ at(${i}); ok(TRUE); }; _1{ at(${i + 1}); ok(FALSE); }; ];`),
+    deep: generate(300, (i) => `id(${i}); ${nested(150, 'leaf("x");')}`),
+};
+
+const runs = Number(process.argv[2] ?? 3);
+const baselineRef = process.argv[3];
+const directory = baselineRef ? fs.mkdtempSync(path.join(os.tmpdir(), 'sqon-bench-')) : null;
+
+try {
+    const Baseline = baselineRef ? baseline(baselineRef, directory) : null;
+    console.log(`case       size  ${Baseline ? `${baselineRef.slice(0, 10).padStart(10)}  ` : ''}   current    throughput`);
+
+    for (const [name, lines] of Object.entries(cases)) {
+        const size = lines.reduce((total, line) => total + line.length + 1, 0) / (1024 * 1024);
+        const [best, before = null] = time(Baseline ? [SQONRecords, Baseline] : [SQONRecords], name, lines);
+
+        const baselineColumn = before === null ? '' : `${before.toFixed(0).padStart(7)} ms  `;
+        const speedup = before === null ? '' : `  ${(before / best).toFixed(1)}x`;
+        console.log(`${name.padEnd(8)} ${size.toFixed(1).padStart(4)} MB  ${baselineColumn}${best.toFixed(0).padStart(7)} ms  ${(size / (best / 1000)).toFixed(1).padStart(6)} MB/s${speedup}`);
+    }
+} finally {
+    if (directory) fs.rmSync(directory, { recursive: true, force: true });
+}
@@ -0,0 +1,427 @@
+import { Document, DocumentItem } from '../types/general';
+import { Accumulator, AggregationSource, GroupId, GroupStage, PipelineStage, UnwindStage } from '../types/aggregation';
+import { TypedValue } from '../types/query';
+import { SQONQuery } from './query';
+
+type ScaledDecimal = { digits: bigint; scale: number };
+type AccumulatorState = {
+    key: string;
+    operator: string;
+    argument: any;
+    count: number;
+    number: number;
+    bigint: bigint | null;
+    decimal: ScaledDecimal | null;
+    best: TypedValue | undefined;
+};
+
+const stages = ['$match', '$group', '$unwind', '$sort', '$project'];
+const accumulators = ['$count', '$sum', '$avg', '$min', '$max'];
+
+export class SQONAggregation {
+    private pipeline: PipelineStage[];
+
+    /**
+     * Constructs an aggregation pipeline. The stages are checked up front, before any document is read.
+     * @param pipeline - The stages, applied in order.
+     * @throws {Error} If a stage or accumulator is unknown or malformed.
+     */
+    constructor(pipeline: PipelineStage[]) {
+        pipeline.forEach((stage) => SQONAggregation.validate(stage));
+        this.pipeline = pipeline;
+    }
+
+    /**
+     * Runs the pipeline over a list of documents or a stream of documents.
+     * `$match`, `$unwind` and `$project` handle one document at a time, so only `$group` and `$sort` hold data in memory:
+     * the groups and their accumulators, and the documents to sort.
+     * @param source - The documents, such as the records of `parse()` or the iterator of `streamRecords()`.
+     * @returns The documents produced by the last stage.
+     */
+    async run(source: AggregationSource): Promise<Document[]> {
+        let stream: AsyncIterable<Document> = SQONAggregation.from(source);
+        for (const stage of this.pipeline) {
+            stream = SQONAggregation.apply(stage, stream);
+        }
+
+        const results: Document[] = [];
+        for await (const document of stream) {
+            results.push(document);
+        }
+        return results;
+    }
+
+    /**
+     * Connects a stage to the documents of the previous one.
+     * @param stage - The stage.
+     * @param input - The documents of the previous stage.
+     * @returns The documents of the stage.
+     */
+    private static apply(stage: PipelineStage, input: AsyncIterable<Document>): AsyncIterable<Document> {
+        if ('$match' in stage) return SQONAggregation.filter(input, (document) => SQONQuery.matches(document, stage.$match));
+        if ('$group' in stage) return SQONAggregation.group(input, stage.$group);
+        if ('$unwind' in stage) return SQONAggregation.unwind(input, stage.$unwind);
+        if ('$sort' in stage) return SQONAggregation.collect(input, (documents) => new SQONQuery(documents).sort(stage.$sort).toArray());
+        return SQONAggregation.map(input, (document) => new SQONQuery([document]).project(stage.$project).toArray()[0]);
+    }
+
+    /**
+     * Reads a list or a stream of documents as a stream.
+     * @param source - The documents.
+     * @returns The stream of documents.
+     */
+    private static async *from(source: AggregationSource): AsyncGenerator<Document> {
+        for await (const document of source) {
+            yield document;
+        }
+    }
+
+    /**
+     * Keeps the documents that pass a test.
+     * @param input - The documents.
+     * @param test - The test.
+     * @returns The documents that pass the test.
+     */
+    private static async *filter(input: AsyncIterable<Document>, test: (document: Document) => boolean): AsyncGenerator<Document> {
+        for await (const document of input) {
+            if (test(document)) yield document;
+        }
+    }
+
+    /**
+     * Transforms each document.
+     * @param input - The documents.
+     * @param transform - The transformation.
+     * @returns The transformed documents.
+     */
+    private static async *map(input: AsyncIterable<Document>, transform: (document: Document) => Document): AsyncGenerator<Document> {
+        for await (const document of input) {
+            yield transform(document);
+        }
+    }
+
+    /**
+     * Reads every document before transforming them together.
+     * @param input - The documents.
+     * @param transform - The transformation of the whole list.
+     * @returns The transformed documents.
+     */
+    private static async *collect(input: AsyncIterable<Document>, transform: (documents: Document[]) => Document[]): AsyncGenerator<Document> {
+        const documents: Document[] = [];
+        for await (const document of input) {
+            documents.push(document);
+        }
+        yield* transform(documents);
+    }
+
+    /**
+     * Groups documents by the value of the `_id` expression and computes the accumulators of each group.
+     * Each group becomes a document with an `_id` field and one field per accumulator, numbered in the order the groups were found.
+     * @param input - The documents.
+     * @param stage - The `_id` expression and the accumulators.
+     * @returns One document per group.
+     */
+    private static async *group(input: AsyncIterable<Document>, stage: GroupStage): AsyncGenerator<Document> {
+        const { _id, ...fields } = stage;
+        const groups = new Map<string, { id: DocumentItem; states: AccumulatorState[] }>();
+
+        for await (const document of input) {
+            const id = SQONAggregation.evaluate(document, '_id', _id);
+            const groupKey = SQONAggregation.groupKey(id);
+
+            let group = groups.get(groupKey);
+            if (!group) {
+                const states = Object.entries(fields).map(([key, accumulator]) => SQONAggregation.createState(key, accumulator as Accumulator));
+                group = { id, states };
+                groups.set(groupKey, group);
+            }
+
+            for (const state of group.states) {
+                SQONAggregation.accumulate(state, document);
+            }
+        }
+
+        let docNumber = 0;
+        for (const { id, states } of groups.values()) {
+            yield { '#doc': docNumber++, data: [id, ...states.map((state) => SQONAggregation.finalize(state))] };
+        }
+    }
+
+    /**
+     * Outputs a document for each element of an array field, with the field replaced by the element.
+     * The path may go through nested objects. Documents where the field is missing, `NULL` or an empty array are dropped,
+     * unless `preserveNullAndEmptyArrays` is set, and a field that is not an array is kept as it is.
+     * @param input - The documents.
+     * @param stage - The path of the array field, or the path and options.
+     * @returns The unwound documents.
+     */
+    private static async *unwind(input: AsyncIterable<Document>, stage: UnwindStage): AsyncGenerator<Document> {
+        const { path, preserveNullAndEmptyArrays = false } = typeof stage === 'string' ? { path: stage } : stage;
+        const segments = SQONAggregation.fieldPath(path, '$unwind').split('.');
+
+        for await (const document of input) {
+            const field = SQONAggregation.field(document.data, segments);
+            const isArray = field !== undefined && field.type !== 'Object' && Array.isArray(field.value);
+            const elements = isArray ? SQONQuery.elements(field) : [];
+
+            if (elements.length > 0) {
+                for (const element of elements) {
+                    yield { ...document, data: SQONAggregation.replace(document.data, segments, element) };
+                }
+            } else if (preserveNullAndEmptyArrays || !isArray && field !== undefined && field.value !== null && field.value !== undefined) {
+                yield document;
+            }
+        }
+    }
+
+    /**
+     * Finds a field by following a path through nested objects.
+     * @param items - The key-value pairs to search.
+     * @param segments - The path segments.
+     * @returns The field, or undefined if the path does not lead to a field.
+     */
+    private static field(items: DocumentItem[], segments: string[]): DocumentItem | undefined {
+        const item = items.find((candidate) => candidate.key === segments[0]);
+        if (!item || segments.length === 1) return item;
+        return item.type === 'Object' && Array.isArray(item.value) ? SQONAggregation.field(item.value, segments.slice(1)) : undefined;
+    }
+
+    /**
+     * Replaces the value of a field, copying the objects along its path.
+     * @param items - The key-value pairs.
+     * @param segments - The path segments of the field.
+     * @param value - The new value.
+     * @returns The updated key-value pairs.
+     */
+    private static replace(items: DocumentItem[], segments: string[], value: TypedValue): DocumentItem[] {
+        return items.map((item) => {
+            if (item.key !== segments[0]) return item;
+            if (segments.length === 1) return { key: item.key, value: value.value, type: value.type };
+            return { ...item, value: SQONAggregation.replace(item.value, segments.slice(1), value) };
+        });
+    }
+
+    /**
+     * Evaluates a group expression: a `$field` path, an object of expressions, or a constant.
+     * @param document - The document.
+     * @param key - The key of the resulting field.
+     * @param expression - The expression.
+     * @returns The resulting field. A missing field gives `NULL`.
+     */
+    private static evaluate(document: Document, key: string, expression: GroupId): DocumentItem {
+        if (typeof expression === 'string' && expression.startsWith('$')) {
+            const [value] = SQONQuery.values(document, expression.slice(1));
+            return value ? { key, value: value.value, type: value.type } : { key, value: null, type: 'Null' };
+        }
+
+        if (expression !== null && typeof expression === 'object') {
+            const children = Object.entries(expression).map(([childKey, child]) => SQONAggregation.evaluate(document, childKey, child));
+            return { key, value: children.length > 0 ? children : {}, type: 'Object' };
+        }
+
+        return { key, value: expression, type: SQONQuery.typeOf(expression) };
+    }
+
+    /**
+     * Builds the key identifying a group. Values of different types, such as `5` and `5n`, form different groups.
+     * @param id - The `_id` field of the group.
+     * @returns The key.
+     */
+    private static groupKey(id: DocumentItem): string {
+        return JSON.stringify(id, (_key, value) => typeof value === 'bigint' ? `${value}n` : value);
+    }
+
+    /**
+     * Creates the running state of an accumulator.
+     * @param key - The field the result is written to.
+     * @param accumulator - The accumulator.
+     * @returns The initial state.
+     */
+    private static createState(key: string, accumulator: Accumulator): AccumulatorState {
+        const [[operator, argument]] = Object.entries(accumulator);
+        return { key, operator, argument, count: 0, number: 0, bigint: null, decimal: null, best: undefined };
+    }
+
+    /**
+     * Adds a document to the state of an accumulator. Values that do not apply, such as strings in a sum, are ignored.
+     * @param state - The state.
+     * @param document - The document.
+     */
+    private static accumulate(state: AccumulatorState, document: Document): void {
+        if (state.operator === '$count') {
+            state.count++;
+            return;
+        }
+
+        const [value] = typeof state.argument === 'number'
+            ? [{ value: state.argument, type: 'Number' }]
+            : SQONQuery.values(document, state.argument.slice(1));
+        if (!value || value.value === null || value.value === undefined) return;
+
+        if (state.operator === '$min' || state.operator === '$max') {
+            const order = state.best ? SQONQuery.order(value, state.best) : 0;
+            if (!state.best || (state.operator === '$min' ? order < 0 : order > 0)) state.best = value;
+            return;
+        }
+
+        if (value.type === 'Decimal') {
+            const decimal = SQONAggregation.toScaled(String(value.value));
+            if (!decimal) return;
+            state.decimal = state.decimal ? SQONAggregation.addScaled(state.decimal, decimal) : decimal;
+        } else if (typeof value.value === 'bigint') {
+            state.bigint = (state.bigint ?? 0n) + value.value;
+        } else if (typeof value.value === 'number') {
+            state.number += value.value;
+        } else {
+            return;
+        }
+        state.count++;
+    }
+
+    /**
+     * Computes the result of an accumulator.
+     * @param state - The state.
+     * @returns The resulting field.
+     */
+    private static finalize(state: AccumulatorState): DocumentItem {
+        const key = state.key;
+
+        switch (state.operator) {
+            case '$count':
+                return { key, value: state.count, type: 'Number' };
+            case '$sum':
+                return { key, ...SQONAggregation.total(state) };
+            case '$avg':
+                return state.count === 0 ? { key, value: null, type: 'Null' } : { key, ...SQONAggregation.average(state) };
+            default:
+                return state.best ? { key, value: state.best.value, type: state.best.type } : { key, value: null, type: 'Null' };
+        }
+    }
+
+    /**
+     * Adds up the numbers, BigInts and Decimals of a sum. Decimals are added exactly and give a `Decimal`,
+     * BigInts give a `BigInt` unless a fractional number was added, and numbers alone give a `Number`.
+     * @param state - The state of the sum.
+     * @returns The total.
+     */
+    private static total(state: AccumulatorState): TypedValue {
+        if (state.decimal) {
+            const sum = state.bigint !== null ? SQONAggregation.addScaled(state.decimal, { digits: state.bigint, scale: 0 }) : state.decimal;
+            const number = SQONAggregation.toScaled(String(state.number));
+            return number
+                ? { value: SQONAggregation.fromScaled(SQONAggregation.addScaled(sum, number)), type: 'Decimal' }
+                : { value: Number(SQONAggregation.fromScaled(sum)) + state.number, type: 'Number' };
+        }
+
+        if (state.bigint !== null) {
+            return Number.isInteger(state.number)
+                ? { value: state.bigint + BigInt(state.number), type: 'BigInt' }
+                : { value: Number(state.bigint) + state.number, type: 'Number' };
+        }
+
+        return { value: state.number, type: 'Number' };
+    }
+
+    /**
+     * Computes an average. The average of Decimals is a `Decimal` with up to 20 fractional digits,
+     * and any other average is a `Number`.
+     * @param state - The state of the average.
+     * @returns The average.
+     */
+    private static average(state: AccumulatorState): TypedValue {
+        const total = SQONAggregation.total(state);
+        if (total.type !== 'Decimal') return { value: Number(total.value) / state.count, type: 'Number' };
+
+        const { digits, scale } = SQONAggregation.toScaled(total.value)!;
+        const precision = Math.max(scale, 20);
+        const quotient = digits * 10n ** BigInt(precision - scale) / BigInt(state.count);
+        const value = SQONAggregation.fromScaled({ digits: quotient, scale: precision });
+        return { value: value.replace(/\.?0+$/, ''), type: 'Decimal' };
+    }
+
+    /**
+     * Reads a decimal number as an integer and a number of fractional digits.
+     * @param text - The number, such as `-12.50`.
+     * @returns The scaled number, or null if the text is not a plain decimal number.
+     */
+    private static toScaled(text: string): ScaledDecimal | null {
+        const match = text.match(/^(-?)(\d*)(?:\.(\d*))?$/);
+        if (!match || !match[2] && !match[3]) return null;
+
+        const fraction = match[3] ?? '';
+        return { digits: BigInt(`${match[1]}${match[2] || '0'}${fraction}`), scale: fraction.length };
+    }
+
+    /**
+     * Adds two scaled decimal numbers exactly.
+     * @param a - The first number.
+     * @param b - The second number.
+     * @returns The sum, with the larger number of fractional digits.
+     */
+    private static addScaled(a: ScaledDecimal, b: ScaledDecimal): ScaledDecimal {
+        const scale = Math.max(a.scale, b.scale);
+        const rescale = (value: ScaledDecimal) => value.digits * 10n ** BigInt(scale - value.scale);
+        return { digits: rescale(a) + rescale(b), scale };
+    }
+
+    /**
+     * Writes a scaled decimal number.
+     * @param value - The scaled number.
+     * @returns The number, such as `-12.50`.
+     */
+    private static fromScaled({ digits, scale }: ScaledDecimal): string {
+        const negative = digits < 0n;
+        const text = (negative ? -digits : digits).toString().padStart(scale + 1, '0');
+        const integer = text.slice(0, text.length - scale);
+        const fraction = scale > 0 ? `.${text.slice(text.length - scale)}` : '';
+        return `${negative ? '-' : ''}${integer}${fraction}`;
+    }
+
+    /**
+     * Reads the field path of a `$field` expression.
+     * @param expression - The expression.
+     * @param context - The stage or accumulator using it, for error messages.
+     * @returns The path, without the leading `$`.
+     * @throws {Error} If the expression is not a `$field` path.
+     */
+    private static fieldPath(expression: unknown, context: string): string {
+        if (typeof expression !== 'string' || !expression.startsWith('$') || expression.length === 1) {
+            throw new Error(`'${context}' expects a field path such as '$field', got ${JSON.stringify(expression)}.`);
+        }
+        return expression.slice(1);
+    }
+
+    /**
+     * Checks that a stage is well-formed.
+     * @param stage - The stage.
+     * @throws {Error} If the stage, or one of its accumulators, is unknown or malformed.
+     */
+    private static validate(stage: PipelineStage): void {
+        const keys = stage !== null && typeof stage === 'object' ? Object.keys(stage) : [];
+        if (keys.length !== 1 || !stages.includes(keys[0])) {
+            throw new Error(`Invalid aggregation stage ${JSON.stringify(keys)}. Each stage must have exactly one of ${stages.join(', ')}.`);
+        }
+
+        if ('$unwind' in stage) {
+            SQONAggregation.fieldPath(typeof stage.$unwind === 'string' ? stage.$unwind : stage.$unwind?.path, '$unwind');
+        } else if ('$project' in stage && !Array.isArray(stage.$project)) {
+            throw new Error(`'$project' expects an array of field paths.`);
+        } else if ('$group' in stage) {
+            if (!('_id' in stage.$group)) throw new Error(`'$group' requires an '_id' expression.`);
+
+            for (const [key, accumulator] of Object.entries(stage.$group)) {
+                if (key === '_id') continue;
+
+                const [operator, ...rest] = accumulator !== null && typeof accumulator === 'object' ? Object.keys(accumulator) : [];
+                if (!accumulators.includes(operator) || rest.length > 0) {
+                    throw new Error(`Invalid accumulator for '${key}'. Use one of ${accumulators.join(', ')}.`);
+                }
+
+                const argument = (accumulator as Record<string, any>)[operator];
+                if (operator !== '$count' && !(operator === '$sum' && typeof argument === 'number')) {
+                    SQONAggregation.fieldPath(argument, operator);
+                }
+            }
+        }
+    }
+}
@@ -1,42 +1,430 @@
+import { SQONLiterals } from './literals';
+import { SQONDocuments } from './documents';
+import { SQONSerializer } from './serializer';
+import { SQONDiagnostics } from './diagnostics';
+import { SQONYaml } from './yaml';
+import { SQONCsv } from './csv';
+import { SQONXml } from './xml';
+import { SQONSql } from './sql';
+import { SQONJson } from './json';
+import { SQONRecords } from './parseRecords';
+import { SQON } from '../parser';
+import { BinaryEncoding, DocumentItem, ParsedResult } from '../types/general';
+import { ConvertorConfig, ConvertorFormat, CsvOptions, JsonOptions, SqlOptions, XmlOptions } from '../types/convertor';
+
 interface JsonRecord {
   [key: string]: any;
 }
 
 export class Convertor {
-  private format: 'JSON' | 'XML' | 'YAML' | 'SQL' | 'CSV';
+  private format: ConvertorFormat;
+  private binaryEncoding: BinaryEncoding;
+  private schema?: string;
+  private includeSchema: boolean;
+  private csv: CsvOptions;
+  private xml: XmlOptions;
+  private sql: SqlOptions;
+  private json: JsonOptions;
 
-  constructor({ format }: { format: 'JSON' | 'XML' | 'YAML' | 'SQL' | 'CSV' }) {
+  /**
+   * @param format - The format of the input data.
+   * @param binaryEncoding - How `Binary` values are written: `<Buffer ...>`, `base64:` or `hex:`. Defaults to `bytes`.
+   * @param schema - SQON text with the `@schema` and `@validations` sections used to type imported records, such as a sidecar `.sqon` file. Defaults to the schema carried by the input, or one inferred from the records.
+   * @param includeSchema - Whether exported data carries the schema, such as the header document of YAML, the header object of JSON, the `<?sqon-schema ?>` instruction of XML or the `/* sqon-schema ... *\/` comment of SQL. Defaults to true.
+   * @param csv - The delimiter, quote, header and array options of CSV.
+   * @param xml - The element names and attribute mapping of XML.
+   * @param sql - The dialect, table name, nested field storage and batch size of SQL.
+   * @param json - The `plain` or `typed` mode and the indent of JSON.
+   */
+  constructor({ format, binaryEncoding = 'bytes', schema, includeSchema = true, csv = {}, xml = {}, sql = {}, json = {} }: ConvertorConfig) {
     this.format = format;
+    this.binaryEncoding = binaryEncoding;
+    this.schema = schema;
+    this.includeSchema = includeSchema;
+    this.csv = csv;
+    this.xml = xml;
+    this.sql = sql;
+    this.json = json;
   }
 
   /**
    * Main entry point for conversion.
-   * @param data - The input data to be converted.
+   * @param data - The input data to be converted: objects or text for JSON, text for YAML, CSV, XML and SQL.
    * @returns Converted data in the specified format.
    */
   async convert(data: any): Promise<any> {
-    const normalizedData = this.normalizeInput(data);
-
     switch (this.format) {
       case 'JSON':
-        return this.jsonConvertor(normalizedData);
+        return typeof data === 'string' ? this.jsonTextConvertor(data) : this.jsonConvertor(this.normalizeInput(data));
+      case 'YAML':
+        return this.yamlConvertor(data);
+      case 'CSV':
+        return this.csvConvertor(data);
+      case 'XML':
+        return this.xmlConvertor(data);
+      case 'SQL':
+        return this.sqlConvertor(data);
       default:
         throw new Error(`Format "${this.format}" is not supported.`);
     }
   }
 
+  /**
+   * Converts SQON into the format, the reverse of `convert`.
+   * @param source - SQON text, or the result of `SQON.parse()`.
+   * @returns The records of the unnamed `@records` section in the specified format.
+   */
+  async export(source: string | ParsedResult): Promise<string> {
+    const parsed = typeof source === 'string' ? await new SQON({ fileContent: source }).parse() : source;
+
+    switch (this.format) {
+      case 'JSON':
+        return this.jsonExport(parsed);
+      case 'YAML':
+        return this.yamlExport(parsed);
+      case 'CSV':
+        return this.csvExport(parsed);
+      case 'XML':
+        return this.xmlExport(parsed);
+      case 'SQL':
+        return this.sqlExport(parsed);
+      default:
+        throw new Error(`Exporting to "${this.format}" is not supported.`);
+    }
+  }
+
   /**
    * JSON Conversion Logic
    * @param data - The normalized input data to be converted.
    * @returns JSON converted to SQON format.
+   * @throws {Error} With every key that is not a valid SQON key name.
    */
   private jsonConvertor(data: JsonRecord[]): string {
+    Convertor.checkKeys(data);
     const schema = this.generateSchema(data);
     const records = this.generateRecords(data);
 
     return `@schema\n${schema}\n@end\n\n@records\n${records}\n@end`;
   }
 
+  /**
+   * JSON Text Conversion Logic
+   * Tagged values such as `{ "$date": ... }`, as written by `export` in `typed` mode, are revived. When the records are
+   * in the `@records` field of a header object, its `*STRICT`, `@schema` and `@validations` fields type them.
+   * @param data - The JSON text.
+   * @returns JSON converted to SQON format.
+   */
+  private async jsonTextConvertor(data: string): Promise<string> {
+    const { records, header } = new SQONJson(this.json).read(SQONJson.parse(data));
+    const schema = this.schema ?? (header && Convertor.isSchemaHeader(header) ? Convertor.headerSchema(header) : undefined);
+
+    const definitions = schema ? await Convertor.loadSchema(schema) : null;
+    return this.objectsToSQON(records.map((record) => record.data), definitions, records.map((record) => record.id), records.map((record) => record.decimals));
+  }
+
+  /**
+   * Exports the records as a JSON array, in the `@records` field of a header object with the file rules, schema and
+   * validations. Document IDs are kept in the `@id` field of each record.
+   * @param parsed - The parsed SQON.
+   * @returns The JSON text.
+   */
+  private jsonExport(parsed: ParsedResult): string {
+    return new SQONJson(this.json).write(parsed.records, this.includeSchema ? Convertor.headerFields(parsed) : undefined);
+  }
+
+  /**
+   * YAML Conversion Logic
+   * The records are the sequence of the last document. When the stream has a header document before it, holding
+   * `*STRICT`, `@schema` and `@validations` keys as written by `export`, its schema types the records.
+   * @param data - The YAML text.
+   * @returns YAML converted to SQON format.
+   */
+  private async yamlConvertor(data: string): Promise<string> {
+    if (typeof data !== 'string') {
+      throw new Error('YAML input must be a string.');
+    }
+
+    const documents = SQONYaml.parse(data);
+    const header = documents.length > 1 && Convertor.isSchemaHeader(documents[0]) ? documents.shift() : null;
+    const schema = this.schema ?? (header && Convertor.headerSchema(header));
+
+    const definitions = schema ? await Convertor.loadSchema(schema) : null;
+    return this.objectsToSQON(documents.flatMap((document) => document === null ? [] : this.normalizeInput(document)), definitions);
+  }
+
+  /**
+   * Exports the records as a YAML sequence, after a header document with the file rules, schema and validations.
+   * @param parsed - The parsed SQON.
+   * @returns The YAML text.
+   */
+  private yamlExport(parsed: ParsedResult): string {
+    const records = parsed.records.map((record) => SQONDocuments.toObject(record));
+    if (!this.includeSchema) return SQONYaml.stringify([records]);
+
+    return SQONYaml.stringify([Convertor.headerFields(parsed), records]);
+  }
+
+  /**
+   * CSV Conversion Logic
+   * Columns are typed by the `schema` option when it is given, and by the text of their cells otherwise.
+   * @param data - The CSV text.
+   * @returns CSV converted to SQON format.
+   */
+  private async csvConvertor(data: string): Promise<string> {
+    if (typeof data !== 'string') {
+      throw new Error('CSV input must be a string.');
+    }
+
+    const definitions = this.schema === undefined ? null : await Convertor.loadSchema(this.schema);
+    const records = new SQONCsv(this.csv, this.binaryEncoding).read(data, definitions?.schema ?? {});
+    return this.objectsToSQON(records, definitions);
+  }
+
+  /**
+   * Exports the records as CSV, with the fields of nested objects and arrays flattened into dot-path columns.
+   * CSV cannot carry the schema, which is read back from the `schema` option.
+   * @param parsed - The parsed SQON.
+   * @returns The CSV text.
+   */
+  private csvExport(parsed: ParsedResult): string {
+    const records = parsed.records.map((record) => SQONDocuments.toObject(record));
+    return new SQONCsv(this.csv, this.binaryEncoding).write(records, parsed.schema);
+  }
+
+  /**
+   * XML Conversion Logic
+   * The records are the child elements of the root. A `<?sqon-schema ?>` processing instruction, as written by `export`,
+   * types them when there is no `schema` option.
+   * @param data - The XML text.
+   * @returns XML converted to SQON format.
+   */
+  private async xmlConvertor(data: string): Promise<string> {
+    if (typeof data !== 'string') {
+      throw new Error('XML input must be a string.');
+    }
+
+    const document = SQONXml.parse(data);
+    const schema = this.schema ?? document.instructions.find((instruction) => instruction.target === 'sqon-schema')?.content;
+    const definitions = schema === undefined ? null : await Convertor.loadSchema(schema);
+    const records = new SQONXml(this.xml, this.binaryEncoding).read(document.root, definitions?.schema ?? {});
+    return this.objectsToSQON(records.map((record) => record.data), definitions, records.map((record) => record.id));
+  }
+
+  /**
+   * Exports the records as an XML document, with the file rules, schema and validations in a processing instruction.
+   * @param parsed - The parsed SQON.
+   * @returns The XML text.
+   */
+  private xmlExport(parsed: ParsedResult): string {
+    const header = this.includeSchema ? Convertor.schemaHeader(parsed) : undefined;
+    return new SQONXml(this.xml, this.binaryEncoding).write(parsed.records, header);
+  }
+
+  /**
+   * SQL Conversion Logic
+   * Reads the `CREATE TABLE` and `INSERT` statements of a dump. A `/* sqon-schema ... *\/` comment, as written by `export`,
+   * types the records when there is no `schema` option; otherwise the schema is derived from the column types.
+   * @param data - The SQL text.
+   * @returns SQL converted to SQON format.
+   */
+  private async sqlConvertor(data: string): Promise<string> {
+    if (typeof data !== 'string') {
+      throw new Error('SQL input must be a string.');
+    }
+
+    const sql = new SQONSql(this.sql, this.binaryEncoding);
+    const dump = sql.parse(data);
+    const definitions = await Convertor.loadSchema(this.schema ?? dump.schema ?? sql.schemaText(dump));
+    const records = sql.read(dump, definitions.schema);
+    return this.objectsToSQON(records.map((record) => record.data), definitions, records.map((record) => record.id));
+  }
+
+  /**
+   * Exports the records as `CREATE TABLE` and `INSERT` statements, with the file rules, schema and validations in a
+   * leading comment.
+   * @param parsed - The parsed SQON.
+   * @returns The SQL text.
+   */
+  private sqlExport(parsed: ParsedResult): string {
+    const header = this.includeSchema ? Convertor.schemaHeader(parsed) : undefined;
+    return new SQONSql(this.sql, this.binaryEncoding).write(parsed.schema, parsed.validations, parsed.records, header);
+  }
+
+  /**
+   * Writes the file rules, schema and validations of a parsed file as SQON text, to be embedded in exported data.
+   * @param parsed - The parsed SQON.
+   * @returns The SQON text.
+   */
+  private static schemaHeader(parsed: ParsedResult): string {
+    const serializer = new SQONSerializer();
+    const validations = serializer.stringifyValidations(parsed.validations);
+    return [
+      `*STRICT=${parsed.fileRules.Strict ? 'TRUE' : 'FALSE'}`,
+      `@schema\n${serializer.stringifySchema(parsed.schema)}\n@end`,
+      ...validations ? [`@validations\n${validations}\n@end`] : [],
+    ].join('\n\n');
+  }
+
+  /**
+   * Writes the file rules, schema and validations of a parsed file as the fields of a YAML or JSON header.
+   * @param parsed - The parsed SQON.
+   * @returns The `*STRICT`, `@schema` and, when there are validations, `@validations` fields.
+   */
+  private static headerFields(parsed: ParsedResult): Record<string, any> {
+    const serializer = new SQONSerializer();
+    const header: Record<string, any> = {
+      '*STRICT': parsed.fileRules.Strict,
+      '@schema': serializer.stringifySchema(parsed.schema),
+    };
+    const validations = serializer.stringifyValidations(parsed.validations);
+    if (validations) header['@validations'] = validations;
+    return header;
+  }
+
+  /**
+   * Writes the fields of a YAML or JSON header back as SQON text, the reverse of `headerFields`.
+   * @param header - The header.
+   * @returns The SQON text.
+   */
+  private static headerSchema(header: Record<string, any>): string {
+    return [
+      `*STRICT=${header['*STRICT'] ? 'TRUE' : 'FALSE'}`,
+      `@schema\n${header['@schema'] ?? ''}\n@end`,
+      header['@validations'] ? `@validations\n${header['@validations']}\n@end` : '',
+    ].join('\n\n');
+  }
+
+  /**
+   * Checks whether a YAML document or JSON object is the schema header written by `export`.
+   * @param document - The first document of the stream, or the top-level JSON object.
+   * @returns True if the document is a mapping with a `@schema` text.
+   */
+  private static isSchemaHeader(document: any): document is Record<string, any> {
+    return document !== null && typeof document === 'object' && !Array.isArray(document) && typeof document['@schema'] === 'string';
+  }
+
+  /**
+   * Writes plain objects as SQON, typed by a schema when one is given, or by a schema inferred from their values.
+   * @param data - The records, as plain objects with `Date`, `Buffer`, `Uint8Array`, `bigint` and `null` values.
+   * @param definitions - The file rules, schema and validations of the records, as read by `loadSchema`.
+   * @param ids - The document ID of each record, if any.
+   * @param decimals - The item keys of the exact decimals of each record, held as strings, which are typed as `Decimal` when there is no schema.
+   * @returns The SQON text.
+   * @throws {Error} With every key that is not a valid SQON key name.
+   */
+  private objectsToSQON(data: JsonRecord[], definitions: ParsedResult | null, ids: (string | undefined)[] = [], decimals: (string[][] | undefined)[] = []): string {
+    Convertor.checkKeys(data);
+    const schema = definitions?.schema ?? {};
+    const records = data.map((record, index) => {
+      const document = SQONDocuments.fromObject(record, schema, index);
+      if (ids[index] !== undefined) document['@id'] = ids[index];
+      if (!definitions) decimals[index]?.forEach((keys) => Convertor.typeDecimal(document.data, keys));
+      return document;
+    });
+
+    return new SQONSerializer({ binaryEncoding: this.binaryEncoding }).stringify({
+      fileRules: definitions?.fileRules,
+      schema: definitions ? schema : Convertor.inferSchema(records.map((record) => record.data)),
+      validations: definitions?.validations,
+      records,
+    });
+  }
+
+  /**
+   * Types the string held at some item keys as a `Decimal`, and updates the type of the arrays holding it.
+   * @param items - The items of a record, or of a nested object or array.
+   * @param keys - The item keys of the decimal, with `_n` for array elements.
+   */
+  private static typeDecimal(items: DocumentItem[], [key, ...rest]: string[]): void {
+    const item = items.find((candidate) => candidate.key === key);
+    if (!item) return;
+
+    if (rest.length === 0) {
+      if (item.type === 'String') item.type = 'Decimal';
+    } else if (Array.isArray(item.value)) {
+      Convertor.typeDecimal(item.value, rest);
+      if (item.type !== 'Object') item.type = SQONDocuments.arrayType(new Set(item.value.map((element: DocumentItem) => element.type)));
+    }
+  }
+
+  /**
+   * Checks that the keys of the records, and of the objects nested in them, are valid SQON key names: a letter, `_` or `$`,
+   * followed by letters, digits, `_`, `$` and `-`. Keys such as `first name` or `1x` would be written as SQON that does not parse.
+   * @param data - The records, as plain objects.
+   * @throws {Error} With every invalid key and the first record holding it.
+   */
+  private static checkKeys(data: JsonRecord[]): void {
+    const invalid = (value: any, path: string): string[] => {
+      if (Array.isArray(value)) return value.flatMap((element, index) => invalid(element, `${path}[${index}]`));
+      if (value === null || typeof value !== 'object' || value instanceof Date || value instanceof Uint8Array) return [];
+
+      return Object.entries(value).flatMap(([key, child]) => [
+        ...SQONRecords.isValidKeyName(key) ? [] : [`${path ? `${path}.` : ''}${key}`],
+        ...invalid(child, path ? `${path}.${key}` : key),
+      ]);
+    };
+
+    const keys = new Map<string, number>();
+    data.forEach((record, index) => invalid(record, '').forEach((key) => keys.has(key) || keys.set(key, index + 1)));
+    if (keys.size > 0) {
+      const errors = [...keys].map(([key, record]) => `'${key}', first in record ${record}`);
+      throw new Error(`Invalid key names, which must start with a letter, '_' or '$' and hold only letters, digits, '_', '$' and '-':\n${errors.join('\n')}`);
+    }
+  }
+
+  /**
+   * Parses the schema and validations of SQON text, which may leave out the `*STRICT` line and the `@records` section.
+   * @param text - The SQON text.
+   * @returns The parsed file rules, schema and validations.
+   * @throws {Error} If the schema or validations are invalid.
+   */
+  private static async loadSchema(text: string): Promise<ParsedResult> {
+    const content = /^\s*\*STRICT=/.test(text.replace(/^(\s*!#.*\n)*/, '')) ? text : `*STRICT=FALSE\n\n${text}`;
+    const parsed = await new SQON({ fileContent: content }).parse();
+    const error = parsed.errors.find((diagnostic) => diagnostic.severity === 'error' && diagnostic.code !== SQONDiagnostics.codes.MissingSection.code);
+
+    if (error) {
+      throw new Error(`Invalid schema: ${error.message}`);
+    }
+    return parsed;
+  }
+
+  /**
+   * Infers a schema from the values of parsed records. Fields holding several types get a union of them, fields missing
+   * from some records also accept `undefined`, and nested objects and object arrays get the fields of every object they hold.
+   * Objects mixed with other types are typed as `Any`, since `Object` and `ObjectArray` cannot be part of a union.
+   * @param documents - The items of each record, or of each nested object.
+   * @returns The parsed schema.
+   */
+  private static inferSchema(documents: DocumentItem[][]): Record<string, any> {
+    const fields = new Map<string, { types: Set<string>; objects: DocumentItem[][]; count: number }>();
+
+    for (const items of documents) {
+      for (const item of items) {
+        const field = fields.get(item.key) ?? { types: new Set<string>(), objects: [], count: 0 };
+        fields.set(item.key, field);
+        field.types.add(item.type);
+        field.count++;
+
+        if (item.type === 'Object' && Array.isArray(item.value)) field.objects.push(item.value);
+        if (item.type === 'ObjectArray') {
+          field.objects.push(...item.value.map((element: DocumentItem) => element.value).filter(Array.isArray));
+        }
+      }
+    }
+
+    const schema: Record<string, any> = {};
+    for (const [key, { types, objects, count }] of fields) {
+      if (count < documents.length) types.add('undefined');
+      const isMixedObject = types.size > 1 && (types.has('Object') || types.has('ObjectArray'));
+      const definition: Record<string, any> = { type: isMixedObject ? ['Any'] : [...types] };
+      if (types.size === 1 && types.has('Object') && objects.length > 0) definition.properties = Convertor.inferSchema(objects);
+      if (types.size === 1 && types.has('ObjectArray') && objects.length > 0) definition.items = Convertor.inferSchema(objects);
+      schema[key] = definition;
+    }
+    return schema;
+  }
+
 
 
   /**
@@ -64,7 +452,7 @@ export class Convertor {
   }
 
   /**
-   * Generate the @records section from the input data.
+   * Generate the @records section from the input data. A record without fields is written as `#n -> ;`.
    * @param data - Array of JSON records.
    * @returns Records in SQON format.
    */
@@ -74,7 +462,7 @@ export class Convertor {
         const formattedFields = Object.entries(record)
           .map(([key, value]) => `${key}${this.formatValue(value)}`)
           .join(' ');
-        return `#${index} -> ${formattedFields}`;
+        return `#${index} -> ${formattedFields || ';'}`;
       })
       .join('\n');
   }
@@ -94,12 +482,14 @@ private inferType(value: any): string {
   if (value === undefined) return 'undefined';
   if (typeof value === 'boolean') return 'Boolean';
   if (typeof value === 'number') return 'Number';
+  if (typeof value === 'bigint') return 'BigInt';
   if (typeof value === 'string') {
     if (this.isValidDate(value)) return 'Date';
     return 'String';
   }
   if (value instanceof Date) return 'Date';
   if (Buffer.isBuffer(value)) return 'Binary';
+  if (value instanceof Uint8Array) return 'Uint8Array';
 
   if (Array.isArray(value)) {
     const elementTypes = new Set(value.map((item) => this.inferType(item)));
@@ -128,15 +518,17 @@ private formatValue(value: any): string {
   if (value === undefined) return '();';
   if (typeof value === 'boolean') return value ? '(TRUE);' : '(FALSE);';
   if (typeof value === 'number') return `(${value});`;
+  if (typeof value === 'bigint') return `(${SQONLiterals.formatNumber(value, 'BigInt')});`;
   if (typeof value === 'string') {
     if (this.isValidDate(value)) {
       const parsedDate = this.parseDate(value);
       if (parsedDate) return `(${parsedDate.toISOString()});`;
     }
-    return `("${value}");`;
+    return `(${SQONLiterals.quote(value)});`;
   }
   if (value instanceof Date) return `(${value.toISOString()});`;
-  if (Buffer.isBuffer(value)) return `(<Buffer ${[...value].join(' ')}>);`;
+  if (Buffer.isBuffer(value)) return `(${SQONLiterals.encodeBinary(value, this.binaryEncoding)});`;
+  if (value instanceof Uint8Array) return `(${SQONLiterals.encodeUint8Array(value)});`;
 
   if (Array.isArray(value)) {
     return `[ ${value
@@ -151,7 +543,7 @@ private formatValue(value: any): string {
     return `{ ${objectProperties} };`;
   }
 
-  return `("${value}");`; 
+  return `(${SQONLiterals.quote(String(value))});`;
 }
 
   /**
@@ -0,0 +1,288 @@
+import { SQONDocuments } from './documents';
+import { SQONRecords } from './parseRecords';
+import { BinaryEncoding } from '../types/general';
+import { CsvArrayMode, CsvOptions } from '../types/convertor';
+import { SchemaDefinition } from '../types/validator';
+
+type CsvRow = { cells: string[]; line: number };
+
+export class SQONCsv {
+    private delimiter: string;
+    private quote: string;
+    private quoteAll: boolean;
+    private header: boolean;
+    private columns?: string[];
+    private arrays: CsvArrayMode;
+    private lineEnding: string;
+    private binaryEncoding: BinaryEncoding;
+
+    /**
+     * Constructs a reader and writer for CSV records.
+     * @param options - The CSV dialect and how nested fields map to columns.
+     * @param options.delimiter - The character between cells. Defaults to `,`.
+     * @param options.quote - The character around cells holding the delimiter, quotes or line breaks. Defaults to `"`.
+     * @param options.quoteAll - Whether every cell is quoted when writing. Defaults to false.
+     * @param options.header - Whether the first row holds the column names. Defaults to true.
+     * @param options.columns - The column names of a CSV without a header row.
+     * @param options.arrays - `indexed` to write array elements in `tags.0`, `tags.1` columns, or `json` to write each array as JSON in one column. Defaults to `indexed`.
+     * @param options.lineEnding - The line ending between rows when writing. Defaults to `\n`.
+     * @param binaryEncoding - How `Binary` values are written: `<Buffer ...>`, `base64:` or `hex:`. Defaults to `bytes`.
+     * @throws {Error} If the delimiter or quote is not a single character, or if they are the same.
+     */
+    constructor({ delimiter = ',', quote = '"', quoteAll = false, header = true, columns, arrays = 'indexed', lineEnding = '\n' }: CsvOptions = {}, binaryEncoding: BinaryEncoding = 'bytes') {
+        if (delimiter.length !== 1 || quote.length !== 1 || /[\r\n]/.test(delimiter + quote)) {
+            throw new Error('The CSV delimiter and quote must each be a single character other than a line break.');
+        }
+        if (delimiter === quote) {
+            throw new Error('The CSV delimiter and quote must be different characters.');
+        }
+
+        this.delimiter = delimiter;
+        this.quote = quote;
+        this.quoteAll = quoteAll;
+        this.header = header;
+        this.columns = columns;
+        this.arrays = arrays;
+        this.lineEnding = lineEnding;
+        this.binaryEncoding = binaryEncoding;
+    }
+
+    /**
+     * Writes records as CSV. Object fields are flattened into dot-path columns such as `address.city`, and arrays into
+     * indexed columns or JSON cells. Columns follow the order of the schema fields, then the order they first appear in.
+     * @param records - The records, as plain objects.
+     * @param schema - The parsed schema of the records.
+     * @returns The CSV text.
+     */
+    write(records: Record<string, any>[], schema: Record<string, any> = {}): string {
+        const fields = Object.keys(schema);
+        const rows = records.map((record) => {
+            const cells = new Map<string, string>();
+            for (const [key, value] of Object.entries(record)) this.flatten(value, key, cells);
+            return cells;
+        });
+
+        const order = (column: string) => {
+            const index = fields.indexOf(column.split('.')[0]);
+            return index === -1 ? fields.length : index;
+        };
+        const columns = [...new Set(rows.flatMap((cells) => [...cells.keys()]))].sort((a, b) => order(a) - order(b));
+
+        const lines = rows.map((cells) => this.formatRow(columns.map((column) => cells.get(column) ?? '')));
+        if (this.header) lines.unshift(this.formatRow(columns));
+        return lines.map((line) => line + this.lineEnding).join('');
+    }
+
+    /**
+     * Reads CSV into records, the reverse of `write`. Each cell is typed by the schema definition of its column:
+     * `null`, `true` and `false`, numbers, dates, `Binary` and `Uint8Array` literals and JSON arrays and objects are
+     * read for fields of those types. Cells of columns missing from the schema are typed from their text, and empty cells
+     * leave their field out.
+     * @param text - The CSV text.
+     * @param schema - The parsed schema of the records.
+     * @returns The records, as plain objects.
+     * @throws {Error} If the CSV is malformed, if a column name is not a dot-path of SQON key names, or with every cell that does not convert to the type of its column, by row and column.
+     */
+    read(text: string, schema: Record<string, any> = {}): Record<string, any>[] {
+        const rows = this.parse(text);
+        const columns = this.header ? rows.shift()?.cells.map((cell) => cell.trim()) ?? [] : this.columns;
+        if (!columns) {
+            throw new Error('A CSV without a header row needs the `columns` option.');
+        }
+        columns.forEach((column, index) => {
+            if (!/^[^.]+(\.[^.]+)*$/.test(column)) {
+                throw new Error(`Invalid CSV column name "${column}" in column ${index + 1}.`);
+            }
+            const key = column.split('.').find((part, partIndex) => !(partIndex > 0 && /^\d+$/.test(part)) && !SQONRecords.isValidKeyName(part));
+            if (key !== undefined) {
+                throw new Error(`Invalid CSV column name "${column}" in column ${index + 1}: '${key}' is not a valid SQON key name.`);
+            }
+            if (columns.indexOf(column) !== index) {
+                throw new Error(`Duplicate CSV column "${column}" in column ${index + 1}.`);
+            }
+        });
+
+        const errors: string[] = [];
+        const records = rows.map(({ cells, line }, index) => {
+            const record: Record<string, any> = {};
+            const position = `row ${index + 1} (line ${line})`;
+
+            if (cells.length > columns.length) {
+                errors.push(`${position}: ${cells.length} values for ${columns.length} columns.`);
+            }
+            columns.forEach((column, columnIndex) => {
+                const path = column.split('.');
+                const definition = SQONCsv.definition(schema, path);
+                try {
+                    const value = SQONDocuments.fromText(cells[columnIndex] ?? '', definition);
+                    if (value !== undefined) SQONCsv.assign(record, path, value);
+                } catch (error) {
+                    errors.push(`${position}, column ${columnIndex + 1} (${column}): ${(error as Error).message}`);
+                }
+            });
+            return SQONCsv.compact(record);
+        });
+
+        if (errors.length > 0) {
+            throw new Error(`Invalid CSV values:\n${errors.join('\n')}`);
+        }
+        return records;
+    }
+
+    /**
+     * Splits CSV text into rows of cells. Quoted cells may hold the delimiter, line breaks and doubled quotes, and blank lines are skipped.
+     * @param text - The CSV text.
+     * @returns The rows, with the line each one starts on.
+     * @throws {Error} If a quoted cell is not closed.
+     */
+    private parse(text: string): CsvRow[] {
+        const source = text.replace(/^\uFEFF/, '');
+        const rows: CsvRow[] = [];
+        let cells: string[] = [];
+        let cell = '';
+        let quoted = false;
+        let hasQuotes = false;
+        let line = 1;
+        let rowLine = 1;
+        let quoteLine = 1;
+
+        const endRow = () => {
+            if (cells.length > 0 || cell !== '' || hasQuotes) rows.push({ cells: [...cells, cell], line: rowLine });
+            cells = [];
+            cell = '';
+            hasQuotes = false;
+        };
+
+        for (let index = 0; index < source.length; index++) {
+            const char = source[index];
+
+            if (quoted) {
+                if (char === this.quote && source[index + 1] === this.quote) {
+                    cell += this.quote;
+                    index++;
+                } else if (char === this.quote) {
+                    quoted = false;
+                } else {
+                    if (char === '\n' || char === '\r' && source[index + 1] !== '\n') line++;
+                    cell += char;
+                }
+            } else if (char === this.quote && cell === '') {
+                quoted = true;
+                hasQuotes = true;
+                quoteLine = line;
+            } else if (char === this.delimiter) {
+                cells.push(cell);
+                cell = '';
+            } else if (char === '\r' || char === '\n') {
+                if (char === '\r' && source[index + 1] === '\n') index++;
+                endRow();
+                line++;
+                rowLine = line;
+            } else {
+                cell += char;
+            }
+        }
+
+        if (quoted) {
+            throw new Error(`Invalid CSV at line ${quoteLine}: Unclosed quoted cell.`);
+        }
+        endRow();
+        return rows;
+    }
+
+    /**
+     * Joins cells into a row, quoting the cells that need it.
+     * @param cells - The cell texts.
+     * @returns The row, without a line ending.
+     */
+    private formatRow(cells: string[]): string {
+        return cells.map((cell) => {
+            const needsQuotes = this.quoteAll || cell.includes(this.delimiter) || cell.includes(this.quote) || /[\r\n]|^\s|\s$/.test(cell);
+            return needsQuotes ? this.quote + cell.split(this.quote).join(this.quote + this.quote) + this.quote : cell;
+        }).join(this.delimiter);
+    }
+
+    /**
+     * Flattens a value into the cells of its column, or of one column per nested field and array element.
+     * Empty objects and arrays are written as `{}` and `[]` so that they are read back.
+     * @param value - The plain value.
+     * @param path - The dot-path of the value.
+     * @param cells - The cells of the row, by column.
+     */
+    private flatten(value: any, path: string, cells: Map<string, string>): void {
+        if (value === undefined) return;
+
+        if (Array.isArray(value)) {
+            if (this.arrays === 'json' || value.length === 0) {
+                cells.set(path, JSON.stringify(SQONDocuments.toJson(value)));
+            } else {
+                value.forEach((element, index) => this.flatten(element, `${path}.${index}`, cells));
+            }
+        } else if (SQONCsv.isObject(value)) {
+            const entries = Object.entries(value).filter(([, field]) => field !== undefined);
+            if (entries.length === 0) cells.set(path, '{}');
+            for (const [key, field] of entries) this.flatten(field, `${path}.${key}`, cells);
+        } else {
+            cells.set(path, SQONDocuments.toText(value, this.binaryEncoding));
+        }
+    }
+
+    /**
+     * Finds the schema definition of a column from its dot-path, through nested objects and array elements.
+     * @param schema - The parsed schema.
+     * @param path - The segments of the column name.
+     * @returns The definition, or undefined if the schema does not declare the column.
+     */
+    private static definition(schema: Record<string, any>, path: string[]): SchemaDefinition | undefined {
+        let definition: SchemaDefinition | undefined = schema[path[0]];
+
+        for (const segment of path.slice(1)) {
+            if (!definition) return undefined;
+            definition = /^\d+$/.test(segment) && definition.items
+                ? SQONDocuments.itemDefinition(definition)
+                : definition.properties?.[segment];
+        }
+        return definition;
+    }
+
+    /**
+     * Sets a value at a dot-path of a record, creating the objects and arrays on its way. Numeric segments index arrays.
+     * @param record - The record being read.
+     * @param path - The segments of the column name.
+     * @param value - The value of the cell.
+     */
+    private static assign(record: Record<string, any>, path: string[], value: any): void {
+        let target: any = record;
+
+        path.forEach((segment, index) => {
+            if (index === path.length - 1) {
+                target[segment] = value;
+                return;
+            }
+            if (target[segment] === undefined) target[segment] = /^\d+$/.test(path[index + 1]) ? [] : {};
+            target = target[segment];
+        });
+    }
+
+    /**
+     * Removes the holes left in arrays by empty cells of indexed columns.
+     * @param value - The value read from a row.
+     * @returns The value, with dense arrays.
+     */
+    private static compact(value: any): any {
+        if (Array.isArray(value)) return value.filter((_, index) => index in value).map((element) => SQONCsv.compact(element));
+        if (SQONCsv.isObject(value)) {
+            for (const key of Object.keys(value)) value[key] = SQONCsv.compact(value[key]);
+        }
+        return value;
+    }
+
+    /**
+     * Checks whether a value is a plain object rather than an array, a date or bytes.
+     * @param value - The value to check.
+     * @returns True if the value is a plain object.
+     */
+    private static isObject(value: any): value is Record<string, any> {
+        return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date) && !(value instanceof Uint8Array);
+    }
+}
@@ -0,0 +1,91 @@
+import { Diagnostic, DiagnosticDetails, DiagnosticSeverity } from '../types/diagnostics';
+
+const codes = {
+    InvalidStrictValue: { code: 'SQON1001', severity: 'error' },
+    UnknownCommand: { code: 'SQON1002', severity: 'error' },
+    UnexpectedEnd: { code: 'SQON1003', severity: 'error' },
+    SectionOrder: { code: 'SQON1004', severity: 'error' },
+    SectionAlreadyOpen: { code: 'SQON1005', severity: 'error' },
+    MissingSection: { code: 'SQON1006', severity: 'error' },
+    InvalidImport: { code: 'SQON1007', severity: 'error' },
+    UnresolvedImport: { code: 'SQON1008', severity: 'error' },
+    CircularImport: { code: 'SQON1009', severity: 'error' },
+
+    InvalidTypeCombination: { code: 'SQON2001', severity: 'error' },
+    InvalidType: { code: 'SQON2002', severity: 'error' },
+    InvalidTypeDeclaration: { code: 'SQON2003', severity: 'error' },
+    DuplicateType: { code: 'SQON2004', severity: 'error' },
+    CircularTypeReference: { code: 'SQON2005', severity: 'error' },
+    UnclosedSchemaBlock: { code: 'SQON2006', severity: 'error' },
+    TypeConflict: { code: 'SQON2007', severity: 'error' },
+    UnknownReferenceTarget: { code: 'SQON2008', severity: 'error' },
+
+    InvalidValidationLine: { code: 'SQON3001', severity: 'error' },
+    InvalidRuleValue: { code: 'SQON3002', severity: 'error' },
+    UnknownSchemaField: { code: 'SQON3003', severity: 'error' },
+    UnknownRule: { code: 'SQON3004', severity: 'error' },
+    RuleNotApplicable: { code: 'SQON3005', severity: 'error' },
+    InvalidRuleList: { code: 'SQON3006', severity: 'error' },
+
+    MissingRecordsMarker: { code: 'SQON4001', severity: 'error' },
+    DocumentNumberMismatch: { code: 'SQON4002', severity: 'error' },
+    InvalidDocumentLine: { code: 'SQON4003', severity: 'error' },
+    MissingSemicolon: { code: 'SQON4004', severity: 'error' },
+    InvalidValue: { code: 'SQON4005', severity: 'error' },
+    InvalidKeyName: { code: 'SQON4006', severity: 'error' },
+    MismatchedBraces: { code: 'SQON4007', severity: 'warning' },
+    MismatchedBrackets: { code: 'SQON4008', severity: 'warning' },
+    UnexpectedToken: { code: 'SQON4009', severity: 'error' },
+
+    SchemaViolation: { code: 'SQON5001', severity: 'error' },
+    DuplicateValue: { code: 'SQON5002', severity: 'error' },
+    DanglingReference: { code: 'SQON5003', severity: 'error' },
+    DuplicateId: { code: 'SQON5004', severity: 'error' },
+    IdMismatch: { code: 'SQON5005', severity: 'error' },
+
+    DocumentNotFound: { code: 'SQON6001', severity: 'error' },
+} satisfies Record<string, { code: string; severity: DiagnosticSeverity }>;
+
+export type DiagnosticKind = keyof typeof codes;
+
+/**
+ * Creates the structured diagnostics reported by the SQON parsers, each with a stable code and severity.
+ */
+export class SQONDiagnostics {
+    static readonly codes = codes;
+
+    /**
+     * Creates a diagnostic of the given kind.
+     *
+     * @param {DiagnosticKind} kind - The kind of diagnostic, which determines its code and default severity.
+     * @param {DiagnosticDetails} details - The location, section and message of the diagnostic.
+     * @returns {Diagnostic} The diagnostic.
+     */
+    static create(kind: DiagnosticKind, { line, column = null, section, document, field, message, severity }: DiagnosticDetails): Diagnostic {
+        const diagnostic: Diagnostic = {
+            code: codes[kind].code,
+            severity: severity ?? codes[kind].severity,
+            line,
+            column,
+            section,
+            message,
+        };
+        if (document !== undefined) diagnostic.document = document;
+        if (field !== undefined) diagnostic.field = field;
+        return diagnostic;
+    }
+
+    /**
+     * Builds a source excerpt with a caret under the reported column.
+     *
+     * @param {string} text - The source line.
+     * @param {number} line - The line number, shown in the gutter.
+     * @param {number | null} column - The 1-based column to point at, or null to point at the start of the line.
+     * @returns {string} The caret-annotated excerpt.
+     */
+    static excerpt(text: string, line: number, column: number | null): string {
+        const gutter = String(line);
+        const caretColumn = column ?? text.length - text.trimStart().length + 1;
+        return `${gutter} | ${text}\n${' '.repeat(gutter.length)} | ${' '.repeat(Math.max(caretColumn - 1, 0))}^`;
+    }
+}
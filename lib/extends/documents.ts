@@ -0,0 +1,262 @@
+import { BinaryEncoding, Document, DocumentItem } from '../types/general';
+import { SQONLiterals } from './literals';
+import { SchemaDefinition } from '../types/validator';
+
+export class SQONDocuments {
+    /**
+     * Converts a parsed document into a plain object.
+     * Nested objects and arrays become real objects and arrays, and values keep
+     * their JavaScript types (`Date`, `Buffer`, `Uint8Array`, `bigint`).
+     * @param document - The parsed document.
+     * @returns The plain object, without the document number.
+     */
+    static toObject(document: Document): Record<string, any> {
+        return SQONDocuments.itemsToObject(document.data);
+    }
+
+    /**
+     * Converts a plain object into a parsed document, the reverse of `toObject`.
+     * The schema decides how ambiguous values are stored, such as an ISO string for a `Date` field,
+     * a string of digits for a `Decimal` or `BigInt` field, an integer for a `BigInt` field or an array of bytes for a `Binary` field. Fields missing from the schema are typed from their value.
+     * @param data - The plain object.
+     * @param schema - The parsed schema. Defaults to an empty schema.
+     * @param docNumber - The document number. Defaults to 0.
+     * @returns The parsed document.
+     */
+    static fromObject(data: Record<string, any>, schema: Record<string, any> = {}, docNumber: number = 0): Document {
+        return { '#doc': docNumber, data: SQONDocuments.objectToItems(data, schema) };
+    }
+
+    /**
+     * Determines the array type based on the types of items in the array.
+     * @param itemTypes - A set of types of the items within the array.
+     * @returns A string representing the type of the array (e.g., 'NumberArray', 'StringArray', etc.).
+     */
+    static arrayType(itemTypes: Set<string>): string {
+        const types = Array.from(itemTypes);
+
+        if (types.length === 0) return 'Array';
+
+        if (types.every(type => type === 'Number')) {
+            return 'NumberArray';
+        }
+        if (types.every(type => type === 'String')) {
+            return 'StringArray';
+        }
+        if (types.every(type => type === 'Object')) {
+            return 'ObjectArray';
+        }
+        return 'AnyArray';
+    }
+
+    /**
+     * Converts a single parsed value into a plain value.
+     * @param value - The parsed value.
+     * @param type - The type of the parsed value.
+     * @returns The plain value.
+     */
+    static toValue(value: any, type: string): any {
+        if (type === 'Object') return Array.isArray(value) ? SQONDocuments.itemsToObject(value) : {};
+        if (Array.isArray(value)) {
+            return value.map((item) => SQONDocuments.isItem(item) ? SQONDocuments.toValue(item.value, item.type) : item);
+        }
+        return value;
+    }
+
+    /**
+     * Writes a scalar plain value as text, for formats that only hold text such as CSV cells and XML elements.
+     * @param value - The plain value.
+     * @param binaryEncoding - How `Binary` values are written. Defaults to `bytes`.
+     * @returns The text, read back by `fromText`.
+     */
+    static toText(value: any, binaryEncoding: BinaryEncoding = 'bytes'): string {
+        if (value === null) return 'null';
+        if (value instanceof Date) return value.toISOString();
+        if (Buffer.isBuffer(value)) return SQONLiterals.encodeBinary(value, binaryEncoding);
+        if (value instanceof Uint8Array) return SQONLiterals.encodeUint8Array(value);
+        return String(value);
+    }
+
+    /**
+     * Reads text as a plain value of one of the types of its field, the reverse of `toText`.
+     * The types are tried from the most to the least specific, so `null` is read as `Null` and `12` as a `Number` before a `String`.
+     * Text of a field missing from the schema, or typed `Any`, is typed from the text itself.
+     * @param text - The text.
+     * @param definition - The schema definition of the field, if any.
+     * @returns The value, or undefined for empty text.
+     * @throws {Error} If the text is not a value of any of the types.
+     */
+    static fromText(text: string, definition?: SchemaDefinition): any {
+        if (text === '') return undefined;
+
+        const types: string[] = definition?.type ?? [];
+        if (types.length === 0 || types.includes('Any')) return SQONDocuments.inferText(text);
+
+        const number = SQONLiterals.parseNumber(text);
+        const isInteger = number !== null && (typeof number.value === 'bigint' || Number.isInteger(number.value));
+
+        if (types.includes('Null') && /^null$/i.test(text)) return null;
+        if (types.includes('Boolean') && /^(true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+        if (types.includes('Number') && number?.type === 'Number') return typeof number.value === 'bigint' && !types.includes('BigInt') ? Number(number.value) : number.value;
+        if (types.includes('BigInt') && (number?.type === 'BigInt' || isInteger && number?.type === 'Number')) return BigInt(number!.value);
+        if (types.includes('Decimal') && /^-?(\d+(\.\d*)?|\.\d+)m?$/.test(text)) return text.replace(/m$/, '');
+        if (types.includes('Ref') && isInteger && number?.type === 'Number') return number.value;
+        if (types.includes('Date')) {
+            const date = /^-?\d+$/.test(text) ? new Date(Number(text)) : new Date(text);
+            if (!isNaN(date.getTime())) return date;
+        }
+        if (types.includes('Binary') && (/^<Buffer[\s\d]*>$/.test(text) || /^(base64|hex):/.test(text))) return SQONLiterals.decodeBinary(text);
+        if (types.includes('Uint8Array') && /^Uint8Array\[.*\]$/.test(text)) return SQONLiterals.decodeUint8Array(text);
+
+        const hasArray = types.some((type) => type.endsWith('Array') || type.endsWith('[]'));
+        if (types.includes('Object') || hasArray) {
+            const value = SQONDocuments.parseJson(text);
+            const isObject = value !== null && typeof value === 'object' && !Array.isArray(value);
+            if (isObject && types.includes('Object') || Array.isArray(value) && hasArray) return value;
+        }
+        if (types.includes('String') || types.includes('Ref')) return text;
+
+        throw new Error(`"${text}" is not a valid ${types.filter((type) => type !== 'undefined').join(' | ')}.`);
+    }
+
+    /**
+     * Types text without a schema definition.
+     * @param text - The text.
+     * @returns The value: null, a boolean, a number, a date, a JSON array or object, or the text itself.
+     */
+    private static inferText(text: string): any {
+        if (/^null$/i.test(text)) return null;
+        if (/^(true|false)$/i.test(text)) return text.toLowerCase() === 'true';
+
+        const number = SQONLiterals.parseNumber(text);
+        if (number?.type === 'Number' && /^-?(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/i.test(text)) return number.value;
+        if (/^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/.test(text) && !isNaN(Date.parse(text))) return new Date(text);
+        if (/^[[{]/.test(text)) return SQONDocuments.parseJson(text) ?? text;
+        return text;
+    }
+
+    /**
+     * Parses JSON text.
+     * @param text - The text.
+     * @returns The parsed value, or undefined if the text is not JSON.
+     */
+    private static parseJson(text: string): any {
+        try {
+            return JSON.parse(text);
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Converts a value into one that `JSON.stringify` writes without losing it: dates become ISO strings,
+     * bytes become arrays of numbers and `bigint` values become strings of digits.
+     * @param value - The plain value.
+     * @returns The JSON-safe value.
+     */
+    static toJson(value: any): any {
+        if (typeof value === 'bigint') return value.toString();
+        if (value instanceof Date) return value.toISOString();
+        if (value instanceof Uint8Array) return [...value];
+        if (Array.isArray(value)) return value.map((element) => SQONDocuments.toJson(element));
+        if (value !== null && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, SQONDocuments.toJson(field)]));
+        }
+        return value;
+    }
+
+    /**
+     * Converts key-value pairs into a plain object.
+     * @param items - The key-value pairs.
+     * @returns The plain object.
+     */
+    private static itemsToObject(items: DocumentItem[]): Record<string, any> {
+        const data: Record<string, any> = {};
+        for (const { key, value, type } of items) {
+            data[key] = SQONDocuments.toValue(value, type);
+        }
+        return data;
+    }
+
+    /**
+     * Converts a plain object into key-value pairs.
+     * @param data - The plain object.
+     * @param schema - The schema of its fields.
+     * @returns The key-value pairs.
+     */
+    private static objectToItems(data: Record<string, any>, schema: Record<string, any>): DocumentItem[] {
+        return Object.entries(data).map(([key, value]) => SQONDocuments.toItem(key, value, schema[key]));
+    }
+
+    /**
+     * Converts a plain value into a key-value pair.
+     * @param key - The key of the value.
+     * @param value - The plain value.
+     * @param definition - The schema definition of the field, if any.
+     * @returns The key-value pair.
+     */
+    private static toItem(key: string, value: any, definition?: SchemaDefinition): DocumentItem {
+        const types: string[] = definition?.type ?? [];
+
+        if (value === null) return { key, value: null, type: 'Null' };
+        if (value === undefined) return { key, value: undefined, type: 'undefined' };
+        if (typeof value === 'boolean') return { key, value, type: 'Boolean' };
+        if (typeof value === 'number' || typeof value === 'bigint') {
+            if (types.includes('Decimal') && !types.includes('Number') && !types.includes('BigInt')) return { key, value: String(value), type: 'Decimal' };
+            if (types.includes('Date') && !types.includes('Number')) return { key, value: new Date(Number(value)), type: 'Date' };
+            if (types.includes('BigInt') && !types.includes('Number') && Number.isInteger(value)) return { key, value: BigInt(value), type: 'BigInt' };
+            if (typeof value === 'bigint') return { key, value, type: types.includes('Number') && !types.includes('BigInt') ? 'Number' : 'BigInt' };
+            return { key, value, type: 'Number' };
+        }
+        if (value instanceof Date) return { key, value, type: 'Date' };
+        if (typeof value === 'string') {
+            const date = new Date(value);
+            if (types.includes('Decimal') && !types.includes('String') && /^-?(\d+(\.\d*)?|\.\d+)$/.test(value)) {
+                return { key, value, type: 'Decimal' };
+            }
+            if (types.includes('BigInt') && !types.includes('String') && /^-?\d+$/.test(value)) {
+                return { key, value: BigInt(value), type: 'BigInt' };
+            }
+            return types.includes('Date') && !types.includes('String') && !isNaN(date.getTime())
+                ? { key, value: date, type: 'Date' }
+                : { key, value: value === '' ? undefined : value, type: value === '' ? 'undefined' : 'String' };
+        }
+
+        const isBytes = value instanceof Uint8Array || Array.isArray(value) && value.length > 0 && value.every((byte) => Number.isInteger(byte) && byte >= 0 && byte <= 255);
+        if (isBytes && (Buffer.isBuffer(value) && !types.includes('Uint8Array') || types.includes('Binary'))) {
+            return { key, value: Buffer.from(value), type: 'Binary' };
+        }
+        if (isBytes && (value instanceof Uint8Array || types.includes('Uint8Array'))) {
+            return { key, value: Uint8Array.from(value), type: 'Uint8Array' };
+        }
+
+        if (Array.isArray(value)) {
+            const itemDefinition = SQONDocuments.itemDefinition(definition);
+            const elements = value.map((element, index) => SQONDocuments.toItem(`_${index}`, element, itemDefinition));
+            return { key, value: elements, type: SQONDocuments.arrayType(new Set(elements.map((element) => element.type))) };
+        }
+
+        const elements = SQONDocuments.objectToItems(value, definition?.properties ?? {});
+        return { key, value: elements.length === 0 ? {} : elements, type: 'Object' };
+    }
+
+    /**
+     * Finds the schema definition of the elements of an array field.
+     * @param definition - The schema definition of the array field.
+     * @returns The definition of its elements, if the schema declares one.
+     */
+    static itemDefinition(definition?: SchemaDefinition): SchemaDefinition | undefined {
+        const items = definition?.items;
+        if (!items) return undefined;
+        return Array.isArray(items.type) ? items as SchemaDefinition : { type: ['Object'], properties: items as Record<string, SchemaDefinition> };
+    }
+
+    /**
+     * Checks whether an array element is a key-value pair.
+     * @param item - The element to check.
+     * @returns True if the element is a key-value pair.
+     */
+    private static isItem(item: any): item is DocumentItem {
+        return item !== null && typeof item === 'object' && 'key' in item && 'type' in item;
+    }
+}
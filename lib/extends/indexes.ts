@@ -0,0 +1,285 @@
+import * as fs from 'fs';
+import { Document } from '../types/general';
+import { Diagnostic } from '../types/diagnostics';
+import { IndexDefinition, IndexEntry, IndexFile, IndexOptions, IndexResult, RecordOffset } from '../types/indexes';
+import { TypedValue } from '../types/query';
+import { SQONDiagnostics } from './diagnostics';
+import { SQONQuery } from './query';
+import { SQONScanner } from './scanner';
+
+const version = 1;
+
+export class SQONIndexes {
+    private filePath: string;
+    private indexPath: string;
+    private scanner: SQONScanner;
+    private table: IndexFile | null;
+
+    /**
+     * Constructs the index manager of a SQON file. Indexes and the offset table are stored next to the file, in `<file>.idx`.
+     * @param filePath - The path of the indexed file.
+     */
+    constructor(filePath: string) {
+        this.filePath = filePath;
+        this.indexPath = `${filePath}.idx`;
+        this.scanner = new SQONScanner(filePath);
+        this.table = null;
+    }
+
+    /**
+     * Builds an index from the values of a field to the documents holding them, and stores it with the other indexes of the file.
+     * Array fields are indexed by each of their elements, and documents without the field are left out.
+     * @param field - The dot-path of the field.
+     * @param options - Whether every value must belong to a single document.
+     * @returns The number of distinct values, or the duplicates that prevent a unique index.
+     */
+    async create(field: string, { unique = false }: IndexOptions = {}): Promise<IndexResult> {
+        const existing = await this.load();
+        const definitions = SQONIndexes.definitions(existing);
+        definitions[field] = { unique };
+
+        const { file, errors } = await this.build(definitions, Boolean(existing?.offsets));
+        const fieldErrors = errors.filter((error) => error.field === field);
+
+        if (fieldErrors.length > 0) {
+            const previous = existing?.indexes[field];
+            if (previous) {
+                file.indexes[field].unique = previous.unique;
+            } else {
+                delete file.indexes[field];
+            }
+        }
+
+        await this.save(file);
+        return {
+            success: fieldErrors.length === 0,
+            field,
+            unique,
+            keys: fieldErrors.length === 0 ? Object.keys(file.indexes[field].entries).length : 0,
+            errors: fieldErrors,
+        };
+    }
+
+    /**
+     * Finds the documents whose field holds a value, reading only their lines.
+     * The indexes are rebuilt first if the file has changed since they were built.
+     * @param field - The dot-path of an indexed field.
+     * @param value - The value to look up. Values are matched by type, so a `Date` field is looked up with a `Date`.
+     * @returns The matching documents, in file order.
+     * @throws {Error} If the field is not indexed.
+     */
+    async lookup(field: string, value: any): Promise<Document[]> {
+        let file = await this.load();
+        if (file && !(await this.isFresh(file))) {
+            file = (await this.build(SQONIndexes.definitions(file), Boolean(file.offsets))).file;
+            await this.save(file);
+        }
+
+        const index = file?.indexes[field];
+        if (!index) {
+            throw new Error(`No index on '${field}'. Call 'createIndex('${field}')' first.`);
+        }
+
+        const key = SQONIndexes.key({ value, type: SQONQuery.typeOf(value) });
+        const entries = key !== null ? index.entries[key] ?? [] : [];
+        return this.scanner.read(entries.map(([docNumber, line, offset, length]) => ({ docNumber, line, offset, length })));
+    }
+
+    /**
+     * Finds the position of the documents in a range of document numbers, using the offset table of the file.
+     * The table is built in one scan of the `@records` section and kept in memory until the file changes.
+     * @param from - The first document number.
+     * @param to - The last document number, included.
+     * @param persist - Whether to store the table in the index file, so other processes can reuse it.
+     * @returns The positions of the documents, in file order.
+     */
+    async locate(from: number, to: number, persist: boolean): Promise<RecordOffset[]> {
+        if (!this.table || !(await this.isFresh(this.table))) {
+            const existing = await this.load();
+            if (existing?.offsets && await this.isFresh(existing)) {
+                this.table = existing;
+            } else {
+                this.table = (await this.build(persist ? SQONIndexes.definitions(existing) : {}, true)).file;
+                if (persist) await this.save(this.table);
+            }
+        }
+
+        return this.table.offsets!
+            .filter(([docNumber]) => docNumber >= from && docNumber <= to)
+            .map(([docNumber, line, offset, length]) => ({ docNumber, line, offset, length }));
+    }
+
+    /**
+     * Reads and parses documents at known positions.
+     * @param offsets - The positions of the documents.
+     * @returns The parsed documents.
+     */
+    async read(offsets: RecordOffset[]): Promise<Document[]> {
+        return this.scanner.read(offsets);
+    }
+
+    /**
+     * Finds the document with an ID, in one scan of the `@records` section.
+     * @param id - The ID of the document.
+     * @param primaryKey - The field the IDs of documents without an `@id` in their header are taken from, if any.
+     * @returns The document, or null if there is none.
+     */
+    async find(id: string, primaryKey?: string): Promise<Document | null> {
+        return this.scanner.find(id, primaryKey);
+    }
+
+    /**
+     * Reads the lines before the `@records` section.
+     * @returns The text of the sections before `@records`.
+     */
+    async header(): Promise<string> {
+        return this.scanner.header();
+    }
+
+    /**
+     * Removes the index of a field. The index file is deleted along with the last index.
+     * @param field - The dot-path of the indexed field.
+     * @returns True if the field was indexed.
+     */
+    async drop(field: string): Promise<boolean> {
+        const file = await this.load();
+        if (!file || !file.indexes[field]) return false;
+
+        delete file.indexes[field];
+        if (Object.keys(file.indexes).length === 0 && !file.offsets) {
+            await fs.promises.rm(this.indexPath, { force: true });
+        } else {
+            await this.save(file);
+        }
+        return true;
+    }
+
+    /**
+     * Scans the file once and builds every given index, and the offset table if requested.
+     * Documents are only parsed when there are indexes to build.
+     * @param definitions - The indexed fields and whether they are unique.
+     * @param withOffsets - Whether to build the offset table.
+     * @returns The index file, and the duplicates found in unique indexes.
+     */
+    private async build(definitions: Record<string, { unique: boolean }>, withOffsets: boolean): Promise<{ file: IndexFile; errors: Diagnostic[] }> {
+        const stats = await fs.promises.stat(this.filePath);
+        const indexes: Record<string, IndexDefinition> = {};
+        const offsets: IndexEntry[] = [];
+        const errors: Diagnostic[] = [];
+
+        for (const [field, { unique }] of Object.entries(definitions)) {
+            indexes[field] = { unique, entries: {} };
+        }
+
+        for await (const block of this.scanner.blocks()) {
+            if (withOffsets) offsets.push([block.docNumber, block.line, block.offset, block.length]);
+            if (Object.keys(indexes).length === 0) continue;
+
+            const document = SQONScanner.parse(block.text, block.line);
+            if (!document) continue;
+
+            for (const [field, index] of Object.entries(indexes)) {
+                for (const key of SQONIndexes.keys(SQONQuery.values(document, field))) {
+                    const entries = index.entries[key] ?? (index.entries[key] = []);
+                    if (index.unique && entries.length > 0) {
+                        errors.push(SQONDiagnostics.create('DuplicateValue', {
+                            line: block.line,
+                            section: 'records',
+                            document: block.docNumber,
+                            field,
+                            message: `Document #${block.docNumber}: Duplicate value for unique index '${field}', already used by document #${entries[0][0]}.`,
+                        }));
+                    }
+                    entries.push([block.docNumber, block.line, block.offset, block.length]);
+                }
+            }
+        }
+
+        const file: IndexFile = { version, size: stats.size, mtimeMs: stats.mtimeMs, ino: stats.ino, indexes };
+        if (withOffsets) file.offsets = offsets;
+        return { file, errors };
+    }
+
+    /**
+     * Checks whether the index file still describes the indexed file, by comparing its size, modification time and inode.
+     * @param file - The index file.
+     * @returns True if the indexed file has not changed.
+     */
+    private async isFresh(file: IndexFile): Promise<boolean> {
+        const stats = await fs.promises.stat(this.filePath);
+        return stats.size === file.size && stats.mtimeMs === file.mtimeMs && stats.ino === file.ino;
+    }
+
+    /**
+     * Reads the index file.
+     * @returns The index file, or null if it does not exist or was written by another version.
+     */
+    private async load(): Promise<IndexFile | null> {
+        try {
+            const file = JSON.parse(await fs.promises.readFile(this.indexPath, 'utf8'));
+            return file?.version === version ? file : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Writes the index file through a temporary file, so readers never see a partial index.
+     * @param file - The index file.
+     */
+    private async save(file: IndexFile): Promise<void> {
+        const tempPath = `${this.indexPath}.${process.pid}.${Date.now()}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(file), 'utf8');
+        await fs.promises.rename(tempPath, this.indexPath);
+    }
+
+    /**
+     * Lists the indexed fields of an index file.
+     * @param file - The index file, if any.
+     * @returns The indexed fields and whether they are unique.
+     */
+    private static definitions(file: IndexFile | null): Record<string, { unique: boolean }> {
+        const definitions: Record<string, { unique: boolean }> = {};
+        for (const [field, index] of Object.entries(file?.indexes ?? {})) {
+            definitions[field] = { unique: index.unique };
+        }
+        return definitions;
+    }
+
+    /**
+     * Computes the index keys of the values of a field, using the elements of arrays.
+     * @param values - The values of the field.
+     * @returns The distinct keys.
+     */
+    private static keys(values: TypedValue[]): string[] {
+        const keys = new Set<string>();
+
+        for (const value of values) {
+            const elements = value.type !== 'Object' && Array.isArray(value.value) ? SQONQuery.elements(value) : [value];
+            for (const element of elements) {
+                const key = SQONIndexes.key(element);
+                if (key !== null) keys.add(key);
+            }
+        }
+
+        return [...keys];
+    }
+
+    /**
+     * Computes the index key of a value. Numbers, BigInts and Decimals with the same value share a key.
+     * @param value - The value.
+     * @returns The key, or null for objects and arrays, which are not indexed.
+     */
+    private static key({ value, type }: TypedValue): string | null {
+        if (value === null || value === undefined) return 'null';
+        if (value instanceof Date) return `date:${isNaN(value.getTime()) ? 'invalid' : value.toISOString()}`;
+        if (type === 'Decimal' || typeof value === 'number' || typeof value === 'bigint') {
+            const text = String(value);
+            return `number:${text.includes('.') && !/e/i.test(text) ? text.replace(/0+$/, '').replace(/\.$/, '') : text}`;
+        }
+        if (typeof value === 'string') return `string:${value}`;
+        if (typeof value === 'boolean') return `boolean:${value}`;
+        if (value instanceof Uint8Array) return `bytes:${Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('hex')}`;
+        return null;
+    }
+}
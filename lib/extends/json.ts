@@ -0,0 +1,234 @@
+import { SQONDocuments } from './documents';
+import { Document, DocumentItem } from '../types/general';
+import { ConvertedRecord, JsonImport, JsonMode, JsonOptions } from '../types/convertor';
+
+const invalid = Symbol('invalid');
+
+const tags = ['$date', '$binary', '$uint8array', '$bigint', '$decimal', '$number', '$undefined'];
+
+export class SQONJson {
+    private mode: JsonMode;
+    private indent: number;
+
+    /**
+     * Constructs a reader and writer for JSON records.
+     * @param options - How values without a JSON form are written.
+     * @param options.mode - `typed` to write `Date`, `Binary`, `Uint8Array`, `BigInt`, `Decimal`, non-finite numbers and `undefined`
+     * values as tagged objects such as `{ "$date": "2024-01-02T03:04:05.000Z" }`, or `plain` to write them as JSON-safe values:
+     * ISO strings, arrays of bytes, strings of digits and `null`. Defaults to `typed`.
+     * @param options.indent - The number of spaces to indent with, 0 for a single line. Defaults to 2.
+     * @throws {Error} If the mode is unknown or the indent is not an integer between 0 and 10.
+     */
+    constructor({ mode = 'typed', indent = 2 }: JsonOptions = {}) {
+        if (mode !== 'typed' && mode !== 'plain') {
+            throw new Error(`Unknown JSON mode "${mode}".`);
+        }
+        if (!Number.isInteger(indent) || indent < 0 || indent > 10) {
+            throw new Error('The JSON indent must be an integer between 0 and 10.');
+        }
+
+        this.mode = mode;
+        this.indent = indent;
+    }
+
+    /**
+     * Writes documents as a JSON array of records, or as a header object with the records in `@records`.
+     * Document IDs are written in the `@id` field of their record.
+     * @param documents - The parsed documents.
+     * @param header - The `*STRICT`, `@schema` and `@validations` fields of the header object.
+     * @returns The JSON text.
+     */
+    write(documents: Document[], header?: Record<string, any>): string {
+        const records = documents.map((document) => {
+            const record: Record<string, any> = document['@id'] === undefined ? {} : { '@id': document['@id'] };
+            for (const item of document.data) record[item.key] = this.value(item);
+            return record;
+        });
+
+        return JSON.stringify(header ? { ...header, '@records': records } : records, null, this.indent) + '\n';
+    }
+
+    /**
+     * Reads JSON records, the reverse of `write`. Tagged objects are revived in either mode, so that `Date`, `Binary`,
+     * `Uint8Array` and `bigint` values, exact decimals, non-finite numbers and `undefined` come back as they were written.
+     * @param value - The parsed JSON: an array of records, a single record, or a header object with the records in `@records`.
+     * @returns The records with their `@id` and the item keys of their exact decimals, which are read as strings,
+     * and the header object if there is one.
+     * @throws {Error} If the records are not objects, or with every tagged object that cannot be revived, by record and field.
+     */
+    read(value: any): JsonImport {
+        const header = SQONJson.isObject(value) && Array.isArray(value['@records']) ? value : undefined;
+        const records = header ? header['@records'] : Array.isArray(value) ? value : [value];
+        const errors: string[] = [];
+
+        const converted = records.map((record: any, index: number): ConvertedRecord => {
+            if (!SQONJson.isObject(record) || SQONJson.tag(record)) {
+                errors.push(`record ${index + 1}: Expected an object.`);
+                return { data: {} };
+            }
+
+            const { '@id': id, ...fields } = record;
+            if (id !== undefined && typeof id !== 'string') {
+                errors.push(`record ${index + 1}, field @id: Expected a string.`);
+            }
+            const decimals: string[][] = [];
+            const data = SQONJson.revive(fields, `record ${index + 1}`, '', errors, decimals);
+            return { data, id: typeof id === 'string' ? id : undefined, decimals };
+        });
+
+        if (errors.length > 0) {
+            throw new Error(`Invalid JSON values:\n${errors.join('\n')}`);
+        }
+        if (!header) return { records: converted };
+
+        const { '@records': _, ...fields } = header;
+        return { records: converted, header: fields };
+    }
+
+    /**
+     * Parses JSON text.
+     * @param text - The JSON text.
+     * @returns The parsed value.
+     * @throws {Error} If the text is not valid JSON, with the line of the error when it is known.
+     */
+    static parse(text: string): any {
+        const source = text.replace(/^\uFEFF/, '');
+        try {
+            return JSON.parse(source);
+        } catch (error) {
+            const message = (error as Error).message;
+            const position = /position (\d+)/.exec(message);
+            const line = position ? source.slice(0, Number(position[1])).split('\n').length : null;
+            throw new Error(`Invalid JSON${line === null ? '' : ` at line ${line}`}: ${message}`);
+        }
+    }
+
+    /**
+     * Converts a parsed value into its JSON form for the mode.
+     * @param item - The key, value and type of the parsed value.
+     * @returns The JSON value.
+     */
+    private value({ value, type }: DocumentItem): any {
+        if (type === 'Object') {
+            const object: Record<string, any> = {};
+            for (const item of Array.isArray(value) ? value : []) object[item.key] = this.value(item);
+            return object;
+        }
+        if (Array.isArray(value)) {
+            return value.map((element) => SQONJson.isItem(element) ? this.value(element) : this.plain(element));
+        }
+        if (type === 'Decimal' && typeof value === 'string' && this.mode === 'typed') return { $decimal: value };
+        return this.plain(value);
+    }
+
+    /**
+     * Converts a plain value into its JSON form for the mode.
+     * @param value - The plain value.
+     * @returns The JSON value.
+     */
+    private plain(value: any): any {
+        if (this.mode === 'plain') return SQONDocuments.toJson(value);
+
+        if (value === undefined) return { $undefined: true };
+        if (typeof value === 'bigint') return { $bigint: value.toString() };
+        if (typeof value === 'number' && !Number.isFinite(value)) return { $number: String(value) };
+        if (value instanceof Date) return { $date: value.toISOString() };
+        if (Buffer.isBuffer(value)) return { $binary: value.toString('base64') };
+        if (value instanceof Uint8Array) return { $uint8array: Buffer.from(value).toString('base64') };
+        if (Array.isArray(value)) return value.map((element) => this.plain(element));
+        if (SQONJson.isObject(value)) {
+            return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, this.plain(field)]));
+        }
+        return value;
+    }
+
+    /**
+     * Revives the tagged objects of a JSON value.
+     * @param value - The JSON value.
+     * @param record - The record, used in error messages.
+     * @param path - The dot-path of the value, used in error messages.
+     * @param errors - The errors found so far, to which a tagged object that cannot be revived is added.
+     * @param decimals - The item keys of the exact decimals found so far, with `_n` for array elements.
+     * @param keys - The item keys of the value.
+     * @returns The plain value.
+     */
+    private static revive(value: any, record: string, path: string, errors: string[], decimals: string[][], keys: string[] = []): any {
+        if (Array.isArray(value)) {
+            return value.map((element, index) => {
+                return SQONJson.revive(element, record, path ? `${path}.${index}` : String(index), errors, decimals, [...keys, `_${index}`]);
+            });
+        }
+        if (!SQONJson.isObject(value)) return value;
+
+        const tag = SQONJson.tag(value);
+        if (!tag) {
+            return Object.fromEntries(Object.entries(value).map(([key, field]) => {
+                return [key, SQONJson.revive(field, record, path ? `${path}.${key}` : key, errors, decimals, [...keys, key])];
+            }));
+        }
+
+        const content = value[tag];
+        const revived = SQONJson.untag(tag, content);
+        if (revived === invalid) {
+            errors.push(`${record}, field ${path}: ${JSON.stringify(content)} is not a valid ${tag} value.`);
+            return undefined;
+        }
+        if (tag === '$decimal') decimals.push(keys);
+        return revived;
+    }
+
+    /**
+     * Revives the content of a tagged object.
+     * @param tag - The tag, such as `$date`.
+     * @param content - The value of the tag.
+     * @returns The plain value, or `invalid` if the content does not fit the tag.
+     */
+    private static untag(tag: string, content: any): any {
+        const isBase64 = typeof content === 'string' && /^[A-Za-z0-9+/]*={0,2}$/.test(content) && content.length % 4 === 0;
+
+        switch (tag) {
+            case '$date':
+                return typeof content === 'string' && !isNaN(Date.parse(content)) ? new Date(content) : invalid;
+            case '$binary':
+                return isBase64 ? Buffer.from(content, 'base64') : invalid;
+            case '$uint8array':
+                return isBase64 ? new Uint8Array(Buffer.from(content, 'base64')) : invalid;
+            case '$bigint':
+                return typeof content === 'string' && /^-?\d+$/.test(content) ? BigInt(content) : invalid;
+            case '$decimal':
+                return typeof content === 'string' && /^-?(\d+(\.\d*)?|\.\d+)$/.test(content) ? content : invalid;
+            case '$number':
+                return ['NaN', 'Infinity', '-Infinity'].includes(content) ? Number(content) : invalid;
+            default:
+                return content === true ? undefined : invalid;
+        }
+    }
+
+    /**
+     * Finds the tag of a tagged object: an object with a single key such as `$date`.
+     * @param value - The object.
+     * @returns The tag, or undefined if the object is not tagged.
+     */
+    private static tag(value: Record<string, any>): string | undefined {
+        const keys = Object.keys(value);
+        return keys.length === 1 && tags.includes(keys[0]) ? keys[0] : undefined;
+    }
+
+    /**
+     * Checks whether an array element is a key-value pair.
+     * @param item - The element to check.
+     * @returns True if the element is a key-value pair.
+     */
+    private static isItem(item: any): item is DocumentItem {
+        return item !== null && typeof item === 'object' && 'key' in item && 'type' in item;
+    }
+
+    /**
+     * Checks whether a value is a plain object rather than an array, a date or bytes.
+     * @param value - The value to check.
+     * @returns True if the value is a plain object.
+     */
+    private static isObject(value: any): value is Record<string, any> {
+        return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date) && !(value instanceof Uint8Array);
+    }
+}
@@ -0,0 +1,267 @@
+import { BinaryEncoding } from '../types/general';
+
+const escapes: Record<string, string> = {
+    '"': '"',
+    '\\': '\\',
+    '/': '/',
+    'b': '\b',
+    'f': '\f',
+    'n': '\n',
+    'r': '\r',
+    't': '\t',
+};
+
+export class SQONLiterals {
+    /**
+     * Escapes a string so it can be written between double quotes in a record.
+     * @param value - The raw string.
+     * @returns The escaped string, without the surrounding quotes.
+     */
+    static escape(value: string): string {
+        let escaped = '';
+
+        for (const char of value) {
+            switch (char) {
+                case '"': escaped += '\\"'; break;
+                case '\\': escaped += '\\\\'; break;
+                case '\n': escaped += '\\n'; break;
+                case '\r': escaped += '\\r'; break;
+                case '\t': escaped += '\\t'; break;
+                case '\b': escaped += '\\b'; break;
+                case '\f': escaped += '\\f'; break;
+                default: {
+                    const code = char.charCodeAt(0);
+                    escaped += code < 0x20 || code === 0x7f
+                        ? `\\u${code.toString(16).padStart(4, '0')}`
+                        : char;
+                }
+            }
+        }
+
+        return escaped;
+    }
+
+    /**
+     * Writes a string as a quoted SQON string literal.
+     * @param value - The raw string.
+     * @returns The quoted and escaped literal.
+     */
+    static quote(value: string): string {
+        return `"${SQONLiterals.escape(value)}"`;
+    }
+
+    /**
+     * Resolves the escape sequences of a string literal's content.
+     * Supported escapes are `\"`, `\\`, `\/`, `\b`, `\f`, `\n`, `\r`, `\t` and `\uXXXX`.
+     * @param content - The content between the quotes.
+     * @returns The unescaped string.
+     * @throws {Error} If the content contains an unknown or incomplete escape, or an unescaped quote.
+     */
+    static unescape(content: string): string {
+        let value = '';
+
+        for (let i = 0; i < content.length; i++) {
+            const char = content[i];
+
+            if (char === '"') {
+                throw new Error(`Unescaped quote at position ${i + 1}.`);
+            }
+
+            if (char !== '\\') {
+                value += char;
+                continue;
+            }
+
+            const next = content[++i];
+            if (next === 'u') {
+                const hex = content.slice(i + 1, i + 5);
+                if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+                    throw new Error(`Invalid unicode escape '\\u${hex}'.`);
+                }
+                value += String.fromCharCode(parseInt(hex, 16));
+                i += 4;
+            } else if (next !== undefined && next in escapes) {
+                value += escapes[next];
+            } else {
+                throw new Error(next === undefined ? 'Unterminated escape sequence.' : `Invalid escape sequence '\\${next}'.`);
+            }
+        }
+
+        return value;
+    }
+
+    /**
+     * Reads a numeric literal.
+     * Besides decimal and exponent notation, it accepts `0x`, `0o` and `0b` integers, `NaN`, `Infinity` and `-Infinity`,
+     * `123n` BigInt literals and `12.50m` Decimal literals. Integers outside the safe range are read exactly, as a `bigint`.
+     * @param literal - The literal, as written in a record.
+     * @returns The value and its type, or null if the literal is not a number.
+     */
+    static parseNumber(literal: string): { value: number | bigint | string; type: 'Number' | 'BigInt' | 'Decimal' } | null {
+        const sign = literal[0] === '-' || literal[0] === '+' ? literal[0] : '';
+        const body = literal.slice(sign.length);
+        const negative = sign === '-';
+
+        if (literal === 'NaN') return { value: NaN, type: 'Number' };
+        if (body === 'Infinity') return { value: negative ? -Infinity : Infinity, type: 'Number' };
+
+        if (/^\d+n$/.test(body)) {
+            const value = BigInt(body.slice(0, -1));
+            return { value: negative ? -value : value, type: 'BigInt' };
+        }
+
+        if (/^(\d+(\.\d*)?|\.\d+)m$/.test(body)) {
+            return { value: (negative ? '-' : '') + body.slice(0, -1), type: 'Decimal' };
+        }
+
+        if (/^(0x[0-9a-f]+|0o[0-7]+|0b[01]+)$/i.test(body) || /^\d+$/.test(body)) {
+            const value = negative ? -BigInt(body) : BigInt(body);
+            const isSafe = value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER);
+            return { value: isSafe ? Number(value) : value, type: 'Number' };
+        }
+
+        if (/^(\d+(\.\d*)?|\.\d+)(e[+-]?\d+)?$/i.test(body)) {
+            return { value: Number(literal), type: 'Number' };
+        }
+
+        return null;
+    }
+
+    /**
+     * Writes a number, BigInt or Decimal value as a literal that `parseNumber` reads back unchanged.
+     * @param value - The value to write.
+     * @param type - The type of the value.
+     * @returns The literal.
+     */
+    static formatNumber(value: number | bigint | string, type: string): string {
+        if (type === 'BigInt') return `${value}n`;
+        if (type === 'Decimal') return `${value}m`;
+        return String(value);
+    }
+
+    /**
+     * Decodes a `Binary` literal: `<Buffer 21 231 13>` with decimal bytes, `base64:...` or `hex:...`.
+     * @param literal - The literal, as written in a record.
+     * @returns The decoded bytes.
+     * @throws {Error} If a byte is out of range or the encoded data is malformed.
+     */
+    static decodeBinary(literal: string): Buffer {
+        if (literal.startsWith('base64:')) {
+            const data = literal.slice('base64:'.length).trim();
+            if (data.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/.test(data)) {
+                throw new Error(`Invalid base64 data in '${SQONLiterals.preview(literal)}'.`);
+            }
+            return Buffer.from(data, 'base64');
+        }
+
+        if (literal.startsWith('hex:')) {
+            const data = literal.slice('hex:'.length).trim();
+            if (!/^(?:[0-9a-fA-F]{2})*$/.test(data)) {
+                throw new Error(`Invalid hex data in '${SQONLiterals.preview(literal)}'.`);
+            }
+            return Buffer.from(data, 'hex');
+        }
+
+        return Buffer.from(SQONLiterals.parseBytes(literal.slice('<Buffer'.length, -1), /\s+/, literal));
+    }
+
+    /**
+     * Decodes a `Uint8Array[1, 2, 3]` literal.
+     * @param literal - The literal, as written in a record.
+     * @returns The decoded bytes.
+     * @throws {Error} If a byte is out of range.
+     */
+    static decodeUint8Array(literal: string): Uint8Array {
+        return new Uint8Array(SQONLiterals.parseBytes(literal.slice('Uint8Array['.length, -1), /\s*,\s*/, literal));
+    }
+
+    /**
+     * Writes bytes as a `Binary` literal.
+     * @param bytes - The bytes to write.
+     * @param encoding - `bytes` for `<Buffer 21 231>`, or `base64` / `hex` for the compact forms. Defaults to `bytes`.
+     * @returns The literal.
+     */
+    static encodeBinary(bytes: Uint8Array, encoding: BinaryEncoding = 'bytes'): string {
+        const buffer = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+        if (encoding === 'base64') return `base64:${buffer.toString('base64')}`;
+        if (encoding === 'hex') return `hex:${buffer.toString('hex')}`;
+        return `<Buffer ${[...bytes].join(' ')}>`;
+    }
+
+    /**
+     * Writes bytes as a `Uint8Array[...]` literal.
+     * @param bytes - The bytes to write.
+     * @returns The literal.
+     */
+    static encodeUint8Array(bytes: Uint8Array): string {
+        return `Uint8Array[${[...bytes].join(', ')}]`;
+    }
+
+    /**
+     * Reads a list of decimal bytes.
+     * @param content - The bytes, between the literal's delimiters.
+     * @param separator - The separator between bytes.
+     * @param literal - The whole literal, for error messages.
+     * @returns The bytes.
+     * @throws {Error} If an entry is not an integer between 0 and 255.
+     */
+    private static parseBytes(content: string, separator: RegExp, literal: string): number[] {
+        const trimmed = content.trim();
+        if (!trimmed) return [];
+
+        return trimmed.split(separator).map((byte) => {
+            if (!/^\d{1,3}$/.test(byte) || Number(byte) > 255) {
+                throw new Error(`Invalid byte '${byte}' in '${SQONLiterals.preview(literal)}'. Bytes must be integers between 0 and 255.`);
+            }
+            return Number(byte);
+        });
+    }
+
+    /**
+     * Shortens a literal for error messages.
+     * @param literal - The literal.
+     * @returns The literal, cut after 40 characters.
+     */
+    private static preview(literal: string): string {
+        return literal.length > 40 ? `${literal.slice(0, 40)}...` : literal;
+    }
+
+    /**
+     * Finds the end of a string literal.
+     * @param content - The text containing the literal.
+     * @param start - The index of the opening quote.
+     * @returns The index of the closing quote, or -1 if the literal is not terminated.
+     */
+    static skipString(content: string, start: number): number {
+        for (let i = start + 1; i < content.length; i++) {
+            if (content[i] === '\\') {
+                i++;
+            } else if (content[i] === '"') {
+                return i;
+            }
+        }
+
+        return -1;
+    }
+
+    /**
+     * Finds the first occurrence of a character that is not inside a string literal.
+     * @param content - The text to search.
+     * @param char - The character to find.
+     * @param start - The index to start searching from.
+     * @returns The index of the character, or -1 if it is not found.
+     */
+    static indexOutside(content: string, char: string, start: number = 0): number {
+        for (let i = start; i < content.length; i++) {
+            if (content[i] === '"') {
+                const end = SQONLiterals.skipString(content, i);
+                if (end === -1) return -1;
+                i = end;
+            } else if (content[i] === char) {
+                return i;
+            }
+        }
+
+        return -1;
+    }
+}
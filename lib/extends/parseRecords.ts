@@ -1,11 +1,24 @@
-import { ParsedArrayItem, ParsedValueResult, ParseArrayResult, ParsedObjectKeyValue} from '../types/records';
+import { CompletedRecords, FieldPositions, RecordSource, ParsedValueResult, ParseArrayResult, ParsedObjectKeyValue, Token, TokenType } from '../types/records';
+import { Document, DocumentItem } from '../types/general';
+import { Diagnostic } from '../types/diagnostics';
+import { SQONDiagnostics, DiagnosticKind } from './diagnostics';
+import { SQONLiterals } from './literals';
+import { SQONTokenizer } from './tokenizer';
+import { SQONDocuments } from './documents';
 
 export class SQONRecords  {
     private lines: string[];
     private position: number;
-    private records: Array<{ '#doc': number; data: Array<{ key: string; value: any; type: string }> }>;
-    errors: { line: number | null; message: string }[];
+    private records: Document[];
+    errors: Diagnostic[];
+    recordLines: number[];
+    recordSources: RecordSource[];
     private expectedDocNumber: number = 0;
+    private pending: string[] = [];
+    private pendingLines: number[] = [];
+    private current: RecordSource | null = null;
+    private truncated: boolean = false;
+    private fields: FieldPositions | null = null;
 
     /**
      * Constructs the SQONRecords object.
@@ -17,27 +30,33 @@ export class SQONRecords  {
         this.position = position;
         this.records = [];
         this.errors = [];
+        this.recordLines = [];
+        this.recordSources = [];
     }
 
 
        /**
         * Parses records from the provided lines.
         * @param batchSize - The maximum number of lines to process at once. Defaults to 10.
-        * @returns An object containing the parsed records, the updated position, the current line, and errors (if any).
+        * @returns An object containing the parsed records, the line each record starts on, the source of each record, the updated position, the current line, and errors (if any).
         */
         parseRecords(batchSize = 10): {
-            records: Array<{ '#doc': number; data: Array<{ key: string; value: any; type: string }> }>;
+            records: Document[];
+            recordLines: number[];
+            recordSources: RecordSource[];
             position: number;
             currentLine: string;
-            errors: { line: number | null; message: string }[];
+            errors: Diagnostic[];
         } {
             const startMarker = '@records';
             const endMarker = '@end';
     
             if (!this.lines[this.position - 1].startsWith(startMarker)) {
-                this.errors.push({ line: this.position, message: `Records must start with '${startMarker}'.` });
+                this.report('MissingRecordsMarker', `Records must start with '${startMarker}'.`, { line: this.position });
                 return { 
                     records: [], 
+                    recordLines: [],
+                    recordSources: [],
                     position: this.position, 
                     currentLine: this.lines[this.position], 
                     errors: this.errors 
@@ -45,13 +64,14 @@ export class SQONRecords  {
             }
     
             let batch: string[] = [];
+            let batchLines: number[] = [];
     
             while (this.position < this.lines.length) {
                 const line = this.lines[this.position];
     
                 if (line === endMarker) {
                     if (batch.length > 0) {
-                        this.processBatch(batch);
+                        this.collect(this.processBatch(batch, batchLines));
                     }
                     this.position++;
                     break;
@@ -62,56 +82,209 @@ export class SQONRecords  {
                     continue;
                 }
     
-                batch.push(line);
-    
-                if (batch.length >= batchSize) {
-                    this.processBatch(batch);
+                if (batch.length >= batchSize && line.startsWith('#')) {
+                    this.collect(this.processBatch(batch, batchLines));
                     batch = [];
+                    batchLines = [];
                 }
     
+                batch.push(line);
+                batchLines.push(this.position + 1);
                 this.position++;
             }
     
             return {
                 records: this.records,
+                recordLines: this.recordLines,
+                recordSources: this.recordSources,
                 position: this.position,
                 currentLine: this.position < this.lines.length ? this.lines[this.position] : '',
                 errors: this.errors
             };
         }
     
+    /**
+     * Feeds a single line of the `@records` section, for callers that read the section incrementally.
+     * A document is only complete once the next document starts, so the records returned belong to earlier lines.
+     * @param line - The trimmed line to process.
+     * @param lineNumber - The line number of the line.
+     * @returns The records completed by this line, along with the line each of them starts on and their source.
+     */
+    pushLine(line: string, lineNumber: number): CompletedRecords {
+        if (line.startsWith('!#')) {
+            return { records: [], lines: [], sources: [] };
+        }
+
+        let completed: CompletedRecords = { records: [], lines: [], sources: [] };
+        if (line.startsWith('#') && this.pending.length > 0) {
+            completed = this.flush();
+        }
+
+        this.pending.push(line);
+        this.pendingLines.push(lineNumber);
+        return completed;
+    }
+
+    /**
+     * Finds the first line of the record that `pushLine` is still reading.
+     * @returns The line number the pending record starts on, or null if no record is pending.
+     */
+    pendingLine(): number | null {
+        return this.pendingLines[0] ?? null;
+    }
+
+    /**
+     * Processes the lines fed through `pushLine` that do not yet form a completed record.
+     * @returns The remaining records, along with the line each of them starts on and their source.
+     */
+    flush(): CompletedRecords {
+        if (this.pending.length === 0) {
+            return { records: [], lines: [], sources: [] };
+        }
+
+        const completed = this.processBatch(this.pending, this.pendingLines);
+        this.pending = [];
+        this.pendingLines = [];
+        return completed;
+    }
+
+    /**
+     * Stores processed records, the lines they start on and their sources.
+     * @param processed - The output of `processBatch`.
+     */
+    private collect(processed: CompletedRecords): void {
+        this.records.push(...processed.records);
+        this.recordLines.push(...processed.lines);
+        this.recordSources.push(...processed.sources);
+    }
+
     /**
      * Processes a batch of lines.
      * @param batch - The lines to process.
+     * @param batchLines - The line number of each entry in the batch.
+     * @returns The parsed records, along with the line each of them starts on and their source.
      */
-    private processBatch(batch: string[]): void {
+    private processBatch(batch: string[], batchLines: number[]): CompletedRecords {
         const cleanedBatch = this.cleanBatchContent(batch);
+        const segments = this.segmentBatch(batch, batchLines);
+        const processed: CompletedRecords = { records: [], lines: [], sources: [] };
             
         cleanedBatch.forEach((line, index) => {
-            const match = line.match(/^#(\d+)\s*->\s*(.+)$/);
+            const lineNumber = segments[index][0].line;
+            const match = line.match(/^#(\d+)(?:\s+@id=([\w.:-]+))?\s*->\s*(.+)$/);
             if (match) {
                 const docNumber = parseInt(match[1], 10);
-                const docContent = match[2];
+                const docContent = match[3];
+                this.current = { document: docNumber, content: docContent, contentStart: line.length - docContent.length, segments: segments[index] };
         
                 if (docNumber !== this.expectedDocNumber) {
-                    this.errors.push({
-                        line: this.position + index + 1,
-                        message: `Document number should be ${this.expectedDocNumber}, found ${docNumber}.`
-                    });
+                    this.report('DocumentNumberMismatch', `Document number should be ${this.expectedDocNumber}, found ${docNumber}.`, { line: lineNumber, offset: 1 - this.current.contentStart });
                 }
                 this.expectedDocNumber++;
         
-                const keyValuePairs = this.parseDocumentContent(docContent, docNumber, this.position + index + 1);
-                this.records.push({ '#doc': docNumber, data: keyValuePairs });
+                const keyValuePairs = this.parseDocumentContent(docContent, docNumber, lineNumber);
+                processed.records.push(match[2] === undefined ? { '#doc': docNumber, data: keyValuePairs } : { '#doc': docNumber, '@id': match[2], data: keyValuePairs });
+                processed.lines.push(lineNumber);
+                processed.sources.push(this.current);
+                this.current = null;
                 } else {
-                this.errors.push({
-                    line: this.position + index + 1,
-                    message: `Invalid document line: '${line}' in Document #${this.expectedDocNumber}`
-                });
+                this.report('InvalidDocumentLine', `Invalid document line: '${line}' in Document #${this.expectedDocNumber}`, { line: lineNumber, document: this.expectedDocNumber });
             }
         });
+        
+        return processed;
     }
         
+    /**
+     * Splits a batch into documents the same way `cleanBatchContent` does, keeping the line each joined part comes from.
+     * @param batch - The batch of lines.
+     * @param batchLines - The line number of each entry in the batch.
+     * @returns For each document, the line number and offset in the joined content of each of its lines.
+     */
+    private segmentBatch(batch: string[], batchLines: number[]): Array<Array<{ line: number; start: number }>> {
+        const documents: Array<Array<{ line: number; start: number }>> = [];
+        let segments: Array<{ line: number; start: number }> = [];
+        let offset = 0;
+
+        batch.forEach((line, index) => {
+            line = line.trim();
+
+            if (line.startsWith('#') && segments.length > 0) {
+                documents.push(segments);
+                segments = [];
+                offset = 0;
+            }
+
+            segments.push({ line: batchLines[index], start: offset });
+            offset += line.length + 1;
+        });
+
+        if (segments.length > 0) {
+            documents.push(segments);
+        }
+
+        return documents;
+    }
+
+    /**
+     * Records a diagnostic for the records section.
+     * When an offset into the current document's content is known, it is mapped back to the exact line and column.
+     * @param kind - The kind of diagnostic.
+     * @param message - The diagnostic message.
+     * @param location - The line of the document, and optionally the offset in its content.
+     */
+    private report(kind: DiagnosticKind, message: string, { line, offset, document }: { line: number | null; offset?: number; document?: number }): void {
+        let column: number | null = null;
+
+        if (offset !== undefined && this.current) {
+            ({ line, column } = this.locate(offset));
+        }
+
+        this.errors.push(SQONDiagnostics.create(kind, {
+            line: line ?? this.current?.segments[0].line ?? null,
+            column,
+            section: 'records',
+            document: document ?? this.current?.document,
+            message,
+        }));
+    }
+
+    /**
+     * Maps an offset into the current document's content back to the line and column it comes from.
+     * @param offset - The offset in the document's content.
+     * @returns The line and the 1-based column in the trimmed line.
+     */
+    private locate(offset: number): { line: number; column: number } {
+        const absolute = this.current!.contentStart + offset;
+        const segment = [...this.current!.segments].reverse().find((candidate) => candidate.start <= absolute) ?? this.current!.segments[0];
+        return { line: segment.line, column: absolute - segment.start + 1 };
+    }
+
+    /**
+     * Records where a field of the current document starts, when `locateFields` reads the document again.
+     * @param path - The path of the field, with `.` between keys and `[n]` for array elements.
+     * @param offset - The offset of the field in the document's content.
+     */
+    private mark(path: string, offset: number): void {
+        if (this.fields && !(path in this.fields)) {
+            this.fields[path] = this.locate(offset);
+        }
+    }
+
+    /**
+     * Finds where each field of a document starts, so validation errors on a field can point at it.
+     * The document is parsed again, which keeps path tracking out of the normal parse.
+     * @param source - The content of the document and the lines it comes from.
+     * @returns The line and column of each field, by path, such as `home.city` or `homes[0].city`.
+     */
+    static locateFields(source: RecordSource): FieldPositions {
+        const parser = new SQONRecords([]);
+        parser.current = source;
+        parser.fields = {};
+        parser.parseDocumentContent(source.content, source.document, source.segments[0].line);
+        return parser.fields;
+    }
+
     /**
      * Cleans and formats the batch content.
      * @param batch - The batch of lines to clean.
@@ -146,306 +319,199 @@ export class SQONRecords  {
      * @param lineNumber - The line number where the document is located.
      * @returns An array of key-value pairs.
      */
-    parseDocumentContent(docContent: string, docNumber: number, lineNumber: number): Array<{ key: string; value: any; type: string }> {
-        const keyValuePairs: Array<{ key: string; value: any; type: string }> = [];
-        const kvPattern = /(\w+)\(([^)]*)\);|(\w+)\{|(\w+)\[/g;
-        let kvMatch: RegExpExecArray | null;
-        let lastIndex = 0;
-    
-        while ((kvMatch = kvPattern.exec(docContent)) !== null) {
-            const precedingContent = docContent.slice(lastIndex, kvMatch.index).trim();
-            if (precedingContent.length > 0 && !precedingContent.endsWith(';')) {
-                this.errors.push({ line: lineNumber, message: this.logError(`Document #${docNumber}: Missing semicolon before key '${kvMatch[1] || kvMatch[3] || kvMatch[4]}'`) });
-            }
-    
-            lastIndex = kvPattern.lastIndex;
-            let key: string, valueToStore: { value: any; type: string } | { error: string; type: 'error' }, type: string;
-    
-            if (kvMatch[1]) {
-                key = kvMatch[1];
-                const value = kvMatch[2].trim();
-                valueToStore = this.parseValue(value);
-                
-                if ('error' in valueToStore) {
-                    this.errors.push({ line: lineNumber, message: this.logError(valueToStore.error) });
-                    continue;
-                }
-    
-                type = valueToStore.type;
-                keyValuePairs.push({ key, value: valueToStore.value, type });
-    
-            } else if (kvMatch[3]) {
-                key = kvMatch[3];
-                const objectContent = this.extractObjectContent(docContent, lastIndex);
-                const objectKeyValuePairs = objectContent === '{}' ? {} : this.parseObjectContent(objectContent, docNumber, lineNumber);
-                keyValuePairs.push({ key, value: objectKeyValuePairs, type: 'Object' });
-    
-                lastIndex += objectContent.length + 2;
-                kvPattern.lastIndex = lastIndex;
-    
-            } else if (kvMatch[4]) {
-                key = kvMatch[4];
-                const arrayContent = this.extractArrayContent(docContent, lastIndex);
-                const { arrayItems, arrayType } = arrayContent === '[]'
-                    ? { arrayItems: [], arrayType: 'Array' }
-                    : this.parseArrayContent(arrayContent, docNumber, lineNumber);
-                keyValuePairs.push({ key, value: arrayItems, type: arrayType });
-    
-                lastIndex += arrayContent.length + 2;
-                kvPattern.lastIndex = lastIndex;
-            }
-        }
+    parseDocumentContent(docContent: string, docNumber: number, lineNumber: number): DocumentItem[] {
+        const tokenizer = new SQONTokenizer(docContent);
+        this.truncated = false;
+        const keyValuePairs = this.parseEntries(tokenizer, 'eof', docNumber, lineNumber);
     
         if (!docContent.trim().endsWith(';')) {
-            this.errors.push({ line: lineNumber, message: this.logError(`Document #${docNumber}: Missing semicolon at the end of the document.`) });
+            this.report('MissingSemicolon', `Document #${docNumber}: Missing semicolon at the end of the document.`, { line: lineNumber, offset: docContent.trimEnd().length });
         }
     
         return keyValuePairs;
     }
 
     /**
-     * Parses the content of a document and extracts key-value pairs.
-     * @param docContent - The content of the document.
-     * @param docNumber - The document number.
+     * Parses `key(value);`, `key{ ... };` and `key[ ... ];` entries until the closing token.
+     * Used for the document itself, objects and arrays of keyed items.
+     * @param tokenizer - The tokenizer of the document.
+     * @param closing - The token that ends the entries.
+     * @param docNumber - The document number for error tracking.
      * @param lineNumber - The line number where the document is located.
-     * @returns An array of key-value pairs.
+     * @param path - The path of the enclosing object or array, empty for the document itself.
+     * @returns The parsed key-value pairs.
      */
-    parseArrayContent(arrayContent: string, docNumber: number, lineNumber: number): ParseArrayResult {
-        const arrayItems: ParsedArrayItem[] = [];
-        const itemTypes = new Set<string>();
-    
-        const kvPattern = /([A-Za-z_$][A-Za-z0-9_$-]*)\[([^\]]*)\](?:\s*;)?|([A-Za-z_$][A-Za-z0-9_$-]*)\(([^)]*)\);|([A-Za-z_$][A-Za-z0-9_$-]*)\{/g;
-        let kvMatch: RegExpExecArray | null;
-        let lastIndex = 0;
-    
-        while ((kvMatch = kvPattern.exec(arrayContent)) !== null) {
-            const precedingContent = arrayContent.slice(lastIndex, kvMatch.index).trim();
-            const currentKey = kvMatch[1] || kvMatch[3] || kvMatch[5];
-    
-            if (!this.isValidKeyName(currentKey)) {
-                this.errors.push({
-                    line: lineNumber,
-                    message: this.logError(`Invalid key name '${currentKey}' in document #${docNumber}.`)
-                });
+    private parseEntries(tokenizer: SQONTokenizer, closing: TokenType, docNumber: number, lineNumber: number, path: string = ''): ParsedObjectKeyValue[] {
+        const entries: ParsedObjectKeyValue[] = [];
+
+        while (true) {
+            const token = tokenizer.next();
+
+            if (token.type === closing) {
+                return entries;
+            }
+
+            if (token.type === 'eof') {
+                this.reportUnclosed(closing, docNumber, lineNumber, token.start);
+                return entries;
+            }
+
+            if (token.type === 'semicolon') {
                 continue;
             }
-    
-            if (precedingContent.length > 0 && !precedingContent.endsWith(';')) {
-                this.errors.push({
-                    line: lineNumber,
-                    message: this.logError(`Document #${docNumber}: Missing semicolon before key '${currentKey}'`)
-                });
+
+            if (token.type !== 'word') {
+                this.report('UnexpectedToken', `Document #${docNumber}: Unexpected '${token.text}'.`, { line: lineNumber, offset: token.start });
+                continue;
             }
-    
-            lastIndex = kvPattern.lastIndex;
-    
-            if (kvMatch[1] && kvMatch[2]) {
-                const key = kvMatch[1];
-                const arrayValues = kvMatch[2].trim();
-                
-                if (arrayValues) {
-                    const values = arrayValues.split(',').map(v => {
-                        const parsed = parseFloat(v.trim());
-                        return isNaN(parsed) ? null : parsed;
-                    }).filter(v => v !== null);
-    
-                    if (values.length > 0) {
-                        arrayItems.push({ 
-                            key, 
-                            value: values, 
-                            type: 'NumberArray'
-                        });
-                        itemTypes.add('NumberArray');
-                    }
-                }
-            } 
-            else if (kvMatch[3] && kvMatch[4]) {
-                const key = kvMatch[3];
-                const value = kvMatch[4].trim();
-                const parsedValue = this.parseValue(value);
-                
-                if ('error' in parsedValue) {
-                    this.errors.push({
-                        line: lineNumber,
-                        message: this.logError(parsedValue.error)
-                    });
-                    continue;
-                }
-    
-                arrayItems.push({
-                    key,
-                    value: parsedValue.value,
-                    type: parsedValue.type
-                });
-                itemTypes.add(parsedValue.type);
+
+            const index = this.fields && closing === 'rbracket' ? token.text.match(/^_(\d+)$/) : null;
+            const fieldPath = !this.fields ? '' : index ? `${path}[${index[1]}]` : path ? `${path}.${token.text}` : token.text;
+            const entry = this.parseEntry(token, tokenizer, docNumber, lineNumber, fieldPath);
+            if (entry === undefined) {
+                continue;
             }
-            else if (kvMatch[5]) {
-                const key = kvMatch[5];
-                const nestedObjectContent = this.extractObjectContent(arrayContent, kvPattern.lastIndex);
-                const nestedObjectKeyValuePairs = this.parseObjectContent(nestedObjectContent, docNumber, lineNumber);
-                
-                arrayItems.push({
-                    key,
-                    value: nestedObjectKeyValuePairs,
-                    type: 'Object'
-                });
-                itemTypes.add('Object');
-                
-                lastIndex += nestedObjectContent.length + 2;
-                kvPattern.lastIndex = lastIndex;
+            if (entry !== null) {
+                entries.push(entry);
             }
-        }
-    
-        const arrayType = this.determineArrayType(itemTypes);
-        return { arrayItems, arrayType };
-    }
 
-    /**
-     * Determines the array type based on the types of items in the array.
-     * @param itemTypes - A set of types of the items within the array.
-     * @returns A string representing the type of the array (e.g., 'NumberArray', 'StringArray', etc.).
-     */
-    determineArrayType(itemTypes: Set<string>): string {
-        const types = Array.from(itemTypes);
-        
-        if (types.length === 0) return 'Array';
-        
-        if (types.every(type => type === 'Number')) {
-            return 'NumberArray';
-        }
-        if (types.every(type => type === 'String')) {
-            return 'StringArray';
-        }
-        if (types.every(type => type === 'Object')) {
-            return 'ObjectArray';
+            const next = tokenizer.peek();
+            if (next.type === 'semicolon') {
+                tokenizer.next();
+            } else if (next.type !== 'eof') {
+                this.report('MissingSemicolon', `Document #${docNumber}: Missing semicolon after key '${token.text}'`, { line: lineNumber, offset: next.start });
+            }
         }
-        return 'AnyArray';
     }
 
     /**
-     * Parses the content of an object to extract key-value pairs.
-     * @param objectContent - The content of the object as a string.
+     * Parses a single entry, starting from its key.
+     * @param keyToken - The token of the key.
+     * @param tokenizer - The tokenizer of the document.
      * @param docNumber - The document number for error tracking.
-     * @param lineNumber - The line number in the document where the object is located.
-     * @returns An array of key-value pairs parsed from the object content.
+     * @param lineNumber - The line number where the document is located.
+     * @param path - The path of the entry, such as `home.city` or `homes[0]`.
+     * @returns The parsed key-value pair, null if it was read but is invalid, or undefined if it could not be read.
      */
-    parseObjectContent(objectContent: string, docNumber: number, lineNumber: number): ParsedObjectKeyValue[] {
-        if (objectContent === '{}') {
-            return [];
+    private parseEntry(keyToken: Token, tokenizer: SQONTokenizer, docNumber: number, lineNumber: number, path: string): ParsedObjectKeyValue | null | undefined {
+        const key = keyToken.text;
+        this.mark(path, keyToken.start);
+        const validKey = SQONRecords.isValidKeyName(key);
+        if (!validKey) {
+            this.report('InvalidKeyName', `Invalid key name '${key}' in document #${docNumber}.`, { line: lineNumber, offset: keyToken.start });
         }
 
-        const objectKeyValuePairs: ParsedObjectKeyValue[] = [];
-        const kvPattern = /(\w+)\(([^)]*)\);|(\w+)\{|(\w+)\[/g;
-        let kvMatch: RegExpExecArray | null;
-        let lastIndex = 0;
-
-        while ((kvMatch = kvPattern.exec(objectContent)) !== null) {
-            const precedingContent = objectContent.slice(lastIndex, kvMatch.index).trim();
-            const currentKey = kvMatch[1] || kvMatch[3] || kvMatch[4];
+        const open = tokenizer.peek();
+        let entry: ParsedObjectKeyValue;
 
-            if (precedingContent.length > 0 && !precedingContent.endsWith(';')) {
-                this.errors.push({
-                    line: lineNumber,
-                    message: this.logError(`Document #${docNumber}: Missing semicolon before key '${currentKey}'`)
-                });
+        if (open.type === 'lparen') {
+            tokenizer.next();
+            const rawValue = tokenizer.readValue();
+            if (!rawValue) {
+                this.report('InvalidValue', `Document #${docNumber}: Unterminated value for key '${key}'.`, { line: lineNumber, offset: open.start });
+                return undefined;
             }
 
-            lastIndex = kvPattern.lastIndex;
-
-            let key: string, valueToStore: any, type: string;
-
-            if (kvMatch[1]) {
-                key = kvMatch[1];
-                const value = kvMatch[2].trim();
-                valueToStore = this.parseValue(value);
-                type = valueToStore.type;
-                objectKeyValuePairs.push({ key, value: valueToStore.value, type });
-
-            } else if (kvMatch[3]) {
-                key = kvMatch[3];
-                const nestedObjectContent = this.extractObjectContent(objectContent, kvPattern.lastIndex);
-                const nestedObjectKeyValuePairs = nestedObjectContent === '{}' ? {} : this.parseObjectContent(nestedObjectContent, docNumber, lineNumber);
-                objectKeyValuePairs.push({ key, value: nestedObjectKeyValuePairs, type: 'Object' });
-                lastIndex += nestedObjectContent.length + 2;
-                kvPattern.lastIndex = lastIndex;
-
-            } else if (kvMatch[4]) {
-                key = kvMatch[4];
-                const arrayContentInner = this.extractArrayContent(objectContent, kvPattern.lastIndex);
-                const { arrayItems: innerArrayItems, arrayType } = arrayContentInner === '[]'
-                    ? { arrayItems: [], arrayType: 'array' }
-                    : this.parseArrayContent(arrayContentInner, docNumber, lineNumber);
-
-                objectKeyValuePairs.push({ key, value: innerArrayItems, type: arrayType });
-                lastIndex += arrayContentInner.length + 2;
-                kvPattern.lastIndex = lastIndex;
+            const parsedValue = this.parseValue(rawValue.text.trim());
+            if ('error' in parsedValue) {
+                const leadingSpace = rawValue.text.length - rawValue.text.trimStart().length;
+                this.report('InvalidValue', parsedValue.error, { line: lineNumber, offset: rawValue.start + leadingSpace });
+                return null;
             }
+
+            entry = { key, value: parsedValue.value, type: parsedValue.type };
+        } else if (open.type === 'lbrace') {
+            tokenizer.next();
+            const objectKeyValuePairs = this.parseEntries(tokenizer, 'rbrace', docNumber, lineNumber, path);
+            entry = { key, value: objectKeyValuePairs.length === 0 ? {} : objectKeyValuePairs, type: 'Object' };
+        } else if (open.type === 'lbracket') {
+            tokenizer.next();
+            const { arrayItems, arrayType } = this.parseArray(tokenizer, docNumber, lineNumber, path);
+            entry = { key, value: arrayItems, type: arrayType };
+        } else {
+            const found = open.type === 'eof' ? 'the end of the document' : `'${open.text}'`;
+            this.report('UnexpectedToken', `Document #${docNumber}: Expected '(', '{' or '[' after key '${key}', found ${found}.`, { line: lineNumber, offset: open.start });
+            return undefined;
         }
 
-        return objectKeyValuePairs;
+        return validKey ? entry : null;
     }
 
     /**
-     * Extracts the content of an object from a string, handling nested braces.
-     * @param content - The content of the string to extract from.
-     * @param startIndex - The starting index where the object content begins.
-     * @returns A string containing the object content.
+     * Parses the content of an array, either keyed items (`_0(...); _1{ ... };`) or a plain list of values (`1, 2, 3`).
+     * @param tokenizer - The tokenizer of the document, positioned after the opening bracket.
+     * @param docNumber - The document number for error tracking.
+     * @param lineNumber - The line number where the document is located.
+     * @param path - The path of the array.
+     * @returns The array items and the array type.
      */
-    extractObjectContent(content: string, startIndex: number): string {
-        let i = startIndex + 1;
-        let objectContent = '';
-        let openBraces = 1;
-
-        if (content[i] === '}') {
-            i++;
-            if (content[i] === ';' || content[i] === undefined || content[i].trim() === '') {
-                return '{}';
-            }
+    private parseArray(tokenizer: SQONTokenizer, docNumber: number, lineNumber: number, path: string): ParseArrayResult {
+        const first = tokenizer.peek();
+        const second = tokenizer.peek(1);
+
+        if (first.type === 'word' && (second.type === 'lparen' || second.type === 'lbrace' || second.type === 'lbracket')) {
+            const arrayItems = this.parseEntries(tokenizer, 'rbracket', docNumber, lineNumber, path);
+            return { arrayItems, arrayType: this.determineArrayType(new Set(arrayItems.map((item) => item.type))) };
         }
 
-        while (i < content.length && openBraces > 0) {
-            const char = content[i];
-            objectContent += char;
+        const values: any[] = [];
+        const itemTypes = new Set<string>();
+
+        while (true) {
+            const token = tokenizer.next();
 
-            if (char === '{') openBraces++;
-            else if (char === '}') openBraces--;
+            if (token.type === 'rbracket') break;
+            if (token.type === 'eof') {
+                this.reportUnclosed('rbracket', docNumber, lineNumber, token.start);
+                break;
+            }
+            if (token.type === 'comma') continue;
 
-            i++;
-        }
+            if (token.type !== 'word' && token.type !== 'string') {
+                this.report('UnexpectedToken', `Document #${docNumber}: Unexpected '${token.text}' in array.`, { line: lineNumber, offset: token.start });
+                continue;
+            }
 
-        if (openBraces !== 0 && objectContent.trim() !== '{}') {
-            this.errors.push({ line: null, message: this.logWarn('Document: Mismatched braces in object.') });
+            const parsedValue = this.parseValue(token.text);
+            if ('error' in parsedValue) {
+                this.report('InvalidValue', parsedValue.error, { line: lineNumber, offset: token.start });
+                continue;
+            }
+
+            if (this.fields) this.mark(`${path}[${values.length}]`, token.start);
+            values.push(parsedValue.value);
+            itemTypes.add(parsedValue.type);
         }
-        return objectContent.trim();
+
+        return { arrayItems: values, arrayType: this.determineArrayType(itemTypes) };
     }
 
     /**
-     * Extracts the content of an array from a string, handling nested brackets.
-     * @param content - The content of the string to extract from.
-     * @param startIndex - The starting index where the array content begins.
-     * @returns A string containing the array content.
+     * Reports an object or array that reaches the end of the document without being closed.
+     * Only the innermost one is reported, since every enclosing one is unclosed as well.
+     * @param closing - The missing closing token.
+     * @param docNumber - The document number for error tracking.
+     * @param lineNumber - The line number where the document is located.
+     * @param offset - The offset of the end of the document.
      */
-    extractArrayContent(content: string, startIndex: number): string {
-        let i = startIndex + 1;
-        let arrayContent = '';
-        let openBrackets = 1;
-
-        if (content[i] === ']') return '[]';
-
-        while (i < content.length && openBrackets > 0) {
-            const char = content[i];
-            arrayContent += char;
-
-            if (char === '[') openBrackets++;
-            else if (char === ']') openBrackets--;
-
-            i++;
+    private reportUnclosed(closing: TokenType, docNumber: number, lineNumber: number, offset: number): void {
+        if (this.truncated) return;
+        this.truncated = true;
+
+        if (closing === 'rbrace') {
+            this.report('MismatchedBraces', `Document #${docNumber}: Mismatched braces in object.`, { line: lineNumber, offset });
+        } else if (closing === 'rbracket') {
+            this.report('MismatchedBrackets', `Document #${docNumber}: Mismatched brackets in array.`, { line: lineNumber, offset });
         }
+    }
 
-        if (openBrackets !== 0 && arrayContent.trim() !== '[]') {
-            this.errors.push({ line: null, message: this.logWarn('Document: Mismatched brackets in array.') });
-        }
-        return arrayContent.trim();
+    /**
+     * Determines the array type based on the types of items in the array.
+     * @param itemTypes - A set of types of the items within the array.
+     * @returns A string representing the type of the array (e.g., 'NumberArray', 'StringArray', etc.).
+     */
+    determineArrayType(itemTypes: Set<string>): string {
+        return SQONDocuments.arrayType(itemTypes);
     }
 
 
@@ -457,29 +523,39 @@ export class SQONRecords  {
     parseValue(value: string): ParsedValueResult {
         let valueToStore: any;
         let type: string;
+        let numberLiteral: ReturnType<typeof SQONLiterals.parseNumber>;
     
         if (value === "") {
             valueToStore = undefined;
             type = 'undefined';
-        } else if (value.startsWith('"') && value.endsWith('"')) {
-            valueToStore = value.slice(1, -1);
+        } else if (value.startsWith('"')) {
+            if (SQONLiterals.skipString(value, 0) !== value.length - 1) {
+                return { error: `Invalid string literal: '${value}'.`, type: 'error' };
+            }
+            try {
+                valueToStore = SQONLiterals.unescape(value.slice(1, -1));
+            } catch (error) {
+                return { error: `Invalid string literal: '${value}'. ${(error as Error).message}`, type: 'error' };
+            }
             type = valueToStore === "" ? 'undefined' : 'String';
             valueToStore = valueToStore === "" ? undefined : valueToStore;
-        } else if (value.startsWith('<Buffer') && value.endsWith('>')) {
-            valueToStore = value;
+        } else if ((value.startsWith('<Buffer') && value.endsWith('>')) || value.startsWith('base64:') || value.startsWith('hex:')) {
+            try {
+                valueToStore = SQONLiterals.decodeBinary(value);
+            } catch (error) {
+                return { error: (error as Error).message, type: 'error' };
+            }
             type = 'Binary';
         } else if (value.startsWith('Uint8Array[') && value.endsWith(']')) {
-            valueToStore = value;
-            type = 'Uint8Array';
-        } else if (!isNaN(Number(value)) && !isNaN(parseFloat(value)) && !value.startsWith('0x')) {
-            const numberValue = parseFloat(value);
-            if (numberValue > Number.MAX_SAFE_INTEGER || numberValue < Number.MIN_SAFE_INTEGER) {
-                valueToStore = BigInt(value);
-                type = 'Number';
-            } else {
-                valueToStore = numberValue;
-                type = 'Number';
+            try {
+                valueToStore = SQONLiterals.decodeUint8Array(value);
+            } catch (error) {
+                return { error: (error as Error).message, type: 'error' };
             }
+            type = 'Uint8Array';
+        } else if ((numberLiteral = SQONLiterals.parseNumber(value)) !== null) {
+            valueToStore = numberLiteral.value;
+            type = numberLiteral.type;
         } else if (value === 'TRUE') {
             valueToStore = true;
             type = 'Boolean';
@@ -558,38 +634,7 @@ export class SQONRecords  {
      * @param key - The key name to validate.
      * @returns True if the key name is valid, false otherwise.
      */
-    isValidKeyName(key: string): boolean {
-        const keyPattern = /^[A-Za-z0-9_$-]+$/;
-        const containsLetterOrSpecialChar = /[A-Za-z_$-]/.test(key);
-        const startsWithValidCharacter = /^[A-Za-z_$]/.test(key);
-
-        return key.length > 0 && keyPattern.test(key) && containsLetterOrSpecialChar && startsWithValidCharacter;
-    }
-
-    /**
-     * Logs an error message.
-     * @param message - The error message to log.
-     * @returns A formatted error message string.
-     */
-    logError(message: string): string {
-        return `ERR: ${message}`;
-    }
-
-    /**
-     * Logs a warning message.
-     * @param message - The warning message to log.
-     * @returns A formatted warning message string.
-     */
-    logWarn(message: string): string {
-        return `WARN: ${message}`;
-    }
-
-    /**
-     * Logs an informational message.
-     * @param message - The informational message to log.
-     * @returns A formatted info message string.
-     */
-    logInfo(message: string): string {
-        return `INFO: ${message}`;
+    static isValidKeyName(key: string): boolean {
+        return /^[A-Za-z_$][A-Za-z0-9_$-]*$/.test(key);
     }
-}
+}
\ No newline at end of file
@@ -1,32 +1,43 @@
 import { AllowedTypes } from '../types/general';
 import { ParsedValueResult } from '../types/records';
+import { Diagnostic } from '../types/diagnostics';
+import { TypeValidations } from '../types/imports';
+import { SQONDiagnostics, DiagnosticKind } from './diagnostics';
 export class SQONValidation {
     lines: string[];
     position: number;
     validations: Record<string, any>;
-    errors: Array<{ line: number; message: string }>;
+    errors: Diagnostic[];
     parsedSchema: Record<string, any>;
+    types: Record<string, any>;
+    typeValidations: TypeValidations;
     validationKeywords: Record<string, string[]>;
 
     constructor({
         lines,
         position = 0,
         parsedSchema,
+        types = {},
+        typeValidations = {},
         validationKeywords,
     }: {
         lines: string[];
         position?: number;
         parsedSchema: Record<string, any>;
+        types?: Record<string, any>;
+        typeValidations?: TypeValidations;
         validationKeywords: Record<string, string[]>;
     }) {
         this.lines = lines;
         this.position = position;
         this.validations = {};
+        this.typeValidations = { ...typeValidations };
         this.errors = [];
         this.parsedSchema = parsedSchema;
+        this.types = types;
         this.validationKeywords = validationKeywords;
     }
-    parseValidation(): { validations: Record<string, any>; errors: Array<{ line: number; message: string }> , lines: string[], position: number } {
+    parseValidation(): { validations: Record<string, any>; typeValidations: TypeValidations; errors: Diagnostic[], lines: string[], position: number } {
         while (this.position < this.lines.length) {
             const line = this.lines[this.position].trim();
     
@@ -42,18 +53,19 @@ export class SQONValidation {
             if (line.includes("->")) {
                 this.processValidationLine(line);
             } else if (line !== '') {
-                this.errors.push({ line: this.position + 1, message: `Invalid validation line: "${line}"` });
+                this.report('InvalidValidationLine', `Invalid validation line: "${line}"`);
             }
     
             this.position++;
         }
-    
-        return { validations: this.validations, errors: this.errors, lines: this.lines, position: this.position};
+
+        this.inheritValidations(this.parsedSchema);
+        return { validations: this.validations, typeValidations: this.typeValidations, errors: this.errors, lines: this.lines, position: this.position};
     }    
 
     processValidationLine(line: string): void {
         if (!line.includes("->")) {
-            this.errors.push({ line: this.position + 1, message: `Invalid format: ${line}` });
+            this.report('InvalidValidationLine', `Invalid format: ${line}`);
             return;
         }
 
@@ -63,11 +75,24 @@ export class SQONValidation {
         this.validateRulesAgainstSchema(key, rules);
 
         if (!this.errors.some(err => err.line === this.position + 1)) {
-            this.addValidation(key, rules);
+            if (this.isTypeKey(key)) {
+                const [typeName, ...path] = key.split('.');
+                const typeRules = this.typeValidations[typeName] = { ...this.typeValidations[typeName] };
+                typeRules[path.join('.')] = { ...typeRules[path.join('.')], ...rules };
+            } else {
+                this.addValidation(key, rules);
+            }
         }
     }
 
-    addValidation(key: string, rules: Record<string, any>): void {
+    /**
+     * Adds rules to the validations of a field.
+     * 
+     * @param {string} key - The dot-path of the field.
+     * @param {Record<string, any>} rules - The rules to add.
+     * @param {boolean} [inherited=false] - Whether the rules come from a named type, in which case rules already set on the field take precedence.
+     */
+    addValidation(key: string, rules: Record<string, any>, inherited: boolean = false): void {
         const parts = key.split('.');
         let current = this.validations;
 
@@ -79,7 +104,7 @@ export class SQONValidation {
                 if (!current[part]) {
                     current[part] = { rules: {} };
                 }
-                current[part].rules = { ...current[part].rules, ...rules };
+                current[part].rules = inherited ? { ...rules, ...current[part].rules } : { ...current[part].rules, ...rules };
             } else {
                 if (!current[part]) {
                     current[part] = {};
@@ -88,11 +113,71 @@ export class SQONValidation {
             }
         }
     }
+
+    /**
+     * Checks whether a validation key targets a field of a named type, such as `User.email`, rather than a schema field.
+     * 
+     * @param {string} key - The validation key.
+     * @returns {boolean} True if the key starts with a declared object type that is not also a schema field.
+     */
+    isTypeKey(key: string): boolean {
+        const [root, ...path] = key.split('.');
+        return path.length > 0 && !Object.hasOwn(this.parsedSchema, root) && Boolean(this.types[root]?.properties);
+    }
+
+    /**
+     * Collects the rules that apply to the fields of a named type: those of its base type and mixins, in order, then its own.
+     * 
+     * @param {string} typeName - The type name.
+     * @param {Set<string>} [seen] - The types being collected, so circular declarations stop.
+     * @returns {Record<string, Record<string, any>>} The rules, by dot-path inside the type.
+     */
+    typeRules(typeName: string, seen: Set<string> = new Set()): Record<string, Record<string, any>> {
+        if (seen.has(typeName)) return {};
+        seen.add(typeName);
+
+        const merged: Record<string, Record<string, any>> = {};
+        const sources = [...(this.types[typeName]?.bases ?? []).map((base: string) => this.typeRules(base, new Set(seen))), this.typeValidations[typeName] ?? {}];
+        for (const source of sources) {
+            for (const [path, rules] of Object.entries<Record<string, any>>(source)) {
+                merged[path] = { ...merged[path], ...rules };
+            }
+        }
+        return merged;
+    }
+
+    /**
+     * Applies the rules of named types to every schema field that references them, at any depth.
+     * Rules written for the field's own path take precedence over the ones it inherits.
+     * 
+     * @param {Record<string, any>} fields - The schema fields to walk.
+     * @param {string} [prefix=''] - The dot-path of the fields' parent.
+     */
+    inheritValidations(fields: Record<string, any>, prefix: string = ''): void {
+        for (const [key, definition] of Object.entries<Record<string, any>>(fields)) {
+            const path = `${prefix}${key}`;
+            if (definition.typeName) {
+                for (const [field, rules] of Object.entries(this.typeRules(definition.typeName))) {
+                    this.addValidation(`${path}.${field}`, rules, true);
+                }
+            }
+
+            if (definition.properties && definition.type.includes('Object')) {
+                this.inheritValidations(definition.properties, `${path}.`);
+            } else if (definition.items && !Array.isArray(definition.items.type)) {
+                this.inheritValidations(definition.items, `${path}.`);
+            }
+        }
+    }
+
     parseRules(rulesStr: string): Record<string, any> {
         const rules: Record<string, any> = {};
 
-        rulesStr.split(';').forEach(rule => {
-            const [ruleName, ruleValue] = rule.split('=').map(s => s.trim());
+        this.splitOutsideQuotes(rulesStr, ';').forEach(rule => {
+            if (rule.trim() === '') return;
+            const separatorIndex = rule.indexOf('=');
+            const ruleName = (separatorIndex === -1 ? rule : rule.slice(0, separatorIndex)).trim();
+            const ruleValue = separatorIndex === -1 ? '' : rule.slice(separatorIndex + 1).trim();
     
                 if (ruleValue === 'true' || ruleValue === 'false') {
                     rules[ruleName] = ruleValue === 'true';
@@ -100,9 +185,9 @@ export class SQONValidation {
                     rules[ruleName] = null;
                 } else if (ruleValue === 'undefined') {
                     rules[ruleName] = undefined;
-                } else if (/^\d+$/.test(ruleValue)) {
+                } else if (/^-?\d+$/.test(ruleValue)) {
                     rules[ruleName] = parseInt(ruleValue, 10);
-                } else if (/^\d+\.\d+$/.test(ruleValue)) {
+                } else if (/^-?\d+\.\d+$/.test(ruleValue)) {
                     rules[ruleName] = parseFloat(ruleValue);
                 } else if (ruleValue.startsWith('"') && ruleValue.endsWith('"')) {
                     rules[ruleName] = ruleValue.slice(1, -1);
@@ -113,19 +198,9 @@ export class SQONValidation {
                         : [];
                 } else if (ruleValue.startsWith('{') && ruleValue.endsWith('}')) {
                     const objectContent = ruleValue.slice(1, -1).trim();
-                    rules[ruleName] = objectContent
-                        ? Object.fromEntries(
-                              Object.entries(this.parseObject(objectContent)).map(([key, value]) => [
-                                  key,
-                                  this.parseValue(value),
-                              ])
-                          )
-                        : {};
+                    rules[ruleName] = objectContent ? this.parseObject(objectContent) : {};
                 } else {
-                    this.errors.push({ 
-                        line: this.position + 1, 
-                        message: `Invalid format for value of '${ruleName}' in '${rule}'`
-                    });
+                    this.report('InvalidRuleValue', `Invalid format for value of '${ruleName}' in '${rule.trim()}'`, rule.trim());
                 }
         });
     
@@ -135,7 +210,7 @@ export class SQONValidation {
 
     parseArray(content: string): string[] {
         const result: string[] = [];
-        const items = content.split(',');
+        const items = this.splitOutsideQuotes(content, ',');
         for (let i = 0; i < items.length; i++) {
           result.push(items[i].trim());
         }
@@ -144,10 +219,12 @@ export class SQONValidation {
     
     parseObject(content: string): Record<string, any> {
         const obj: Record<string, any> = {};
-        const pairs = content.split(',').map(item => item.trim());
+        const pairs = this.splitOutsideQuotes(content, ',').map(item => item.trim());
         
         pairs.forEach(pair => {
-            const [key, value] = pair.split(':').map(p => p.trim());
+            const separatorIndex = pair.indexOf(':');
+            const key = pair.slice(0, separatorIndex).trim();
+            const value = pair.slice(separatorIndex + 1).trim();
             const parsedKey = key.startsWith('"') && key.endsWith('"') ? key.slice(1, -1) : key;
             obj[parsedKey] = this.parseValue(value);
         });
@@ -155,14 +232,66 @@ export class SQONValidation {
     }
 
 
+    /**
+     * Reports a diagnostic for the current validation line.
+     * 
+     * @param {DiagnosticKind} kind - The kind of diagnostic.
+     * @param {string} message - The diagnostic message.
+     * @param {string} [token] - The text the diagnostic points at, used to compute the column.
+     */
+    report(kind: DiagnosticKind, message: string, token?: string): void {
+        const line = this.lines[this.position] ?? '';
+        const index = token ? line.indexOf(token) : -1;
+        this.errors.push(SQONDiagnostics.create(kind, {
+            line: this.position + 1,
+            column: index === -1 ? null : index + 1,
+            section: 'validations',
+            message,
+        }));
+    }
+
+    /**
+     * Splits content on a separator, ignoring separators inside quoted strings and nested brackets.
+     * 
+     * @param {string} content - The content to split.
+     * @param {string} separator - The separator character.
+     * @returns {string[]} The split parts.
+     */
+    splitOutsideQuotes(content: string, separator: string): string[] {
+        const parts: string[] = [];
+        let current = '';
+        let inQuotes = false;
+        let depth = 0;
+
+        for (let i = 0; i < content.length; i++) {
+            const char = content[i];
+
+            if (inQuotes && char === '\\') {
+                current += char + (content[i + 1] ?? '');
+                i++;
+                continue;
+            }
+            if (char === '"') inQuotes = !inQuotes;
+            if (!inQuotes && (char === '[' || char === '{')) depth++;
+            if (!inQuotes && (char === ']' || char === '}')) depth--;
+
+            if (char === separator && !inQuotes && depth === 0) {
+                parts.push(current);
+                current = '';
+            } else {
+                current += char;
+            }
+        }
+        parts.push(current);
+
+        return parts;
+    }
+
     validateRulesAgainstSchema(key: string, rules: Record<string, any>): void {
         const schemaTypeArray = this.getSchemaType(key);
     
-        if (!schemaTypeArray) {
-            this.errors.push({ 
-                line: this.position + 1, 
-                message: `Schema type not found for '${key}'`
-            });
+        if (schemaTypeArray.length === 0) {
+            this.report('UnknownSchemaField', `Schema type not found for '${key}'`, key);
             return;
         }
     
@@ -171,10 +300,7 @@ export class SQONValidation {
             const ruleValue = rules[ruleName];
     
             if (!validTypes) {
-                this.errors.push({
-                    line: this.position + 1,
-                    message: `Validation rule '${ruleName}' is not defined.`
-                });
+                this.report('UnknownRule', `Validation rule '${ruleName}' is not defined.`, ruleName);
                 return;
             }
     
@@ -183,35 +309,15 @@ export class SQONValidation {
             
 
             if (!isApplicable) {
-                this.errors.push({
-                    line: this.position + 1,
-                    message: `Validation '${ruleName}' is not applicable to types for key '${key}'`
-                });
+                this.report('RuleNotApplicable', `Validation '${ruleName}' is not applicable to types for key '${key}'`, ruleName);
             }
     
             if (ruleName === 'enum' || ruleName === 'hasProperties') {
-                const isValueValid = schemaTypeArray.some(type => {
-            
-                    if ((type === 'ObjectArray' || type === 'Object[]' || type === 'Object') && Array.isArray(ruleValue)) {
-                        const extractedValues = ruleValue.map((item: any) => item.value);
-                        return extractedValues.every(value => ruleValue.some((allowedValue: any) => allowedValue.value === value)) || ruleValue.length === 0;
-                    }
-                    if (type === 'NumberArray' || type === 'Number[]' && Array.isArray(ruleValue)) {
-                        const extractedValues = ruleValue.map((item: any) => item.value);                        return extractedValues.every((value: number[]) => ruleValue.some((allowedValue: any) => allowedValue.value === value)) || ruleValue.length === 0;
-                    }
-                    if (type === 'StringArray' || type === 'String[]' && Array.isArray(ruleValue)) {
-                        const extractedValues = ruleValue.map((item: any) => item.value);
-                        return extractedValues.every((value: string[]) => ruleValue.includes(value));
-                    }
-            
-                    return false;
-                });
+                const isValueValid = Array.isArray(ruleValue) && (ruleName === 'enum' ||
+                    ruleValue.every((item: any) => item?.type === 'String'));
             
                 if (!isValueValid) {
-                    this.errors.push({
-                        line: this.position + 1,
-                        message: `Invalid value for '${ruleName}' in '${key}'.`
-                    });
+                    this.report('InvalidRuleList', `Invalid value for '${ruleName}' in '${key}'.`, ruleName);
                 }
             }
             
@@ -236,10 +342,7 @@ export class SQONValidation {
             const validTypes = this.validationKeywords[ruleName];
     
             if (validTypes && !validTypes.includes('Object')) {
-                this.errors.push({
-                    line: this.position + 1,
-                    message: `Validation '${ruleName}' is not applicable to type 'ObjectArray' items for key '${key}'`
-                });
+                this.report('RuleNotApplicable', `Validation '${ruleName}' is not applicable to type 'ObjectArray' items for key '${key}'`, ruleName);
             }
         });
     }
@@ -260,10 +363,7 @@ export class SQONValidation {
     
                 const isValid = propTypes.some((type: any) => validTypes.includes(type) || validTypes.includes('Any'));
                 if (!isValid) {
-                    this.errors.push({
-                        line: this.position + 1,
-                        message: `Validation '${ruleName}' is not applicable to property '${parts[parts.length - 1]}' of Object for key '${key}'`
-                    });
+                    this.report('RuleNotApplicable', `Validation '${ruleName}' is not applicable to property '${parts[parts.length - 1]}' of Object for key '${key}'`, ruleName);
                 }
             }
         });
@@ -279,7 +379,7 @@ export class SQONValidation {
     
 
     getSchemaType(key: string): string[] {
-        const schema = this.parsedSchema;
+        const schema = this.isTypeKey(key) ? this.types : this.parsedSchema;
         const parts = key.split('.');
         let current = schema;
     
@@ -0,0 +1,483 @@
+import { isDeepStrictEqual } from 'util';
+import { Document } from '../types/general';
+import { QueryFilter, QueryOperators, SortSpec, TypedValue } from '../types/query';
+import { SQONDocuments } from './documents';
+
+type Comparable = { kind: 'null' | 'number' | 'decimal' | 'date' | 'string' | 'boolean' | 'bytes'; value: any };
+type ProjectionTree = Map<string, ProjectionTree>;
+
+export class SQONQuery implements Iterable<Document> {
+    private records: Document[];
+    private filter: QueryFilter;
+    private sortSpec: SortSpec;
+    private fields: string[] | null;
+    private skipCount: number;
+    private limitCount: number;
+
+    /**
+     * Constructs a query over parsed documents. Nothing is evaluated until the results are read.
+     * @param records - The documents to query.
+     * @param filter - The conditions the documents must match. Defaults to matching every document.
+     */
+    constructor(records: Document[], filter: QueryFilter = {}) {
+        this.records = records;
+        this.filter = filter;
+        this.sortSpec = {};
+        this.fields = null;
+        this.skipCount = 0;
+        this.limitCount = Infinity;
+    }
+
+    /**
+     * Orders the results. Documents are compared on each field in turn, and values of different types are ordered
+     * missing or null first, then numbers, strings, objects, arrays, binary data, booleans and dates.
+     * @param spec - The fields to sort on, with `1` for ascending and `-1` for descending order.
+     * @returns The query, for chaining.
+     */
+    sort(spec: SortSpec): this {
+        this.sortSpec = spec;
+        return this;
+    }
+
+    /**
+     * Keeps only the given fields in the results. Dot-paths keep part of a nested object, or of each object of an array.
+     * @param fields - The fields to keep.
+     * @returns The query, for chaining.
+     */
+    project(fields: string[]): this {
+        this.fields = fields;
+        return this;
+    }
+
+    /**
+     * Skips the first matching documents.
+     * @param count - The number of documents to skip.
+     * @returns The query, for chaining.
+     */
+    skip(count: number): this {
+        this.skipCount = count;
+        return this;
+    }
+
+    /**
+     * Limits the number of results.
+     * @param count - The maximum number of documents to return.
+     * @returns The query, for chaining.
+     */
+    limit(count: number): this {
+        this.limitCount = count;
+        return this;
+    }
+
+    /**
+     * Runs the query.
+     * @returns The matching documents, sorted, paginated and projected.
+     * @throws {Error} If the filter uses an unknown operator.
+     */
+    toArray(): Document[] {
+        let results = this.records.filter((record) => SQONQuery.matches(record, this.filter));
+
+        const sortFields = Object.entries(this.sortSpec);
+        if (sortFields.length > 0) {
+            results = results
+                .map((record) => ({ record, keys: sortFields.map(([path]) => SQONQuery.values(record, path)[0]) }))
+                .sort((a, b) => {
+                    for (const [index, [, direction]] of sortFields.entries()) {
+                        const order = SQONQuery.order(a.keys[index], b.keys[index]);
+                        if (order !== 0) return order * direction;
+                    }
+                    return 0;
+                })
+                .map(({ record }) => record);
+        }
+
+        results = results.slice(this.skipCount, this.skipCount + this.limitCount);
+        if (!this.fields) return results;
+
+        const tree = SQONQuery.projectionTree(this.fields);
+        return results.map((record) => ({ ...record, data: SQONQuery.projectItems(record.data, tree) }));
+    }
+
+    /**
+     * Counts the matching documents, ignoring `skip`, `limit` and the projection.
+     * @returns The number of matching documents.
+     */
+    count(): number {
+        return this.records.filter((record) => SQONQuery.matches(record, this.filter)).length;
+    }
+
+    /**
+     * Runs the query and returns its first result.
+     * @returns The first matching document, or null if none matches.
+     */
+    first(): Document | null {
+        return this.toArray()[0] ?? null;
+    }
+
+    [Symbol.iterator](): Iterator<Document> {
+        return this.toArray()[Symbol.iterator]();
+    }
+
+    /**
+     * Checks whether a document matches a filter.
+     * @param document - The parsed document.
+     * @param filter - The conditions, keyed by field path, with `$and` and `$or` to combine filters.
+     * @returns True if the document matches every condition.
+     * @throws {Error} If the filter uses an unknown operator.
+     */
+    static matches(document: Document, filter: QueryFilter): boolean {
+        return Object.entries(filter).every(([path, condition]) => {
+            if (path === '$and') return SQONQuery.filters(path, condition).every((child) => SQONQuery.matches(document, child));
+            if (path === '$or') return SQONQuery.filters(path, condition).some((child) => SQONQuery.matches(document, child));
+            if (path.startsWith('$')) throw new Error(`Unknown query operator '${path}'.`);
+
+            const values = SQONQuery.values(document, path);
+            return SQONQuery.isOperators(condition)
+                ? SQONQuery.matchOperators(values, condition)
+                : SQONQuery.matchOperators(values, { $eq: condition });
+        });
+    }
+
+    /**
+     * Finds the values of a document at a dot-path. The `@id` path is the document's ID.
+     * @param document - The parsed document.
+     * @param path - The dot-path of the field.
+     * @returns The values found, which is empty if the path does not exist.
+     */
+    static values(document: Document, path: string): TypedValue[] {
+        if (path === '@id') return document['@id'] === undefined ? [] : [{ value: document['@id'], type: 'String' }];
+        return SQONQuery.resolve({ value: document.data, type: 'Object' }, path.split('.'));
+    }
+
+    /**
+     * Checks the values of a field against a set of operators. Every operator must match.
+     * @param values - The values found at the field path.
+     * @param condition - The operators to apply.
+     * @returns True if the values match.
+     */
+    private static matchOperators(values: TypedValue[], condition: QueryOperators): boolean {
+        const candidates = SQONQuery.expand(values);
+
+        return Object.entries(condition).every(([operator, operand]) => {
+            switch (operator) {
+                case '$eq': return SQONQuery.equalsAny(values, candidates, operand);
+                case '$ne': return !SQONQuery.equalsAny(values, candidates, operand);
+                case '$gt': return candidates.some((value) => (SQONQuery.compare(value, operand) ?? 0) > 0);
+                case '$gte': return candidates.some((value) => (SQONQuery.compare(value, operand) ?? -1) >= 0);
+                case '$lt': return candidates.some((value) => (SQONQuery.compare(value, operand) ?? 0) < 0);
+                case '$lte': return candidates.some((value) => (SQONQuery.compare(value, operand) ?? 1) <= 0);
+                case '$in': return SQONQuery.operands(operator, operand).some((item) => SQONQuery.equalsAny(values, candidates, item));
+                case '$nin': return !SQONQuery.operands(operator, operand).some((item) => SQONQuery.equalsAny(values, candidates, item));
+                case '$regex': return SQONQuery.equalsAny(values, candidates, SQONQuery.regex(operand, condition.$options));
+                case '$options': return true;
+                case '$exists': return (values.length > 0) === Boolean(operand);
+                case '$not': return !SQONQuery.matchOperators(values, operand instanceof RegExp ? { $regex: operand } : operand);
+                default: throw new Error(`Unknown query operator '${operator}'.`);
+            }
+        });
+    }
+
+    /**
+     * Checks whether any value of a field equals the operand. A `null` operand also matches a missing field,
+     * and a regular expression matches string values.
+     * @param values - The values found at the field path.
+     * @param candidates - The values and, for arrays, their elements.
+     * @param operand - The value to compare with.
+     * @returns True if a value equals the operand.
+     */
+    private static equalsAny(values: TypedValue[], candidates: TypedValue[], operand: any): boolean {
+        if (operand === null) {
+            return values.length === 0 || candidates.some((value) => value.value === null || value.value === undefined);
+        }
+        if (operand instanceof RegExp) {
+            return candidates.some((value) => typeof value.value === 'string' && value.type !== 'Decimal' && operand.test(value.value));
+        }
+
+        return candidates.some((value) => {
+            const order = SQONQuery.compare(value, operand);
+            if (order !== null) return order === 0;
+            return isDeepStrictEqual(SQONDocuments.toValue(value.value, value.type), operand);
+        });
+    }
+
+    /**
+     * Compares a field value with an operand, converting the operand to the field's type where SQON allows it:
+     * an ISO string or timestamp for a `Date` field, and a number or string of digits for a `Decimal` field.
+     * @param field - The field value.
+     * @param operand - The value to compare with.
+     * @returns A negative number, zero or a positive number, or null if the values cannot be compared.
+     */
+    private static compare(field: TypedValue, operand: any): number | null {
+        const a = SQONQuery.comparable(field.value, field.type);
+        const b = SQONQuery.comparable(operand, SQONQuery.typeOf(operand), field.type);
+        return a && b ? SQONQuery.compareComparables(a, b) : null;
+    }
+
+    /**
+     * Orders two field values for sorting, first by type, then by value.
+     * @param a - The first value, or undefined if the field is missing.
+     * @param b - The second value, or undefined if the field is missing.
+     * @returns A negative number, zero or a positive number.
+     */
+    static order(a: TypedValue | undefined, b: TypedValue | undefined): number {
+        const rankDifference = SQONQuery.rank(a) - SQONQuery.rank(b);
+        if (rankDifference !== 0 || !a || !b) return rankDifference;
+
+        const left = SQONQuery.comparable(a.value, a.type);
+        const right = SQONQuery.comparable(b.value, b.type);
+        return (left && right ? SQONQuery.compareComparables(left, right) : null) ?? 0;
+    }
+
+    /**
+     * Ranks a value's type for sorting.
+     * @param value - The value, or undefined if the field is missing.
+     * @returns The rank of the type.
+     */
+    private static rank(value: TypedValue | undefined): number {
+        if (!value || value.value === null || value.value === undefined) return 0;
+        if (['Number', 'BigInt', 'Decimal'].includes(value.type)) return 1;
+        if (value.type === 'String') return 2;
+        if (value.type === 'Object') return 3;
+        if (Array.isArray(value.value)) return 4;
+        if (value.type === 'Binary' || value.type === 'Uint8Array') return 5;
+        if (value.type === 'Boolean') return 6;
+        if (value.type === 'Date') return 7;
+        return 8;
+    }
+
+    /**
+     * Converts a value into a form that can be compared with values of the same kind.
+     * @param value - The value.
+     * @param type - The SQON type of the value.
+     * @param fieldType - The type of the field the value is compared with, used to convert dates and decimals.
+     * @returns The comparable value, or null if the value cannot be ordered.
+     */
+    private static comparable(value: any, type: string, fieldType?: string): Comparable | null {
+        if (value === null || value === undefined) return { kind: 'null', value: null };
+        if (value instanceof Date) return { kind: 'date', value: value.getTime() };
+        if (fieldType === 'Date' && (typeof value === 'string' || typeof value === 'number')) {
+            const time = new Date(value).getTime();
+            return isNaN(time) ? null : { kind: 'date', value: time };
+        }
+        if (type === 'Decimal' || fieldType === 'Decimal' && (typeof value === 'number' || typeof value === 'bigint' || /^-?(\d+(\.\d*)?|\.\d+)$/.test(value))) {
+            return { kind: 'decimal', value: String(value) };
+        }
+        if (typeof value === 'number' || typeof value === 'bigint') return { kind: 'number', value };
+        if (typeof value === 'string') return { kind: 'string', value };
+        if (typeof value === 'boolean') return { kind: 'boolean', value };
+        if (value instanceof Uint8Array) return { kind: 'bytes', value: Buffer.from(value.buffer, value.byteOffset, value.byteLength) };
+        return null;
+    }
+
+    /**
+     * Compares two comparable values. Numbers, BigInts and Decimals compare with each other by value.
+     * @param a - The first value.
+     * @param b - The second value.
+     * @returns A negative number, zero or a positive number, or null if the values are of different kinds.
+     */
+    private static compareComparables(a: Comparable, b: Comparable): number | null {
+        const numeric = ['number', 'decimal'];
+        if (numeric.includes(a.kind) && numeric.includes(b.kind)) {
+            if (a.kind === 'decimal' || b.kind === 'decimal') return SQONQuery.compareDecimals(String(a.value), String(b.value));
+            if (Number.isNaN(a.value) || Number.isNaN(b.value)) return Number.isNaN(a.value) && Number.isNaN(b.value) ? 0 : null;
+            return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+        }
+
+        if (a.kind !== b.kind) return null;
+        if (a.kind === 'null') return 0;
+        if (a.kind === 'bytes') return Buffer.compare(a.value, b.value);
+        return a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+    }
+
+    /**
+     * Compares two decimal numbers exactly. Values that are not plain decimals, such as `1e21` or `NaN`,
+     * are compared as JavaScript numbers.
+     * @param a - The first number, as a string.
+     * @param b - The second number, as a string.
+     * @returns A negative number, zero or a positive number, or null if either value is `NaN`.
+     */
+    private static compareDecimals(a: string, b: string): number | null {
+        const pattern = /^(-?)(\d*)(?:\.(\d*))?$/;
+        const left = a.match(pattern);
+        const right = b.match(pattern);
+
+        if (!left || !right) {
+            const [x, y] = [Number(a), Number(b)];
+            if (Number.isNaN(x) || Number.isNaN(y)) return null;
+            return x < y ? -1 : x > y ? 1 : 0;
+        }
+
+        const scale = Math.max((left[3] ?? '').length, (right[3] ?? '').length);
+        const scaled = (match: RegExpMatchArray) => BigInt(`${match[1]}${match[2] || '0'}${(match[3] ?? '').padEnd(scale, '0')}`);
+        const [x, y] = [scaled(left), scaled(right)];
+        return x < y ? -1 : x > y ? 1 : 0;
+    }
+
+    /**
+     * Finds the values at a dot-path. A path segment that is not an index looks into every object of an array,
+     * and an index such as `0` or `_0` selects a single element.
+     * @param node - The value to start from.
+     * @param segments - The remaining path segments.
+     * @returns The values found, which is empty if the path does not exist.
+     */
+    private static resolve(node: TypedValue, segments: string[]): TypedValue[] {
+        if (segments.length === 0) return [node];
+        const [segment, ...rest] = segments;
+
+        if (node.type === 'Object') {
+            const child = Array.isArray(node.value) ? node.value.find((item) => item.key === segment) : undefined;
+            return child ? SQONQuery.resolve({ value: child.value, type: child.type }, rest) : [];
+        }
+
+        if (Array.isArray(node.value)) {
+            const elements = SQONQuery.elements(node);
+            if (/^_?\d+$/.test(segment)) {
+                const element = elements[Number(segment.replace('_', ''))];
+                return element ? SQONQuery.resolve(element, rest) : [];
+            }
+            return elements.flatMap((element) => element.type === 'Object' ? SQONQuery.resolve(element, segments) : []);
+        }
+
+        return [];
+    }
+
+    /**
+     * Adds the elements of array values to a list of values, so conditions match an array when one of its elements matches.
+     * @param values - The values found at a path.
+     * @returns The values followed by the elements of the arrays among them.
+     */
+    private static expand(values: TypedValue[]): TypedValue[] {
+        return values.flatMap((value) => value.type !== 'Object' && Array.isArray(value.value)
+            ? [value, ...SQONQuery.elements(value)]
+            : [value]);
+    }
+
+    /**
+     * Lists the elements of an array value, whether its elements are key-value pairs or plain values.
+     * @param array - The array value.
+     * @returns The typed elements.
+     */
+    static elements(array: TypedValue): TypedValue[] {
+        return (array.value as any[]).map((element) => element !== null && typeof element === 'object' && 'key' in element && 'type' in element
+            ? { value: element.value, type: element.type }
+            : { value: element, type: SQONQuery.typeOf(element) });
+    }
+
+    /**
+     * Infers the SQON type of a plain value.
+     * @param value - The value.
+     * @returns The SQON type.
+     */
+    static typeOf(value: any): string {
+        if (value === null) return 'Null';
+        if (value === undefined) return 'undefined';
+        if (typeof value === 'boolean') return 'Boolean';
+        if (typeof value === 'number') return 'Number';
+        if (typeof value === 'bigint') return 'BigInt';
+        if (typeof value === 'string') return 'String';
+        if (value instanceof Date) return 'Date';
+        if (Buffer.isBuffer(value)) return 'Binary';
+        if (value instanceof Uint8Array) return 'Uint8Array';
+        if (Array.isArray(value)) return 'Array';
+        return 'Object';
+    }
+
+    /**
+     * Checks whether a condition is a set of operators rather than a value to compare with.
+     * @param condition - The condition.
+     * @returns True if every key of the condition is an operator.
+     */
+    private static isOperators(condition: any): condition is QueryOperators {
+        if (condition === null || typeof condition !== 'object' || Array.isArray(condition)) return false;
+        if (condition instanceof Date || condition instanceof RegExp || condition instanceof Uint8Array) return false;
+
+        const keys = Object.keys(condition);
+        return keys.length > 0 && keys.every((key) => key.startsWith('$'));
+    }
+
+    /**
+     * Reads the list operand of `$in` and `$nin`.
+     * @param operator - The operator.
+     * @param operand - The operand.
+     * @returns The values of the list.
+     * @throws {Error} If the operand is not an array.
+     */
+    private static operands(operator: string, operand: any): any[] {
+        if (!Array.isArray(operand)) throw new Error(`Query operator '${operator}' expects an array.`);
+        return operand;
+    }
+
+    /**
+     * Reads the list of filters of `$and` and `$or`.
+     * @param operator - The operator.
+     * @param condition - The operand.
+     * @returns The filters.
+     * @throws {Error} If the operand is not an array.
+     */
+    private static filters(operator: string, condition: any): QueryFilter[] {
+        if (!Array.isArray(condition)) throw new Error(`Query operator '${operator}' expects an array of filters.`);
+        return condition;
+    }
+
+    /**
+     * Builds the regular expression of a `$regex` operator.
+     * @param pattern - The pattern, as a string or regular expression.
+     * @param options - The flags, used when the pattern is a string.
+     * @returns The regular expression.
+     */
+    private static regex(pattern: RegExp | string, options?: string): RegExp {
+        return pattern instanceof RegExp ? pattern : new RegExp(pattern, options);
+    }
+
+    /**
+     * Turns a list of dot-paths into a tree of the fields to keep.
+     * @param fields - The dot-paths.
+     * @returns The tree, where an empty node keeps the whole field.
+     */
+    private static projectionTree(fields: string[]): ProjectionTree {
+        const tree: ProjectionTree = new Map();
+
+        for (const field of fields) {
+            let node = tree;
+            const segments = field.split('.');
+            for (const [index, segment] of segments.entries()) {
+                const existing = node.get(segment);
+                if (existing && existing.size === 0) break;
+
+                const child: ProjectionTree = index === segments.length - 1 ? new Map() : existing ?? new Map();
+                node.set(segment, child);
+                node = child;
+            }
+        }
+
+        return tree;
+    }
+
+    /**
+     * Keeps the fields of a projection tree among key-value pairs.
+     * @param items - The key-value pairs.
+     * @param tree - The fields to keep.
+     * @returns The kept key-value pairs.
+     */
+    private static projectItems(items: any[], tree: ProjectionTree): any[] {
+        const projected: any[] = [];
+
+        for (const item of items) {
+            const subtree = tree.get(item.key);
+            if (!subtree) continue;
+            if (subtree.size === 0) {
+                projected.push(item);
+            } else if (item.type === 'Object') {
+                const children = SQONQuery.projectItems(Array.isArray(item.value) ? item.value : [], subtree);
+                projected.push({ ...item, value: children.length > 0 ? children : {} });
+            } else if (Array.isArray(item.value)) {
+                const elements = item.value
+                    .filter((element: any) => element?.type === 'Object')
+                    .map((element: any) => SQONQuery.projectItems([element], new Map([[element.key, subtree]]))[0]);
+                projected.push({ ...item, value: elements });
+            }
+        }
+
+        return projected;
+    }
+}
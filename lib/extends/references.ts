@@ -0,0 +1,211 @@
+import { Document, DocumentItem } from '../types/general';
+import { Diagnostic } from '../types/diagnostics';
+import { ReferenceField, ReferenceResolver } from '../types/references';
+import { TypedValue } from '../types/query';
+import { SQONDiagnostics } from './diagnostics';
+import { SQONQuery } from './query';
+
+export class SQONReferences {
+    private fields: ReferenceField[];
+    private resolve: ReferenceResolver;
+    private targets: Map<string, Promise<Map<number | string, Document> | null>>;
+
+    /**
+     * Constructs the reference checker of a collection.
+     * @param schema - The parsed schema of the collection, whose `Ref<target>` fields hold document numbers or IDs of other collections.
+     * @param resolve - Loads the documents of a target: a collection name, `./file.sqon`, or `./file.sqon:collection`.
+     */
+    constructor(schema: Record<string, any>, resolve: ReferenceResolver) {
+        this.fields = SQONReferences.fields(schema);
+        this.resolve = resolve;
+        this.targets = new Map();
+    }
+
+    /**
+     * Checks that every reference points at an existing document of its target.
+     * @param records - The documents of the collection.
+     * @param recordLines - The line each document starts on.
+     * @returns A diagnostic for each dangling reference, and for each target that cannot be found.
+     */
+    async check(records: Document[], recordLines: number[] = []): Promise<Diagnostic[]> {
+        const errors: Diagnostic[] = [];
+
+        for (const { path, target } of this.fields) {
+            const documents = await this.target(target);
+            if (!documents) {
+                errors.push(SQONDiagnostics.create('UnknownReferenceTarget', {
+                    line: null,
+                    section: 'schema',
+                    field: path,
+                    message: `Field ${path} references '${target}', which is not a collection or file that can be loaded.`,
+                }));
+                continue;
+            }
+
+            for (const [index, record] of records.entries()) {
+                for (const key of SQONReferences.keys(SQONQuery.values(record, path))) {
+                    if (documents.has(key)) continue;
+                    errors.push(SQONDiagnostics.create('DanglingReference', {
+                        line: recordLines[index] ?? null,
+                        section: 'records',
+                        document: record['#doc'],
+                        field: path,
+                        message: `Document #${record['#doc']}: ${path} references document ${typeof key === 'number' ? `#${key}` : `'${key}'`} of '${target}', which does not exist.`,
+                    }));
+                }
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * Finds the references a schema's documents hold to some documents of a target.
+     * @param schema - The parsed schema of the documents holding the references.
+     * @param records - The documents holding the references.
+     * @param target - The target of the referenced documents.
+     * @param matches - Tells whether a document number or ID is one of the referenced documents.
+     * @returns The document, path and key of each matching reference.
+     */
+    static referencing(schema: Record<string, any>, records: Document[], target: string, matches: (key: number | string) => boolean): Array<{ document: Document; path: string; key: number | string }> {
+        return SQONReferences.fields(schema)
+            .filter((field) => field.target === target)
+            .flatMap(({ path }) => records.flatMap((document) => SQONReferences.keys(SQONQuery.values(document, path))
+                .filter(matches)
+                .map((key) => ({ document, path, key }))));
+    }
+
+    /**
+     * Replaces references by the documents they point at, as nested objects holding the fields of those documents.
+     * References that point at no document are left as they are.
+     * @param records - The documents to populate.
+     * @param paths - The dot-paths of the `Ref` fields to populate.
+     * @returns Copies of the documents with the references replaced.
+     * @throws {Error} If a path is not a `Ref` field of the schema.
+     */
+    async populate(records: Document[], paths: string[]): Promise<Document[]> {
+        const lookups: Array<{ parts: string[]; documents: Map<number | string, Document> | null }> = [];
+        for (const path of paths) {
+            const field = this.fields.find((candidate) => candidate.path === path);
+            if (!field) throw new Error(`Cannot populate '${path}': it is not a 'Ref' field of the schema.`);
+            lookups.push({ parts: path.split('.'), documents: await this.target(field.target) });
+        }
+
+        return records.map((record) => ({
+            ...record,
+            data: lookups.reduce((items, { parts, documents }) => documents ? SQONReferences.replace(items, parts, documents) : items, record.data),
+        }));
+    }
+
+    /**
+     * Loads the documents of a target once, by document number and by `@id`.
+     * @param target - The target of a `Ref` field.
+     * @returns The documents by number and ID, or null if the target cannot be found.
+     */
+    private target(target: string): Promise<Map<number | string, Document> | null> {
+        let documents = this.targets.get(target);
+        if (!documents) {
+            documents = this.resolve(target).then((records) => records && new Map<number | string, Document>(records.flatMap((record) => record['@id'] === undefined
+                ? [[record['#doc'], record]]
+                : [[record['#doc'], record], [record['@id'], record]])));
+            this.targets.set(target, documents);
+        }
+        return documents;
+    }
+
+    /**
+     * Lists the `Ref` fields of a schema, including those of nested objects and object arrays.
+     * @param schema - The parsed schema.
+     * @param prefix - The dot-path of the parent field.
+     * @returns The path and target of each reference field.
+     */
+    static fields(schema: Record<string, any>, prefix: string = ''): ReferenceField[] {
+        const fields: ReferenceField[] = [];
+
+        for (const [key, definition] of Object.entries<Record<string, any>>(schema)) {
+            const path = `${prefix}${key}`;
+            const target = definition.ref ?? definition.items?.ref;
+
+            if (target) {
+                fields.push({ path, target });
+            } else if (definition.properties && definition.type.includes('Object')) {
+                fields.push(...SQONReferences.fields(definition.properties, `${path}.`));
+            } else if (definition.items && !Array.isArray(definition.items.type)) {
+                fields.push(...SQONReferences.fields(definition.items, `${path}.`));
+            }
+        }
+
+        return fields;
+    }
+
+    /**
+     * Extracts the document numbers and IDs held by the values of a reference field, using the elements of arrays.
+     * @param values - The values of the field.
+     * @returns The document numbers and IDs. Values that are neither, such as null, are left out.
+     */
+    private static keys(values: TypedValue[]): Array<number | string> {
+        return values
+            .flatMap((value) => value.type !== 'Object' && Array.isArray(value.value) ? SQONQuery.elements(value) : [value])
+            .map(({ value }) => value)
+            .filter((value): value is number | string => SQONReferences.isKey(value));
+    }
+
+    /**
+     * Checks whether a value can point at a document: a document number or an `@id`.
+     * @param value - The value of a reference.
+     * @returns True if the value is a non-negative integer or a string.
+     */
+    private static isKey(value: any): value is number | string {
+        return Number.isInteger(value) && value >= 0 || typeof value === 'string';
+    }
+
+    /**
+     * Replaces the references at a path of a document's items.
+     * @param items - The items of a document or nested object.
+     * @param parts - The remaining parts of the path.
+     * @param documents - The documents of the target, by number and ID.
+     * @returns A copy of the items with the references replaced.
+     */
+    private static replace(items: DocumentItem[], parts: string[], documents: Map<number | string, Document>): DocumentItem[] {
+        const [part, ...rest] = parts;
+
+        return items.map((item) => {
+            if (item.key !== part) return item;
+            if (rest.length === 0) return SQONReferences.embed(item, documents);
+            if (item.type === 'Object' && Array.isArray(item.value)) {
+                return { ...item, value: SQONReferences.replace(item.value, rest, documents) };
+            }
+            if (Array.isArray(item.value)) {
+                return {
+                    ...item,
+                    value: item.value.map((element: any) => element?.type === 'Object' && Array.isArray(element.value)
+                        ? { ...element, value: SQONReferences.replace(element.value, rest, documents) }
+                        : element),
+                };
+            }
+            return item;
+        });
+    }
+
+    /**
+     * Replaces a reference, or an array of references, by the documents it points at.
+     * @param item - The item holding the reference.
+     * @param documents - The documents of the target, by number and ID.
+     * @returns The item with the referenced documents as nested objects.
+     */
+    private static embed(item: DocumentItem, documents: Map<number | string, Document>): DocumentItem {
+        const resolve = (value: any): Document | undefined => SQONReferences.isKey(value) ? documents.get(value) : undefined;
+
+        if (!Array.isArray(item.value)) {
+            const document = resolve(item.value);
+            return document ? { key: item.key, value: document.data, type: 'Object' } : item;
+        }
+
+        const elements = item.value.map((element: any, index: number) => {
+            const isItem = element !== null && typeof element === 'object' && 'key' in element && 'type' in element;
+            const document = resolve(isItem ? element.value : element);
+            return document ? { key: isItem ? element.key : `_${index}`, value: document.data, type: 'Object' } : element;
+        });
+        return { key: item.key, value: elements, type: elements.every((element: any) => element?.type === 'Object') ? 'ObjectArray' : 'AnyArray' };
+    }
+}
@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import { Document } from '../types/general';
+import { RecordBlockText, RecordOffset } from '../types/indexes';
+import { SQONRecords } from './parseRecords';
+
+export class SQONScanner {
+    private filePath: string;
+
+    /**
+     * Constructs a scanner that locates the documents of a SQON file by byte offset.
+     * @param filePath - The path of the file.
+     */
+    constructor(filePath: string) {
+        this.filePath = filePath;
+    }
+
+    /**
+     * Streams the documents of the `@records` section with their position in the file, without parsing them.
+     * A document runs from its `#n ->` line to its last content line before the next document,
+     * so the comments and blank lines between them are not part of it.
+     * @returns The documents, in file order, with their text, first line, byte offset and byte length.
+     */
+    async *blocks(): AsyncGenerator<RecordBlockText> {
+        let inRecords = false;
+        let block: RecordBlockText | null = null;
+
+        for await (const { text, line, offset, length } of this.lines()) {
+            const trimmed = text.trim();
+
+            if (!inRecords) {
+                inRecords = trimmed === '@records';
+                continue;
+            }
+            if (trimmed === '@end') break;
+
+            if (trimmed.startsWith('#')) {
+                if (block) yield block;
+                const match = trimmed.match(/^#(\d+)/);
+                block = match ? { docNumber: parseInt(match[1], 10), line, offset, length, text: trimmed } : null;
+            } else if (block && trimmed && !trimmed.startsWith('!#')) {
+                block.text += `\n${trimmed}`;
+                block.length = offset + length - block.offset;
+            }
+        }
+
+        if (block) yield block;
+    }
+
+    /**
+     * Reads and parses documents at known positions, reading only their bytes.
+     * @param offsets - The positions of the documents.
+     * @returns The parsed documents, in the order of `offsets`. A range that no longer holds a document is skipped.
+     */
+    async read(offsets: RecordOffset[]): Promise<Document[]> {
+        const documents: Document[] = [];
+        const handle = await fs.promises.open(this.filePath, 'r');
+
+        try {
+            for (const { offset, length, line } of offsets) {
+                const buffer = Buffer.alloc(length);
+                const { bytesRead } = await handle.read(buffer, 0, length, offset);
+                const document = SQONScanner.parse(buffer.toString('utf8', 0, bytesRead), line);
+                if (document) documents.push(document);
+            }
+        } finally {
+            await handle.close();
+        }
+
+        return documents;
+    }
+
+    /**
+     * Finds the document with an ID, set in its header or, when its header sets none, taken from its primary key field.
+     * Documents are only parsed when their ID can come from the primary key.
+     * @param id - The ID written as `#n @id=... ->`, or the value of the primary key field.
+     * @param primaryKey - The field marked with the `primaryKey` validation rule, if any.
+     * @returns The document, or null if no document has that ID.
+     */
+    async find(id: string, primaryKey?: string): Promise<Document | null> {
+        for await (const block of this.blocks()) {
+            const headerId = block.text.match(/^#\d+\s+@id=([\w.:-]+)/)?.[1];
+            if (headerId !== undefined) {
+                if (headerId === id) return SQONScanner.parse(block.text, block.line);
+                continue;
+            }
+            if (primaryKey === undefined) continue;
+
+            const document = SQONScanner.parse(block.text, block.line);
+            const key = document?.data.find((item) => item.key === primaryKey);
+            if (document && key && ['string', 'number', 'bigint'].includes(typeof key.value) && String(key.value) === id) {
+                return { ...document, '@id': id };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Reads the lines before the `@records` section, which hold the sections that describe its documents.
+     * @returns The text before `@records`, or the whole file if it has no such section.
+     */
+    async header(): Promise<string> {
+        const lines: string[] = [];
+        for await (const { text } of this.lines()) {
+            if (text.trim() === '@records') break;
+            lines.push(text);
+        }
+        return lines.join('\n');
+    }
+
+    /**
+     * Parses the text of a single document.
+     * @param text - The `#n ->` line and its continuation lines.
+     * @param line - The line the document starts on.
+     * @returns The parsed document, or null if the text is not a document.
+     */
+    static parse(text: string, line: number = 1): Document | null {
+        const parser = new SQONRecords([]);
+        text.split('\n').forEach((source, index) => {
+            const trimmed = source.trim();
+            if (trimmed) parser.pushLine(trimmed, line + index);
+        });
+        return parser.flush().records[0] ?? null;
+    }
+
+    /**
+     * Streams the lines of the file, keeping track of their byte offsets.
+     * @returns The lines, without their line endings, with their line number, byte offset and byte length including the line ending.
+     */
+    private async *lines(): AsyncGenerator<{ text: string; line: number; offset: number; length: number }> {
+        let pending = Buffer.alloc(0);
+        let offset = 0;
+        let line = 0;
+
+        for await (const chunk of fs.createReadStream(this.filePath) as AsyncIterable<Buffer>) {
+            const data = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+            let start = 0;
+
+            for (let newline = data.indexOf(0x0a); newline !== -1; newline = data.indexOf(0x0a, start)) {
+                const length = newline + 1 - start;
+                yield { text: data.toString('utf8', start, newline).replace(/\r$/, ''), line: ++line, offset, length };
+                offset += length;
+                start = newline + 1;
+            }
+
+            pending = data.subarray(start);
+        }
+
+        if (pending.length > 0) {
+            yield { text: pending.toString('utf8').replace(/\r$/, ''), line: ++line, offset, length: pending.length };
+        }
+    }
+}
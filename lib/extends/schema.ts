@@ -1,220 +1,447 @@
+import { SQONDiagnostics, DiagnosticKind } from './diagnostics';
+import { Diagnostic, DiagnosticSection } from '../types/diagnostics';
+
+type TypeDeclaration = { position: number; kind: 'object' | 'alias'; parents: string[] };
+
 export class SQONSchema {
     lines: string[];
     position: number;
     parsedSchema: Record<string, any>;
-    errors: Array<{ line: number; message: string }>;
+    errors: Diagnostic[];
     allowedTypes: string[];
+    types: Record<string, any>;
+    private declarations: Map<string, TypeDeclaration>;
+    private resolving: string[];
+    private section: DiagnosticSection;
 
     /**
      * Constructs a new SQONSchema instance.
-     * 
+     *
      * @param {Object} params - Parameters to initialize the SQONSchema instance.
      * @param {string[]} params.lines - The schema lines to be parsed.
      * @param {number} [params.position=0] - The starting position of the schema.
      * @param {string[]} [params.allowedTypes=[]] - List of allowed types in the schema.
+     * @param {Record<string, any>} [params.types={}] - The named types declared in the `@types` section, already resolved.
      */
-    constructor({ lines, position = 0, allowedTypes = [] }: { 
-        lines: string[]; 
-        position?: number; 
-        allowedTypes?: string[]; 
+    constructor({ lines, position = 0, allowedTypes = [], types = {} }: {
+        lines: string[];
+        position?: number;
+        allowedTypes?: string[];
+        types?: Record<string, any>;
     }) {
         this.lines = lines;
         this.position = position;
         this.parsedSchema = {};
         this.errors = [];
-        this.allowedTypes = allowedTypes
+        this.allowedTypes = allowedTypes;
+        this.types = { ...types };
+        this.declarations = new Map();
+        this.resolving = [];
+        this.section = 'schema';
     }
 
     /**
      * Parses the schema defined in `lines` and returns the parsed schema and any errors encountered.
-     * 
+     * References to named types are replaced by their definitions.
+     *
      * @returns {Record<string, any>} An object containing the parsed schema, errors, lines, and current position.
      */
     parseSchema(): Record<string, any> {
+        this.parsedSchema = this.parseFields('@end');
+        return { parsedSchema: this.parsedSchema, errors: this.errors, lines: this.lines, position: this.position };
+    }
+
+    /**
+     * Parses the `@types` section, which declares named types that schema fields can reference:
+     * `Address { ... }` for an object type, and `Id -> String | Number` for an alias of other types.
+     * An object type can build on others with `Admin extends User with Audit { ... }`.
+     * Types can reference each other in any order, and circular references are reported.
+     *
+     * @returns {Record<string, any>} An object containing the resolved types, errors, lines, and current position.
+     */
+    parseTypes(): Record<string, any> {
+        this.section = 'types';
+        this.collectDeclarations();
+        const end = this.position;
+
+        for (const name of this.declarations.keys()) {
+            this.resolveType(name);
+        }
+
+        this.position = end;
+        return { types: this.types, errors: this.errors, lines: this.lines, position: this.position };
+    }
+
+    /**
+     * Parses the types defined in the schema for a given value.
+     *
+     * @param {string} value - The value to extract types from.
+     * @returns {string[]} An array of types.
+     */
+    parseSubTypes(value: string): string[] {
+        return value
+            .split("|")
+            .map((v) => v.trim())
+            .map((v) => v.replace(/[\s\{\}]+$/, ""))
+            .filter((v) => v);
+    }
+
+    /**
+     * Parses field lines until the closing line of the current block: `@end` for the schema, `}` for a nested block.
+     * Nested `Object { ... }` and `ObjectArray { ... }` blocks are parsed recursively.
+     *
+     * @param {string} closing - The line that closes the block.
+     * @returns {Record<string, any>} The parsed fields. `position` is left on the closing line.
+     */
+    private parseFields(closing: string): Record<string, any> {
+        const fields: Record<string, any> = {};
+
         while (this.position < this.lines.length) {
             const line = this.lines[this.position].trim();
 
-            if (line.startsWith('!#')) {
-                this.position++;
-                continue;
-            }
-
-            if (line === "@end") {
+            if (line === closing) break;
+            if (line === '@end') {
+                this.report('UnclosedSchemaBlock', `Missing '}' before '@end'.`, 1);
+                this.position--;
                 break;
             }
 
-            this.processLine(line);
+            if (line && !line.startsWith('!#') && line.includes('->')) {
+                const key = line.slice(0, line.indexOf('->')).trim();
+                const definition = this.parseField(line);
+                if (definition) fields[key] = definition;
+            }
             this.position++;
         }
 
-        return { parsedSchema: this.parsedSchema, errors: this.errors, lines: this.lines, position: this.position };
+        return fields;
     }
 
     /**
-     * Processes each line of the schema and updates the parsedSchema and errors accordingly.
-     * 
-     * @param {string} line - The line of schema to process.
+     * Parses a single field line, and the nested block it opens, if any.
+     *
+     * @param {string} line - The trimmed field line.
+     * @returns {Record<string, any> | null} The field definition, or null if the field is invalid.
      */
-    processLine(line: string): void {
-        if (!line || line.startsWith('!#')) {
-            return;
+    private parseField(line: string): Record<string, any> | null {
+        const arrow = line.indexOf('->');
+        const key = line.slice(0, arrow).trim();
+        const value = line.slice(arrow + 2).trim();
+        const types = this.parseSubTypes(value);
+        const opensBlock = value.endsWith('{');
+
+        if (
+            (types.includes("Object") || types.includes("ObjectArray") || types.includes("Object[]")) &&
+            types.some((type) => type !== "Object" && type !== "ObjectArray" && type !== "Object[]")
+        ) {
+            this.report('InvalidTypeCombination', `Invalid combination: ${types.join(", ")} for key: ${key}. Only 'Object' or 'ObjectArray' can be used with each other, but no other types.`, line.indexOf(value) + 1);
+            if (opensBlock) this.skipBlock();
+            return null;
         }
 
-        if (line.includes("->")) {
-            let [key, value] = line.split("->").map((s) => s.trim());
-            const types = this.parseSubTypes(value);
+        if (value.startsWith("Object {")) {
+            this.position++;
+            return { type: ["Object"], properties: this.parseFields('}') };
+        }
+        if (value.startsWith("ObjectArray {") || value.startsWith("Object[] {")) {
+            this.position++;
+            return { type: ["ObjectArray"], items: this.parseFields('}') };
+        }
 
-            if (
-                (types.includes("Object") || types.includes("ObjectArray") || types.includes("Object[]")) &&
-                types.some((type) => type !== "Object" && type !== "ObjectArray" && type !== "Object[]")
-            ) {
-                this.errors.push({
-                    line: this.position + 1,
-                    message: `Invalid combination: ${types.join(", ")} for key: ${key}. Only 'Object' or 'ObjectArray' can be used with each other, but no other types.`,
-                });
-                return;
+        const definition = this.resolveTypes(types, key, line);
+        if (opensBlock) this.skipBlock();
+        return definition;
+    }
+
+    /**
+     * Resolves the types of a field: built-in types are kept, and named types, or `Name[]` for an array of them, are replaced by their definitions.
+     * An object type must be the field's only type, the same as `Object`.
+     * `Ref<target>` references a document of another collection, and `Ref<target>[]` is an array of references, which must be the field's only type.
+     *
+     * @param {string[]} types - The types of the field.
+     * @param {string} key - The field name, for error messages.
+     * @param {string} line - The trimmed field line, for error columns.
+     * @returns {Record<string, any> | null} The field definition, or null if a type is unknown or combined with an object type.
+     */
+    private resolveTypes(types: string[], key: string, line: string): Record<string, any> | null {
+        const resolved: string[] = [];
+        let structured: Record<string, any> | null = null;
+        let ref: string | null = null;
+        const invalidTypes: string[] = [];
+
+        for (const name of types) {
+            if (this.allowedTypes.includes(name)) {
+                resolved.push(name);
+                continue;
             }
 
-            if (value.startsWith("Object {")) {
-                this.parsedSchema[key] = {
-                    type: ["Object"],
-                    properties: this.parseInlineNestedObject(),
-                };
-            } else if (value.startsWith("ObjectArray {") || value.startsWith("Object[] {")) {
-                this.parsedSchema[key] = {
-                    type: ["ObjectArray"],
-                    items: this.parseInlineNestedArray(),
-                };
-            } else {
-                const invalidTypes = types.filter((type) => !this.allowedTypes.includes(type));
-                if (invalidTypes.length > 0) {
-                    this.errors.push({
-                        line: this.position + 1,
-                        message: `Invalid types: ${invalidTypes.join(", ")} for key: ${key}`,
-                    });
-                    return;
+            const reference = name.match(/^Ref<\s*([^<>\s]+)\s*>(\[\])?$/);
+            if (reference) {
+                if ((reference[2] && types.length > 1) || (ref !== null && ref !== reference[1])) {
+                    this.report('InvalidTypeCombination', `Invalid combination: ${types.join(", ")} for key: ${key}. A field can only reference one target, and an array of references cannot be combined with other types.`, line.indexOf(name, line.indexOf("->")) + 1);
+                    return null;
+                }
+                if (reference[2]) {
+                    structured = { type: ['Array'], items: { type: ['Ref'], ref: reference[1] } };
+                } else {
+                    resolved.push('Ref');
+                    ref = reference[1];
                 }
+                continue;
+            }
+
+            const isArray = name.endsWith('[]');
+            const definition = this.resolveType(isArray ? name.slice(0, -2) : name);
+            if (!definition) {
+                invalidTypes.push(name);
+                continue;
+            }
 
-                this.parsedSchema[key] = { type: types };
+            const fieldDefinition = isArray ? this.arrayOf(definition) : definition;
+            if (fieldDefinition.properties || fieldDefinition.items) {
+                if (types.length > 1) {
+                    this.report('InvalidTypeCombination', `Invalid combination: ${types.join(", ")} for key: ${key}. The object type '${name}' cannot be combined with other types.`, line.indexOf(name, line.indexOf("->")) + 1);
+                    return null;
+                }
+                structured = fieldDefinition;
+            } else {
+                resolved.push(...fieldDefinition.type);
             }
         }
+
+        if (invalidTypes.length > 0) {
+            this.report('InvalidType', `Invalid types: ${invalidTypes.join(", ")} for key: ${key}`, line.indexOf(invalidTypes[0], line.indexOf("->")) + 1);
+            return null;
+        }
+
+        if (structured) return structured;
+        return ref !== null ? { type: [...new Set(resolved)], ref } : { type: [...new Set(resolved)] };
     }
 
     /**
-     * Parses a nested array schema defined inline within the schema.
-     * 
-     * @returns {Record<string, any>} The parsed nested array schema.
+     * Builds the definition of an array of a type.
+     *
+     * @param {Record<string, any>} definition - The definition of the elements.
+     * @returns {Record<string, any>} An `ObjectArray` for an object type, the built-in array type of a single type such as `String[]`,
+     * or an `Array` whose items have the type's definition.
      */
-    parseInlineNestedArray(): Record<string, any> {
-        const arraySchema: Record<string, any> = {};
-        this.position++;
+    private arrayOf(definition: Record<string, any>): Record<string, any> {
+        if (definition.properties && definition.type.includes('Object')) {
+            return { type: ['ObjectArray'], items: definition.properties, typeName: definition.typeName };
+        }
+        if (definition.type.length === 1 && this.allowedTypes.includes(`${definition.type[0]}[]`)) {
+            return { type: [`${definition.type[0]}[]`] };
+        }
+        return { type: ['Array'], items: definition };
+    }
 
-        while (this.position < this.lines.length) {
-            const line = this.lines[this.position].trim();
-            
-            if (line.startsWith('!#')) {
-                this.position++;
+    /**
+     * Resolves a named type, parsing its declaration the first time it is used.
+     * A type that is reached again while it is being resolved forms a cycle, which is reported and resolved as `Any`.
+     *
+     * @param {string} name - The type name.
+     * @returns {Record<string, any> | undefined} The type's definition, or undefined if no such type is declared.
+     */
+    private resolveType(name: string): Record<string, any> | undefined {
+        if (Object.hasOwn(this.types, name)) return this.types[name];
+
+        const declaration = this.declarations.get(name);
+        if (!declaration) return undefined;
+
+        if (this.resolving.includes(name)) {
+            const cycle = [...this.resolving.slice(this.resolving.indexOf(name)), name];
+            this.report('CircularTypeReference', `Circular type reference: ${cycle.join(' -> ')}`, this.lines[this.position].trim().indexOf(name) + 1);
+            return { type: ['Any'] };
+        }
+
+        const position = this.position;
+        this.resolving.push(name);
+        this.position = declaration.position;
+
+        const line = this.lines[this.position].trim();
+        let definition: Record<string, any>;
+        if (declaration.kind === 'object') {
+            const inherited = this.inherit(name, declaration.parents);
+            this.position++;
+            const properties = this.override(name, inherited, this.parseFields('}'), declaration.position);
+            definition = { type: ['Object'], properties, typeName: name };
+            if (declaration.parents.length > 0) definition.bases = declaration.parents;
+        } else {
+            definition = this.resolveTypes(this.parseSubTypes(line.slice(line.indexOf('->') + 2)), name, line) ?? { type: ['Any'] };
+        }
+
+        this.resolving.pop();
+        this.position = position;
+        this.types[name] = definition;
+        return definition;
+    }
+
+    /**
+     * Merges the fields of the types an object type extends and mixes in, in the order they are listed.
+     * A field declared by several of them with different definitions is reported, and the first definition is kept.
+     *
+     * @param {string} name - The type being declared.
+     * @param {string[]} parents - The base type followed by the mixins.
+     * @returns {Record<string, any>} The inherited fields.
+     */
+    private inherit(name: string, parents: string[]): Record<string, any> {
+        const properties: Record<string, any> = {};
+        const origins: Record<string, string> = {};
+        const line = this.lines[this.position].trim();
+
+        for (const parent of parents) {
+            const isCycle = this.resolving.includes(parent);
+            const definition = this.resolveType(parent);
+            const column = line.indexOf(parent, name.length) + 1;
+
+            if (!definition) {
+                this.report('InvalidType', `Invalid types: ${parent} for type: ${name}`, column);
+                continue;
+            }
+            if (!definition.properties || definition.type[0] !== 'Object') {
+                if (!isCycle) this.report('InvalidTypeDeclaration', `Type '${name}' can only extend or mix in object types, but '${parent}' is not one.`, column);
                 continue;
             }
-            
-            if (line === "}") break;
-
-            if (line.includes("->")) {
-                let [nestedKey, nestedValue] = line.split("->").map((s) => s.trim());
-                const types = this.parseSubTypes(nestedValue);
-
-                const invalidTypes = types.filter((type) => !this.allowedTypes.includes(type));
-                if (invalidTypes.length > 0) {
-                    this.errors.push({
-                        line: this.position + 1,
-                        message: `Invalid types: ${invalidTypes.join(", ")} for key: ${nestedKey}`,
-                    });
-                    return arraySchema;
-                }
 
-                if (nestedValue.startsWith("Object {")) {
-                    arraySchema[nestedKey] = {
-                        type: ["Object"],
-                        properties: this.parseInlineNestedObject(),
-                    };
-                } else if (nestedValue.startsWith("ObjectArray {") || nestedValue.startsWith("Object[] {")) {
-                    arraySchema[nestedKey] = {
-                        type: ["ObjectArray"],
-                        items: this.parseInlineNestedArray(),
-                    };
-                } else {
-                    arraySchema[nestedKey] = { type: types };
+            for (const [field, fieldDefinition] of Object.entries<Record<string, any>>(definition.properties)) {
+                if (!Object.hasOwn(properties, field)) {
+                    properties[field] = fieldDefinition;
+                    origins[field] = parent;
+                } else if (!SQONSchema.sameDefinition(properties[field], fieldDefinition)) {
+                    this.report('TypeConflict', `Field '${field}' of type '${name}' is declared as ${SQONSchema.describe(properties[field])} by '${origins[field]}' and as ${SQONSchema.describe(fieldDefinition)} by '${parent}'.`, column);
                 }
             }
-            this.position++;
         }
 
-        return arraySchema;
+        return properties;
+    }
+
+    /**
+     * Applies the fields declared by an object type over the fields it inherits. Declared fields always win,
+     * and an override that is not a narrowing of the inherited field, such as `String` for `String | Number`, is reported.
+     *
+     * @param {string} name - The type being declared.
+     * @param {Record<string, any>} inherited - The inherited fields.
+     * @param {Record<string, any>} declared - The fields declared in the type's body.
+     * @param {number} position - The position of the type's declaration, where conflicts are reported.
+     * @returns {Record<string, any>} The fields of the type.
+     */
+    private override(name: string, inherited: Record<string, any>, declared: Record<string, any>, position: number): Record<string, any> {
+        const properties = { ...inherited };
+        const end = this.position;
+        this.position = position;
+
+        for (const [field, definition] of Object.entries(declared)) {
+            const base = inherited[field];
+            if (base && !SQONSchema.narrows(definition, base)) {
+                this.report('TypeConflict', `Field '${field}' of type '${name}' overrides ${SQONSchema.describe(base)} with the incompatible ${SQONSchema.describe(definition)}.`, 1);
+            }
+            properties[field] = definition;
+        }
+
+        this.position = end;
+        return properties;
     }
 
     /**
-     * Parses a nested object schema defined inline within the schema.
-     * 
-     * @returns {Record<string, any>} The parsed nested object schema.
+     * Checks whether two field definitions have the same shape, whatever the names of the types they come from.
+     *
+     * @param {Record<string, any>} a - A field definition.
+     * @param {Record<string, any>} b - Another field definition.
+     * @returns {boolean} True if both accept the same values.
      */
-    parseInlineNestedObject(): Record<string, any> {
-        const nestedObject: Record<string, any> = {};
-        this.position++;
+    private static sameDefinition(a: Record<string, any>, b: Record<string, any>): boolean {
+        const shape = (key: string, value: any) => key === 'typeName' || key === 'bases' ? undefined : value;
+        return JSON.stringify(a, shape) === JSON.stringify(b, shape);
+    }
 
+    /**
+     * Checks whether an overriding field only accepts values the inherited field accepts.
+     *
+     * @param {Record<string, any>} definition - The overriding field.
+     * @param {Record<string, any>} base - The inherited field.
+     * @returns {boolean} True if the override narrows the inherited field.
+     */
+    private static narrows(definition: Record<string, any>, base: Record<string, any>): boolean {
+        if (base.type.includes('Any') && !base.properties && !base.items) return true;
+        if (definition.properties || definition.items || base.properties || base.items) {
+            return SQONSchema.sameDefinition(definition, base);
+        }
+        return definition.type.every((type: string) => base.type.includes(type));
+    }
+
+    /**
+     * Describes a field definition for error messages.
+     *
+     * @param {Record<string, any>} definition - The field definition.
+     * @returns {string} The type name of an object field, or its types.
+     */
+    private static describe(definition: Record<string, any>): string {
+        return `'${definition.typeName ?? definition.type.join(' | ')}'`;
+    }
+
+    /**
+     * Finds the type declarations of the `@types` section without parsing them, so types can reference types declared after them.
+     * Leaves `position` on the `@end` line of the section.
+     */
+    private collectDeclarations(): void {
         while (this.position < this.lines.length) {
             const line = this.lines[this.position].trim();
-            
-            if (line.startsWith('!#')) {
-                this.position++;
-                continue;
-            }
-            
-            if (line === "}") break;
-
-            if (line.includes("->")) {
-                let [nestedKey, nestedValue] = line.split("->").map((s) => s.trim());
-                const types = this.parseSubTypes(nestedValue);
-
-                const invalidTypes = types.filter((type) => !this.allowedTypes.includes(type));
-                if (invalidTypes.length > 0) {
-                    this.errors.push({
-                        line: this.position + 1,
-                        message: `Invalid types: ${invalidTypes.join(", ")} for key: ${nestedKey}`,
-                    });
-                    return nestedObject;
-                }
+            if (line === '@end') break;
+
+            if (line && !line.startsWith('!#')) {
+                const match = line.match(/^([A-Za-z_]\w*)(?:\s+extends\s+([A-Za-z_]\w*))?(?:\s+with\s+([A-Za-z_]\w*(?:\s*,\s*[A-Za-z_]\w*)*))?\s*(\{|->)/);
+                const name = match?.[1];
+                const parents = [match?.[2], ...(match?.[3]?.split(',') ?? [])].filter((parent): parent is string => Boolean(parent)).map((parent) => parent.trim());
 
-                if (nestedValue.startsWith("Object {")) {
-                    nestedObject[nestedKey] = {
-                        type: ["Object"],
-                        properties: this.parseInlineNestedObject(),
-                    };
-                } else if (nestedValue.startsWith("ObjectArray {") || nestedValue.startsWith("Object[] {")) {
-                    nestedObject[nestedKey] = {
-                        type: ["ObjectArray"],
-                        items: this.parseInlineNestedArray(),
-                    };
+                if (!match || (match[4] === '->' && parents.length > 0)) {
+                    this.report('InvalidTypeDeclaration', `Invalid type declaration: '${line}'. Expected 'Name { ... }', 'Name extends Base with Mixin { ... }' or 'Name -> Type'.`, 1);
+                } else if (this.allowedTypes.includes(name!)) {
+                    this.report('InvalidTypeDeclaration', `Type '${name}' is a built-in type and cannot be redeclared.`, 1);
+                } else if (this.declarations.has(name!) || Object.hasOwn(this.types, name!)) {
+                    this.report('DuplicateType', `Type '${name}' is already declared.`, 1);
                 } else {
-                    nestedObject[nestedKey] = { type: types };
+                    this.declarations.set(name!, { position: this.position, kind: match[4] === '{' ? 'object' : 'alias', parents });
                 }
+
+                if (match?.[4] === '{' || line.endsWith('{')) this.skipBlock();
             }
             this.position++;
         }
+    }
 
-        return nestedObject;
+    /**
+     * Moves past a nested block without parsing it. Leaves `position` on its closing `}`, or before `@end` if it is not closed.
+     */
+    private skipBlock(): void {
+        let depth = 1;
+        while (++this.position < this.lines.length) {
+            const line = this.lines[this.position].trim();
+            if (line === '@end') {
+                this.report('UnclosedSchemaBlock', `Missing '}' before '@end'.`, 1);
+                this.position--;
+                return;
+            }
+            if (line.startsWith('!#')) continue;
+            if (line.endsWith('{')) depth++;
+            if (line === '}' && --depth === 0) return;
+        }
     }
 
     /**
-     * Parses the types defined in the schema for a given value.
-     * 
-     * @param {string} value - The value to extract types from.
-     * @returns {string[]} An array of types.
+     * Reports an error on the current line, unless it was already reported, as a type's body is read twice.
+     *
+     * @param {DiagnosticKind} kind - The kind of error.
+     * @param {string} message - The error message.
+     * @param {number} column - The 1-based column in the trimmed line.
      */
-    parseSubTypes(value: string): string[] {
-        return value
-            .split("|")
-            .map((v) => v.trim())
-            .map((v) => v.replace(/[\s\{\}]+$/, ""))
-            .filter((v) => v);
+    private report(kind: DiagnosticKind, message: string, column: number): void {
+        if (this.errors.some((error) => error.line === this.position + 1 && error.message === message)) return;
+        this.errors.push(SQONDiagnostics.create(kind, {
+            line: this.position + 1,
+            column,
+            section: this.section,
+            message,
+        }));
     }
-}
\ No newline at end of file
+}
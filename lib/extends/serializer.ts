@@ -0,0 +1,398 @@
+import { isDeepStrictEqual } from 'util';
+import { BinaryEncoding, Document, StringifyCollection, StringifyInput, StringifyOptions } from '../types/general';
+import { TypeValidations } from '../types/imports';
+import { SQONLiterals } from './literals';
+import { SQONDocuments } from './documents';
+import { SQONValidation } from './parseValidation';
+
+export class SQONSerializer {
+    private indent: string;
+    private lineEnding: string;
+    private binaryEncoding: BinaryEncoding;
+
+    /**
+     * Constructs a new SQONSerializer instance.
+     *
+     * @param {StringifyOptions} [options] - Formatting options for the generated SQON text.
+     * @param {number} [options.indent=2] - Number of spaces used to indent nested schema blocks.
+     * @param {string} [options.lineEnding='\n'] - Line ending used between lines.
+     * @param {BinaryEncoding} [options.binaryEncoding='bytes'] - How `Binary` values are written: `<Buffer ...>`, `base64:` or `hex:`.
+     */
+    constructor({ indent = 2, lineEnding = '\n', binaryEncoding = 'bytes' }: StringifyOptions = {}) {
+        this.indent = ' '.repeat(indent);
+        this.lineEnding = lineEnding;
+        this.binaryEncoding = binaryEncoding;
+    }
+
+    /**
+     * Serializes a parsed result, or schema, validations and plain objects, into SQON text.
+     * Named collections are written after the default one, which is left out when it is empty and there are collections.
+     * Named types are written in a `@types` section, and the fields and validations that come from them refer to them by name.
+     *
+     * @param {StringifyInput} input - The file rules, named types, schema, validations, records and collections to serialize.
+     * @returns {string} The SQON text.
+     */
+    stringify(input: StringifyInput): string {
+        const sections: string[][] = [];
+        const collections = Object.entries(input.collections ?? {});
+        const types = input.types ?? {};
+        const written: Array<[StringifyCollection, string]> = collections.map(([name, collection]) => [collection, ` ${name}`]);
+        if (collections.length === 0 || Object.keys(input.schema ?? {}).length > 0 || (input.records ?? []).length > 0) {
+            written.unshift([input, '']);
+        }
+
+        sections.push([`*STRICT=${input.fileRules?.Strict ? 'TRUE' : 'FALSE'}`]);
+        if (Object.keys(types).length > 0) {
+            sections.push(['@types', ...this.formatTypes(types), '@end']);
+        }
+        for (const [index, [collection, suffix]] of written.entries()) {
+            sections.push(...this.formatCollection(collection, suffix, types, input.typeValidations ?? {}, index === 0));
+        }
+
+        return sections.map((lines) => lines.join(this.lineEnding)).join(this.lineEnding + this.lineEnding) + this.lineEnding;
+    }
+
+    /**
+     * Formats the `@schema`, `@validations` and `@records` sections of a collection.
+     * The rules a field inherits from its named type are left out, since the type's own rules give them back.
+     *
+     * @param {StringifyCollection} collection - The schema, validations and records of the collection.
+     * @param {string} suffix - The collection name after the section tags, with its leading space, or an empty string for the default collection.
+     * @param {Record<string, any>} types - The named types written in the `@types` section.
+     * @param {TypeValidations} typeValidations - The rules written for the fields of named types.
+     * @param {boolean} withTypeValidations - Whether to write the rules of named types, which belong to the first collection written.
+     * @returns {string[][]} The lines of each section.
+     */
+    private formatCollection(collection: StringifyCollection, suffix: string, types: Record<string, any>, typeValidations: TypeValidations, withTypeValidations: boolean): string[][] {
+        const sections: string[][] = [];
+        const schema = collection.schema ?? {};
+        sections.push([`@schema${suffix}`, ...this.formatSchema(schema, 1, types), '@end']);
+
+        const inherited = Object.keys(typeValidations).length > 0
+            ? new SQONValidation({ lines: [], parsedSchema: schema, types, typeValidations, validationKeywords: {} }).parseValidation().validations
+            : {};
+        const validationLines = [
+            ...(withTypeValidations ? this.formatTypeValidations(typeValidations) : []),
+            ...this.formatValidations(this.ownValidations(collection.validations ?? {}, inherited), []),
+        ];
+        if (validationLines.length > 0) {
+            sections.push([`@validations${suffix}`, ...validationLines, '@end']);
+        }
+
+        const primaryKey = Object.keys(collection.validations ?? {}).find((field) => collection.validations?.[field]?.rules?.primaryKey === true);
+        const records = (collection.records ?? []).map((record, index) => this.formatRecord(record, index, collection.schema ?? {}, primaryKey));
+        sections.push([`@records${suffix}`, ...records, '@end']);
+        return sections;
+    }
+
+    /**
+     * Serializes a single record line.
+     *
+     * @param {Document | Record<string, any>} record - A parsed document or a plain object.
+     * @param {number} docNumber - The document number to write.
+     * @param {Record<string, any>} [schema] - The schema used to type the values of plain objects.
+     * @returns {string} The record line.
+     */
+    stringifyRecord(record: Document | Record<string, any>, docNumber: number, schema: Record<string, any> = {}): string {
+        return this.formatRecord(record, docNumber, schema);
+    }
+
+    /**
+     * Serializes schema fields into the lines of a `@schema` section, without the section tags.
+     *
+     * @param {Record<string, any>} schema - The parsed schema.
+     * @returns {string} The schema lines.
+     */
+    stringifySchema(schema: Record<string, any>): string {
+        return this.formatSchema(schema, 1).join(this.lineEnding);
+    }
+
+    /**
+     * Serializes validations into the lines of a `@validations` section, without the section tags.
+     *
+     * @param {Record<string, any>} validations - The parsed validations.
+     * @returns {string} The validation lines, or an empty string if there are no rules.
+     */
+    stringifyValidations(validations: Record<string, any>): string {
+        return this.formatValidations(validations, []).join(this.lineEnding);
+    }
+
+    /**
+     * Formats the schema fields, expanding nested `Object { ... }` and `ObjectArray { ... }` blocks.
+     * Fields whose definition comes from a named type are written with the type's name, as `Name` or `Name[]`.
+     *
+     * @param {Record<string, any>} schema - The schema fields to format.
+     * @param {number} depth - The nesting depth, used for indentation.
+     * @param {Record<string, any>} [types={}] - The named types written in the `@types` section.
+     * @returns {string[]} The schema lines.
+     */
+    private formatSchema(schema: Record<string, any>, depth: number, types: Record<string, any> = {}): string[] {
+        const lines: string[] = [];
+        const padding = this.indent.repeat(depth - 1);
+
+        for (const [key, definition] of Object.entries(schema)) {
+            const fieldTypes: string[] = definition.type ?? [];
+
+            if (this.typeName(definition, types)) {
+                lines.push(`${padding}${key} -> ${this.typeName(definition, types)}`);
+            } else if (definition.properties && fieldTypes.includes('Object')) {
+                lines.push(`${padding}${key} -> Object {`, ...this.formatSchema(definition.properties, depth + 1, types), `${padding}}`);
+            } else if (definition.items && (fieldTypes.includes('ObjectArray') || fieldTypes.includes('Object[]'))) {
+                lines.push(`${padding}${key} -> ObjectArray {`, ...this.formatSchema(definition.items, depth + 1, types), `${padding}}`);
+            } else {
+                lines.push(`${padding}${key} -> ${this.formatType(definition)}`);
+            }
+        }
+
+        return lines;
+    }
+
+    /**
+     * Formats the declarations of a `@types` section: `Name { ... }` for object types, with the base type and mixins
+     * they extend and only the fields they declare themselves, and `Name -> Type` for aliases.
+     *
+     * @param {Record<string, any>} types - The resolved named types.
+     * @returns {string[]} The type lines.
+     */
+    private formatTypes(types: Record<string, any>): string[] {
+        const lines: string[] = [];
+
+        for (const [name, definition] of Object.entries(types)) {
+            if (definition.typeName !== name || !definition.properties) {
+                lines.push(`${name} -> ${this.typeName(definition, types) ?? this.formatType(definition)}`);
+                continue;
+            }
+
+            const [base, ...mixins] = definition.bases ?? [];
+            const inherited: Record<string, any> = {};
+            for (const parent of definition.bases ?? []) {
+                for (const [field, parentField] of Object.entries(types[parent]?.properties ?? {})) {
+                    if (!Object.hasOwn(inherited, field)) inherited[field] = parentField;
+                }
+            }
+            const fields = Object.fromEntries(Object.entries(definition.properties).filter(([field, fieldDefinition]) => {
+                return !Object.hasOwn(inherited, field) || !isDeepStrictEqual(inherited[field], fieldDefinition);
+            }));
+
+            lines.push(`${name}${base ? ` extends ${base}` : ''}${mixins.length > 0 ? ` with ${mixins.join(', ')}` : ''} {`, ...this.formatSchema(fields, 2, types), '}');
+        }
+
+        return lines;
+    }
+
+    /**
+     * Finds the name a field definition is written with when it comes from a named object type.
+     *
+     * @param {Record<string, any>} definition - The field definition.
+     * @param {Record<string, any>} types - The named types written in the `@types` section.
+     * @returns {string | undefined} `Name` or `Name[]`, or undefined if the definition does not come from a written type.
+     */
+    private typeName(definition: Record<string, any>, types: Record<string, any>): string | undefined {
+        if (!definition.typeName || !Object.hasOwn(types, definition.typeName)) return undefined;
+        return definition.type?.includes('ObjectArray') ? `${definition.typeName}[]` : definition.typeName;
+    }
+
+    /**
+     * Formats the types of a field that has no nested block, such as `String | Number` or `Ref<users>[]`.
+     *
+     * @param {Record<string, any>} definition - The field definition.
+     * @returns {string} The types.
+     */
+    private formatType(definition: Record<string, any>): string {
+        if (definition.items?.ref) return `Ref<${definition.items.ref}>[]`;
+        return (definition.type ?? []).map((type: string) => type === 'Ref' ? `Ref<${definition.ref}>` : type).join(' | ');
+    }
+
+    /**
+     * Formats the validation rules as `path -> rule=value; rule=value` lines.
+     *
+     * @param {Record<string, any>} validations - The validations to format.
+     * @param {string[]} path - The path of the parent field.
+     * @returns {string[]} The validation lines.
+     */
+    private formatValidations(validations: Record<string, any>, path: string[]): string[] {
+        const lines: string[] = [];
+
+        for (const [key, node] of Object.entries(validations)) {
+            if (key === 'rules' || !node || typeof node !== 'object') continue;
+
+            const fieldPath = [...path, key];
+            if (Object.keys(node.rules ?? {}).length > 0) {
+                lines.push(`${fieldPath.join('.')} -> ${this.formatRules(node.rules)}`);
+            }
+
+            lines.push(...this.formatValidations(node, fieldPath));
+        }
+
+        return lines;
+    }
+
+    /**
+     * Formats the rules written for the fields of named types as `Type.path -> rule=value` lines.
+     *
+     * @param {TypeValidations} typeValidations - The rules, by type and by dot-path inside the type.
+     * @returns {string[]} The validation lines.
+     */
+    private formatTypeValidations(typeValidations: TypeValidations): string[] {
+        return Object.entries(typeValidations).flatMap(([typeName, fields]) => Object.entries(fields)
+            .filter(([, rules]) => Object.keys(rules).length > 0)
+            .map(([path, rules]) => `${typeName}.${path} -> ${this.formatRules(rules)}`));
+    }
+
+    /**
+     * Removes the rules a field inherits unchanged from its named type.
+     *
+     * @param {Record<string, any>} validations - The validations of the collection.
+     * @param {Record<string, any>} inherited - The validations the collection's fields inherit from named types.
+     * @returns {Record<string, any>} The validations written for the fields themselves.
+     */
+    private ownValidations(validations: Record<string, any>, inherited: Record<string, any>): Record<string, any> {
+        const own: Record<string, any> = {};
+
+        for (const [key, node] of Object.entries(validations)) {
+            if (key === 'rules') {
+                own.rules = Object.fromEntries(Object.entries(node ?? {}).filter(([rule, value]) => {
+                    return !Object.hasOwn(inherited.rules ?? {}, rule) || !isDeepStrictEqual(inherited.rules[rule], value);
+                }));
+            } else {
+                own[key] = node && typeof node === 'object' ? this.ownValidations(node, inherited[key] ?? {}) : node;
+            }
+        }
+
+        return own;
+    }
+
+    /**
+     * Formats rules as `rule=value; rule=value`.
+     *
+     * @param {Record<string, any>} rules - The rules.
+     * @returns {string} The formatted rules.
+     */
+    private formatRules(rules: Record<string, any>): string {
+        return Object.entries(rules).map(([ruleName, ruleValue]) => `${ruleName}=${this.formatRuleValue(ruleValue)}`).join('; ');
+    }
+
+    /**
+     * Formats a rule value so that the validation parser reads it back unchanged.
+     *
+     * @param {any} value - The rule value.
+     * @returns {string} The formatted rule value.
+     */
+    private formatRuleValue(value: any): string {
+        if (value === null) return 'null';
+        if (value === undefined) return 'undefined';
+        if (typeof value === 'boolean' || typeof value === 'number') return String(value);
+        if (value instanceof RegExp) return `"${value.source}"`;
+        if (Array.isArray(value)) {
+            const items = value.map((item) => {
+                const [itemValue, itemType] = item && typeof item === 'object' && 'type' in item && 'value' in item
+                    ? [item.value, item.type]
+                    : [item, this.inferType(item)];
+                return itemType === 'String' ? `"${itemValue}"` : this.formatLiteral(itemValue, itemType);
+            });
+            return `[${items.join(', ')}]`;
+        }
+        if (typeof value === 'object') {
+            const entries = Object.entries(value).map(([key, item]) => `${key}: ${this.formatRuleValue(item)}`);
+            return `{${entries.join(', ')}}`;
+        }
+        return `"${value}"`;
+    }
+
+    /**
+     * Formats a single record line, using the array index as the document number.
+     * The `@id` of a parsed document is written in its header, unless it comes from the collection's primary key field.
+     * A document without fields is written as `#n -> ;`.
+     *
+     * @param {Document | Record<string, any>} record - A parsed document or a plain object.
+     * @param {number} index - The position of the record.
+     * @param {Record<string, any>} schema - The schema used to type the values of plain objects.
+     * @param {string} [primaryKey] - The field marked with the `primaryKey` validation rule, if any.
+     * @returns {string} The record line.
+     */
+    private formatRecord(record: Document | Record<string, any>, index: number, schema: Record<string, any>, primaryKey?: string): string {
+        const items = this.isDocument(record)
+            ? record.data
+            : SQONDocuments.fromObject(record, schema, index).data;
+        const id = this.isDocument(record) ? record['@id'] : undefined;
+        const fromKey = id !== undefined && items.some((item) => item.key === primaryKey && String(item.value) === id);
+
+        const body = items.length > 0 ? items.map((item) => this.formatItem(item.key, item.value, item.type)).join(' ') : ';';
+
+        return `#${index}${id === undefined || fromKey ? '' : ` @id=${id}`} -> ${body}`;
+    }
+
+    /**
+     * Formats a key-value pair, using the `_n` notation for array elements.
+     *
+     * @param {string} key - The key of the value.
+     * @param {any} value - The parsed value.
+     * @param {string} type - The type of the value.
+     * @returns {string} The formatted key-value pair.
+     */
+    private formatItem(key: string, value: any, type: string): string {
+        if (type === 'Object') {
+            const children = Array.isArray(value) ? value : [];
+            return `${key}{ ${children.map((child) => this.formatItem(child.key, child.value, child.type) + ' ').join('')}};`;
+        }
+
+        if (Array.isArray(value)) {
+            const elements = value.map((element, index) => element && typeof element === 'object' && 'key' in element && 'type' in element
+                ? this.formatItem(element.key, element.value, element.type)
+                : this.formatItem(`_${index}`, element, this.inferType(element)));
+            return `${key}[ ${elements.map((element) => element + ' ').join('')}];`;
+        }
+
+        return `${key}(${this.formatLiteral(value, type)});`;
+    }
+
+    /**
+     * Formats a scalar value as a SQON literal.
+     *
+     * @param {any} value - The value to format.
+     * @param {string} type - The type of the value.
+     * @returns {string} The SQON literal.
+     */
+    private formatLiteral(value: any, type: string): string {
+        if (value === undefined) return '';
+        if (value === null) return 'NULL';
+        if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+        if (typeof value === 'number' || typeof value === 'bigint' || type === 'Decimal') return SQONLiterals.formatNumber(value, type);
+        if (value instanceof Date) return value.toISOString();
+        if (Buffer.isBuffer(value) || value instanceof Uint8Array && type === 'Binary') return SQONLiterals.encodeBinary(value, this.binaryEncoding);
+        if (value instanceof Uint8Array) return SQONLiterals.encodeUint8Array(value);
+        if (type === 'String') return SQONLiterals.quote(value);
+        return String(value);
+    }
+
+    /**
+     * Infers the SQON type of a plain value.
+     *
+     * @param {any} value - The value to analyze.
+     * @returns {string} The SQON type.
+     */
+    private inferType(value: any): string {
+        if (value === null) return 'Null';
+        if (value === undefined) return 'undefined';
+        if (typeof value === 'boolean') return 'Boolean';
+        if (typeof value === 'number') return 'Number';
+        if (typeof value === 'bigint') return 'BigInt';
+        if (typeof value === 'string') return 'String';
+        if (value instanceof Date) return 'Date';
+        if (Buffer.isBuffer(value)) return 'Binary';
+        if (value instanceof Uint8Array) return 'Uint8Array';
+        if (Array.isArray(value)) return 'Array';
+        if (typeof value === 'object') return 'Object';
+        return 'Any';
+    }
+
+    /**
+     * Checks whether a record is a parsed document rather than a plain object.
+     *
+     * @param {Document | Record<string, any>} record - The record to check.
+     * @returns {boolean} True if the record is a parsed document.
+     */
+    private isDocument(record: Document | Record<string, any>): record is Document {
+        return typeof record['#doc'] === 'number' && Array.isArray(record.data);
+    }
+}
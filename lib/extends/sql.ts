@@ -0,0 +1,933 @@
+import { SQONDocuments } from './documents';
+import { AllowedTypes, BinaryEncoding, Document } from '../types/general';
+import { ConvertedRecord, SqlColumn, SqlDialect, SqlDump, SqlOptions, SqlRow, SqlTable, SqlValue } from '../types/convertor';
+import { SchemaDefinition } from '../types/validator';
+
+type SqlToken = { type: 'word' | 'identifier' | 'string' | 'number' | 'blob' | 'symbol'; value: string; line: number };
+
+type TokenReader = { tokens: SqlToken[]; index: number };
+
+type ColumnDefinition = { name: string; type: string; sql: string; constraints: string[] };
+
+type TableDefinition = {
+    name: string;
+    field?: string;
+    kind: 'records' | 'object' | 'array' | 'values';
+    columns: ColumnDefinition[];
+    constraints: string[];
+};
+
+const sqlTypes: Record<string, Record<SqlDialect, string>> = {
+    String: { postgres: 'TEXT', mysql: 'TEXT', sqlite: 'TEXT' },
+    Number: { postgres: 'DOUBLE PRECISION', mysql: 'DOUBLE', sqlite: 'REAL' },
+    BigInt: { postgres: 'BIGINT', mysql: 'BIGINT', sqlite: 'BIGINT' },
+    Decimal: { postgres: 'NUMERIC', mysql: 'DECIMAL(65, 30)', sqlite: 'NUMERIC' },
+    Boolean: { postgres: 'BOOLEAN', mysql: 'BOOLEAN', sqlite: 'BOOLEAN' },
+    Date: { postgres: 'TIMESTAMP', mysql: 'DATETIME(3)', sqlite: 'DATETIME' },
+    Binary: { postgres: 'BYTEA', mysql: 'BLOB', sqlite: 'BLOB' },
+    Any: { postgres: 'JSONB', mysql: 'JSON', sqlite: 'JSON' },
+};
+
+const scalarTypes = ['String', 'Number', 'BigInt', 'Decimal', 'Boolean', 'Date', 'Binary', 'Uint8Array', 'Ref'];
+
+const columnKeywords = new Set([
+    'NOT', 'NULL', 'PRIMARY', 'UNIQUE', 'DEFAULT', 'CHECK', 'REFERENCES', 'CONSTRAINT', 'AUTO_INCREMENT',
+    'AUTOINCREMENT', 'COLLATE', 'GENERATED', 'COMMENT', 'ON', 'CHARACTER', 'IDENTITY',
+]);
+
+const backslashEscapes: Record<string, string> = { '0': '\0', 'b': '\b', 'n': '\n', 'r': '\r', 't': '\t', 'Z': '\x1a' };
+
+export class SQONSql {
+    private dialect: SqlDialect;
+    private table: string;
+    private nested: 'json' | 'tables';
+    private batchSize: number;
+    private binaryEncoding: BinaryEncoding;
+
+    /**
+     * Constructs a reader and writer for SQL dumps.
+     * @param options - The SQL dialect and how records map to tables.
+     * @param options.dialect - `postgres`, `mysql` or `sqlite`, which decides the column types, literals and identifier quotes. Defaults to `postgres`.
+     * @param options.table - The name of the records table. Nested fields stored in child tables use `<table>_<field>`. Defaults to `records`.
+     * @param options.nested - `json` to store `Object`, `ObjectArray` and array fields in JSON columns, or `tables` to store them in child tables. Defaults to `json`.
+     * @param options.batchSize - The number of rows written by each `INSERT` statement. Defaults to 100.
+     * @param binaryEncoding - How `Binary` values are written in text columns. Defaults to `bytes`.
+     * @throws {Error} If the dialect is unknown or the batch size is not a positive integer.
+     */
+    constructor({ dialect = 'postgres', table = 'records', nested = 'json', batchSize = 100 }: SqlOptions = {}, binaryEncoding: BinaryEncoding = 'bytes') {
+        if (!['postgres', 'mysql', 'sqlite'].includes(dialect)) {
+            throw new Error(`Unknown SQL dialect "${dialect}".`);
+        }
+        if (!Number.isInteger(batchSize) || batchSize < 1) {
+            throw new Error('The SQL batch size must be a positive integer.');
+        }
+
+        this.dialect = dialect;
+        this.table = table;
+        this.nested = nested;
+        this.batchSize = batchSize;
+        this.binaryEncoding = binaryEncoding;
+    }
+
+    /**
+     * Writes a `CREATE TABLE` statement for the schema, and batched `INSERT` statements for the documents.
+     * The records table has a `#doc` column with the document number and, when documents have IDs that do not come from
+     * a primary key field, an `@id` column. Child tables hold a `#doc` column referencing their record, and an `#index`
+     * column with the position of array elements. The `required`, `notNull`, `primaryKey`, `isUnique`, `min`, `max`,
+     * `isPositive`, `isNegative`, `minLength`, `maxLength` and `enum` validations become `NOT NULL`, `PRIMARY KEY`,
+     * `UNIQUE` and `CHECK` constraints.
+     * @param schema - The parsed schema.
+     * @param validations - The parsed validations.
+     * @param documents - The parsed documents.
+     * @param header - SQON text with the schema and validations, embedded in a leading `/* sqon-schema ... *\/` comment.
+     * @returns The SQL text.
+     * @throws {Error} If the header contains `*\/`, which cannot be written inside a comment.
+     */
+    write(schema: Record<string, any>, validations: Record<string, any>, documents: Document[], header?: string): string {
+        const statements: string[] = [];
+        if (header !== undefined) {
+            if (header.includes('*/')) throw new Error('The schema cannot be embedded in SQL because it contains "*/".');
+            statements.push(`/* sqon-schema\n${header}\n*/`);
+        }
+
+        const tables = this.tables(schema, validations, documents);
+        const rows = new Map<string, Record<string, any>[]>(tables.map((table) => [table.name, []]));
+
+        for (const document of documents) {
+            const data = SQONDocuments.toObject(document);
+            const doc = document['#doc'];
+
+            for (const table of tables) {
+                const tableRows = rows.get(table.name)!;
+                const value = table.field === undefined ? undefined : data[table.field];
+
+                if (table.kind === 'records') {
+                    tableRows.push({ ...data, '#doc': doc, '@id': document['@id'] });
+                } else if (table.kind === 'object' && SQONSql.isObject(value)) {
+                    tableRows.push({ ...value, '#doc': doc });
+                } else if (table.kind !== 'object' && Array.isArray(value)) {
+                    value.forEach((element, index) => {
+                        if (table.kind === 'values') tableRows.push({ value: element, '#doc': doc, '#index': index });
+                        else if (SQONSql.isObject(element)) tableRows.push({ ...element, '#doc': doc, '#index': index });
+                    });
+                }
+            }
+        }
+
+        for (const table of tables) statements.push(this.createTable(table));
+        for (const table of tables) statements.push(...this.inserts(table, rows.get(table.name)!));
+
+        return statements.join('\n\n') + '\n';
+    }
+
+    /**
+     * Parses the `CREATE TABLE` and `INSERT ... VALUES` statements of a SQL dump. Other statements are skipped.
+     * String literals follow the dialect: MySQL reads backslash escapes, and PostgreSQL reads them in `E'...'` strings.
+     * @param text - The SQL text.
+     * @returns The tables with their columns and rows, and the SQON text of a leading `/* sqon-schema ... *\/` comment.
+     * @throws {Error} If the text cannot be read, with the line of the error.
+     */
+    parse(text: string): SqlDump {
+        const { tokens, schema } = this.tokenize(text);
+        const tables = new Map<string, SqlTable>();
+        let statement: SqlToken[] = [];
+
+        for (const token of tokens) {
+            if (token.type === 'symbol' && token.value === ';') {
+                this.statement({ tokens: statement, index: 0 }, tables);
+                statement = [];
+            } else {
+                statement.push(token);
+            }
+        }
+        this.statement({ tokens: statement, index: 0 }, tables);
+
+        return { tables: [...tables.values()], schema };
+    }
+
+    /**
+     * Writes the SQON schema and validations of a dump without an embedded schema, from its column types and constraints.
+     * Nullable columns accept `Null`, and `undefined` for rows that leave them out. `NOT NULL` columns are `required`, and `UNIQUE`
+     * and `PRIMARY KEY` columns are `isUnique` and `primaryKey`. Child tables become `Object`, `ObjectArray` and array fields.
+     * @param dump - The parsed dump.
+     * @returns The SQON text with the `@schema` and `@validations` sections.
+     * @throws {Error} If the dump has no table.
+     */
+    schemaText(dump: SqlDump): string {
+        const main = this.mainTable(dump);
+        const schema: string[] = [];
+        const validations: string[] = [];
+
+        const fields = (columns: SqlColumn[], indent: string, path: string) => {
+            for (const column of columns) {
+                const type = SQONSql.sqonType(column.type);
+                const isNullable = !column.notNull && !column.primaryKey && type !== 'Any';
+                schema.push(`${indent}${column.name} -> ${type}${isNullable ? ' | Null | undefined' : ''}`);
+
+                const rules: string[] = [];
+                if (column.primaryKey && path === '' && ['String', 'Number', 'BigInt', 'Decimal'].includes(type)) rules.push('primaryKey=true');
+                else if (column.notNull || column.primaryKey) rules.push('required=true');
+                if (column.unique && !column.primaryKey) rules.push('isUnique=true');
+                if (rules.length > 0) validations.push(`${path}${column.name} -> ${rules.join('; ')}`);
+            }
+        };
+
+        fields(SQONSql.dataColumns(main), '', '');
+        for (const [field, child] of this.childTables(main, dump)) {
+            const columns = SQONSql.dataColumns(child);
+            const isArray = child.columns.some((column) => column.name === '#index');
+
+            if (isArray && columns.length === 1 && columns[0].name === 'value') {
+                const type = SQONSql.sqonType(columns[0].type);
+                schema.push(`${field} -> ${type === 'String' || type === 'Number' ? `${type}Array` : 'Array'}`);
+            } else {
+                schema.push(`${field} -> ${isArray ? 'ObjectArray' : 'Object'} {`);
+                fields(columns, '  ', `${field}.`);
+                schema.push('}');
+            }
+        }
+
+        const sections = [`@schema\n${schema.join('\n')}\n@end`];
+        if (validations.length > 0) sections.push(`@validations\n${validations.join('\n')}\n@end`);
+        return sections.join('\n\n');
+    }
+
+    /**
+     * Reads the records of a parsed dump, the reverse of `write`. The records table is the one named by the `table`
+     * option, or else the first table of the dump that is not a child table. Rows of child tables are merged back into
+     * their records, records without rows in an array table getting an empty array, and values are typed by the schema.
+     * @param dump - The parsed dump.
+     * @param schema - The parsed schema of the records.
+     * @returns The records, as plain objects, ordered by their `#doc` column, with the ID of each row's `@id` column.
+     * @throws {Error} With every value that does not convert to the type of its field, by row and column.
+     */
+    read(dump: SqlDump, schema: Record<string, any> = {}): ConvertedRecord[] {
+        const main = this.mainTable(dump);
+        const errors: string[] = [];
+        const byDoc = new Map<string, Record<string, any>>();
+
+        const rows = [...main.rows].sort((a, b) => SQONSql.docNumber(a.values) - SQONSql.docNumber(b.values));
+        const records = rows.map((row, index) => {
+            const data = this.rowValues(row, SQONSql.dataColumns(main), schema, `${main.name} row ${index + 1}`, errors);
+            const doc = row.values['#doc'];
+            if (doc !== undefined && doc !== null) byDoc.set(SQONSql.valueText(doc), data);
+
+            const id = row.values['@id'];
+            return { data, id: typeof id === 'string' ? id : undefined };
+        });
+
+        for (const [field, child] of this.childTables(main, dump)) {
+            const definition: SchemaDefinition | undefined = schema[field];
+            const isArray = child.columns.some((column) => column.name === '#index');
+            const itemDefinition = isArray ? definition && SQONSql.elementDefinition(definition) : definition;
+            const columns = SQONSql.dataColumns(child);
+            const isValues = isArray && columns.length === 1 && columns[0].name === 'value' && !itemDefinition?.properties;
+
+            if (isArray) {
+                for (const record of byDoc.values()) record[field] = [];
+            }
+
+            const childRows = [...child.rows].sort((a, b) => SQONSql.docNumber(a.values, '#index') - SQONSql.docNumber(b.values, '#index'));
+            childRows.forEach((row, index) => {
+                const doc = row.values['#doc'];
+                const record = doc === undefined || doc === null ? undefined : byDoc.get(SQONSql.valueText(doc));
+                const position = `${child.name} row ${index + 1}`;
+                if (!record) {
+                    errors.push(`${position} (line ${row.line}): No record with #doc ${doc === undefined || doc === null ? 'NULL' : SQONSql.valueText(doc)}.`);
+                    return;
+                }
+
+                const value = isValues
+                    ? this.cellValue(row.values.value, itemDefinition, columns[0], `${position}, column value (line ${row.line})`, errors)
+                    : this.rowValues(row, columns, itemDefinition?.properties ?? {}, position, errors);
+                if (isArray && value !== undefined) record[field].push(value);
+                else record[field] = value;
+            });
+        }
+
+        if (errors.length > 0) {
+            throw new Error(`Invalid SQL values:\n${errors.join('\n')}`);
+        }
+        return records;
+    }
+
+    /**
+     * Builds the records table and, with `nested: 'tables'`, a child table per `Object`, `ObjectArray` and array field.
+     * @param schema - The parsed schema.
+     * @param validations - The parsed validations.
+     * @param documents - The parsed documents, to know whether they have IDs.
+     * @returns The tables, the records table first.
+     */
+    private tables(schema: Record<string, any>, validations: Record<string, any>, documents: Document[]): TableDefinition[] {
+        const primaryKey = Object.keys(schema).find((key) => validations[key]?.rules?.primaryKey === true);
+        const doc = { name: '#doc', type: 'Number', sql: 'INTEGER', constraints: ['NOT NULL'] };
+        const main: TableDefinition = {
+            name: this.table,
+            kind: 'records',
+            columns: [{ ...doc, constraints: primaryKey ? ['NOT NULL', 'UNIQUE'] : ['NOT NULL', 'PRIMARY KEY'] }],
+            constraints: [],
+        };
+        if (!primaryKey && documents.some((document) => document['@id'] !== undefined)) {
+            main.columns.push(this.column('@id', { type: ['String'] }, { isUnique: true }, false));
+        }
+
+        const children: TableDefinition[] = [];
+        for (const [key, definition] of Object.entries(schema)) {
+            const fieldValidations = validations[key] ?? {};
+            const kind = this.nested === 'tables' ? SQONSql.nestedKind(definition) : null;
+            if (!kind) {
+                main.columns.push(this.column(key, definition, fieldValidations.rules ?? {}, key === primaryKey));
+                continue;
+            }
+
+            const table: TableDefinition = { name: `${this.table}_${key}`, field: key, kind, columns: [doc], constraints: [] };
+            if (kind === 'values') {
+                table.columns.push({ name: '#index', type: 'Number', sql: 'INTEGER', constraints: ['NOT NULL'] });
+                table.columns.push(this.column('value', SQONSql.elementDefinition(definition), {}, false));
+            } else {
+                if (kind === 'array') table.columns.push({ name: '#index', type: 'Number', sql: 'INTEGER', constraints: ['NOT NULL'] });
+                const properties = (kind === 'object' ? definition.properties : SQONDocuments.itemDefinition(definition)?.properties) ?? {};
+                for (const [property, propertyDefinition] of Object.entries(properties)) {
+                    table.columns.push(this.column(property, propertyDefinition as SchemaDefinition, fieldValidations[property]?.rules ?? {}, false));
+                }
+            }
+
+            const keys = kind === 'object' ? ['#doc'] : ['#doc', '#index'];
+            table.constraints.push(
+                `PRIMARY KEY (${keys.map((name) => this.identifier(name)).join(', ')})`,
+                `FOREIGN KEY (${this.identifier('#doc')}) REFERENCES ${this.identifier(this.table)} (${this.identifier('#doc')})`,
+            );
+            children.push(table);
+        }
+
+        return [main, ...children];
+    }
+
+    /**
+     * Builds a column from the schema definition and validation rules of a field.
+     * Fields of a single scalar type get the SQL type of that type, fields of several scalar types a text column, and
+     * other fields a JSON column.
+     * @param name - The name of the field.
+     * @param definition - The schema definition of the field.
+     * @param rules - The validation rules of the field.
+     * @param isPrimaryKey - Whether the field is the primary key of the records.
+     * @returns The column.
+     */
+    private column(name: string, definition: SchemaDefinition, rules: Record<string, any>, isPrimaryKey: boolean): ColumnDefinition {
+        const types = (definition?.type ?? []).filter((type: string) => type !== 'Null' && type !== 'undefined');
+        const type = types.length > 1 && types.every((item: string) => scalarTypes.includes(item))
+            ? 'Union'
+            : types.length === 1 && scalarTypes.includes(types[0]) ? types[0] : 'Any';
+
+        let sql = sqlTypes[type === 'Uint8Array' ? 'Binary' : type === 'Union' || type === 'Ref' ? 'String' : type][this.dialect];
+        const isTextKey = sql === 'TEXT' && (rules.maxLength !== undefined || rules.isUnique === true || isPrimaryKey);
+        if (this.dialect === 'mysql' && isTextKey) sql = `VARCHAR(${typeof rules.maxLength === 'number' ? rules.maxLength : 255})`;
+
+        const constraints: string[] = [];
+        if (rules.required === true || rules.notNull === true || isPrimaryKey) constraints.push('NOT NULL');
+        if (isPrimaryKey) constraints.push('PRIMARY KEY');
+        else if (rules.isUnique === true && type !== 'Any') constraints.push('UNIQUE');
+
+        const checks = this.checks(this.identifier(name), type, rules);
+        if (checks.length > 0) constraints.push(`CHECK (${checks.join(' AND ')})`);
+
+        return { name, type, sql, constraints };
+    }
+
+    /**
+     * Translates validation rules into the conditions of a `CHECK` constraint.
+     * @param column - The quoted column name.
+     * @param type - The SQON type of the column.
+     * @param rules - The validation rules of the field.
+     * @returns The conditions.
+     */
+    private checks(column: string, type: string, rules: Record<string, any>): string[] {
+        const checks: string[] = [];
+
+        if (['Number', 'BigInt', 'Decimal'].includes(type)) {
+            if (typeof rules.min === 'number' || typeof rules.min === 'bigint') checks.push(`${column} >= ${rules.min}`);
+            if (typeof rules.max === 'number' || typeof rules.max === 'bigint') checks.push(`${column} <= ${rules.max}`);
+            if (rules.isPositive === true) checks.push(`${column} > 0`);
+            if (rules.isNegative === true) checks.push(`${column} < 0`);
+        }
+
+        if (type === 'String') {
+            const length = this.dialect === 'mysql' ? 'CHAR_LENGTH' : 'LENGTH';
+            if (typeof rules.minLength === 'number') checks.push(`${length}(${column}) >= ${rules.minLength}`);
+            if (typeof rules.maxLength === 'number' && this.dialect !== 'mysql') checks.push(`${length}(${column}) <= ${rules.maxLength}`);
+        }
+
+        if (Array.isArray(rules.enum) && type !== 'Any') {
+            const values = rules.enum.map((item: any) => item && typeof item === 'object' && 'value' in item ? item.value : item);
+            checks.push(`${column} IN (${values.map((value: any) => this.literal(value, type)).join(', ')})`);
+        }
+
+        return checks;
+    }
+
+    /**
+     * Writes the `CREATE TABLE` statement of a table.
+     * @param table - The table.
+     * @returns The statement.
+     */
+    private createTable(table: TableDefinition): string {
+        const definitions = [
+            ...table.columns.map((column) => [this.identifier(column.name), column.sql, ...column.constraints].join(' ')),
+            ...table.constraints,
+        ];
+        return `CREATE TABLE ${this.identifier(table.name)} (\n${definitions.map((definition) => `  ${definition}`).join(',\n')}\n);`;
+    }
+
+    /**
+     * Writes the `INSERT` statements of the rows of a table, `batchSize` rows per statement.
+     * @param table - The table.
+     * @param rows - The rows, by column name.
+     * @returns The statements, none if there are no rows.
+     */
+    private inserts(table: TableDefinition, rows: Record<string, any>[]): string[] {
+        const statements: string[] = [];
+        const columns = table.columns.map((column) => this.identifier(column.name)).join(', ');
+
+        for (let start = 0; start < rows.length; start += this.batchSize) {
+            const values = rows.slice(start, start + this.batchSize).map((row) => {
+                return `  (${table.columns.map((column) => this.literal(row[column.name], column.type)).join(', ')})`;
+            });
+            statements.push(`INSERT INTO ${this.identifier(table.name)} (${columns}) VALUES\n${values.join(',\n')};`);
+        }
+        return statements;
+    }
+
+    /**
+     * Writes a value as a SQL literal for a column of the given type.
+     * @param value - The plain value.
+     * @param type - The SQON type of the column, `Union` for a text column or `Any` for a JSON column.
+     * @returns The literal.
+     */
+    private literal(value: any, type: string): string {
+        if (value === undefined || value === null) return 'NULL';
+        if (type === 'Any') return this.string(JSON.stringify(SQONDocuments.toJson(value)));
+
+        if (typeof value === 'boolean' && type === 'Boolean') {
+            return this.dialect === 'sqlite' ? (value ? '1' : '0') : (value ? 'TRUE' : 'FALSE');
+        }
+        if ((typeof value === 'number' && Number.isFinite(value) || typeof value === 'bigint') && ['Number', 'BigInt', 'Decimal'].includes(type)) {
+            return String(value);
+        }
+        if (typeof value === 'string' && type === 'Decimal' && /^-?(\d+(\.\d*)?|\.\d+)$/.test(value)) return value;
+        if (value instanceof Date && type === 'Date') {
+            const iso = value.toISOString();
+            return this.string(this.dialect === 'sqlite' ? iso : iso.slice(0, -1).replace('T', ' '));
+        }
+        if (value instanceof Uint8Array && (type === 'Binary' || type === 'Uint8Array')) {
+            const hex = Buffer.from(value).toString('hex');
+            return this.dialect === 'postgres' ? `'\\x${hex}'` : `X'${hex}'`;
+        }
+
+        return this.string(SQONDocuments.toText(value, this.binaryEncoding));
+    }
+
+    /**
+     * Writes a string literal, doubling quotes and, for MySQL, backslashes.
+     * @param text - The text.
+     * @returns The literal.
+     */
+    private string(text: string): string {
+        const escaped = this.dialect === 'mysql' ? text.replace(/\\/g, '\\\\') : text;
+        return `'${escaped.replace(/'/g, "''")}'`;
+    }
+
+    /**
+     * Quotes an identifier, with backticks for MySQL and double quotes otherwise.
+     * @param name - The identifier.
+     * @returns The quoted identifier.
+     */
+    private identifier(name: string): string {
+        return this.dialect === 'mysql' ? `\`${name.replace(/`/g, '``')}\`` : `"${name.replace(/"/g, '""')}"`;
+    }
+
+    /**
+     * Splits SQL text into tokens, skipping comments and keeping the content of a `/* sqon-schema ... *\/` comment.
+     * @param text - The SQL text.
+     * @returns The tokens and the embedded schema, if any.
+     */
+    private tokenize(text: string): { tokens: SqlToken[]; schema?: string } {
+        const source = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+        const tokens: SqlToken[] = [];
+        let schema: string | undefined;
+        let index = 0;
+        let line = 1;
+
+        const advance = (end: number) => {
+            for (let position = index; position < end; position++) {
+                if (source[position] === '\n') line++;
+            }
+            index = end;
+        };
+        const match = (pattern: RegExp) => {
+            pattern.lastIndex = index;
+            return pattern.exec(source);
+        };
+
+        while (index < source.length) {
+            const char = source[index];
+            const start = line;
+
+            if (/\s/.test(char)) {
+                advance(index + 1);
+            } else if (source.startsWith('--', index) || char === '#' && this.dialect === 'mysql') {
+                const end = source.indexOf('\n', index);
+                advance(end === -1 ? source.length : end);
+            } else if (source.startsWith('/*', index)) {
+                const end = source.indexOf('*/', index + 2);
+                if (end === -1) SQONSql.fail(line, 'Unclosed comment.');
+                const content = source.slice(index + 2, end);
+                if (/^\s*sqon-schema\s/.test(content) && schema === undefined) schema = content.replace(/^\s*sqon-schema\s/, '').trim();
+                advance(end + 2);
+            } else if (/[xX]/.test(char) && source[index + 1] === "'") {
+                const end = source.indexOf("'", index + 2);
+                const hex = end === -1 ? '' : source.slice(index + 2, end);
+                if (end === -1 || !/^(?:[0-9a-fA-F]{2})*$/.test(hex)) SQONSql.fail(line, 'Invalid hexadecimal literal.');
+                tokens.push({ type: 'blob', value: hex, line: start });
+                advance(end + 1);
+            } else if (match(/0x([0-9a-fA-F]+)\b/y)) {
+                const hex = match(/0x([0-9a-fA-F]+)\b/y)![1];
+                tokens.push({ type: 'blob', value: hex.length % 2 === 0 ? hex : `0${hex}`, line: start });
+                advance(index + hex.length + 2);
+            } else if (char === "'" || /[eE]/.test(char) && source[index + 1] === "'" && this.dialect === 'postgres') {
+                const quote = source.indexOf("'", index);
+                const backslashes = this.dialect === 'mysql' || quote !== index;
+                const { value, end } = SQONSql.readString(source, quote + 1, backslashes, line);
+                tokens.push({ type: 'string', value, line: start });
+                advance(end);
+            } else if (char === '"' || char === '`' || char === '[' && this.dialect !== 'postgres') {
+                const closing = char === '[' ? ']' : char;
+                let value = '';
+                let position = index + 1;
+                while (true) {
+                    const end = source.indexOf(closing, position);
+                    if (end === -1) SQONSql.fail(line, 'Unclosed quoted identifier.');
+                    value += source.slice(position, end);
+                    if (closing !== ']' && source[end + 1] === closing) {
+                        value += closing;
+                        position = end + 2;
+                    } else {
+                        position = end + 1;
+                        break;
+                    }
+                }
+                tokens.push({ type: 'identifier', value, line: start });
+                advance(position);
+            } else if (match(/(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/y)) {
+                const value = match(/(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/y)![0];
+                tokens.push({ type: 'number', value, line: start });
+                advance(index + value.length);
+            } else if (match(/[A-Za-z_][\w$]*/y)) {
+                const value = match(/[A-Za-z_][\w$]*/y)![0];
+                tokens.push({ type: 'word', value, line: start });
+                advance(index + value.length);
+            } else {
+                const value = source.startsWith('::', index) ? '::' : char;
+                tokens.push({ type: 'symbol', value, line: start });
+                advance(index + value.length);
+            }
+        }
+
+        return { tokens, schema };
+    }
+
+    /**
+     * Reads the content of a string literal, after its opening quote.
+     * @param source - The SQL text.
+     * @param start - The index after the opening quote.
+     * @param backslashes - Whether backslash escapes are read.
+     * @param line - The line of the literal, used in the error message.
+     * @returns The decoded content and the index after the closing quote.
+     */
+    private static readString(source: string, start: number, backslashes: boolean, line: number): { value: string; end: number } {
+        let value = '';
+        for (let index = start; index < source.length; index++) {
+            const char = source[index];
+            if (char === "'" && source[index + 1] === "'") {
+                value += "'";
+                index++;
+            } else if (char === "'") {
+                return { value, end: index + 1 };
+            } else if (char === '\\' && backslashes && index + 1 < source.length) {
+                const escaped = source[++index];
+                value += backslashEscapes[escaped] ?? escaped;
+            } else {
+                value += char;
+            }
+        }
+        return SQONSql.fail(line, 'Unclosed string literal.');
+    }
+
+    /**
+     * Reads a statement into the tables: `CREATE TABLE` adds a table and `INSERT` adds rows. Other statements are skipped.
+     * @param reader - The tokens of the statement.
+     * @param tables - The tables read so far, by name.
+     */
+    private statement(reader: TokenReader, tables: Map<string, SqlTable>): void {
+        if (SQONSql.keyword(reader, 'CREATE')) {
+            SQONSql.keyword(reader, 'TEMPORARY') || SQONSql.keyword(reader, 'TEMP');
+            if (!SQONSql.keyword(reader, 'TABLE')) return;
+            SQONSql.keyword(reader, 'IF', 'NOT', 'EXISTS');
+            const name = SQONSql.tableName(reader);
+            if (!SQONSql.symbol(reader, '(')) return;
+
+            const table: SqlTable = { name, columns: [], rows: tables.get(name)?.rows ?? [] };
+            for (const definition of SQONSql.list(reader)) SQONSql.columnDefinition(definition, table);
+            tables.set(name, table);
+        } else if (SQONSql.keyword(reader, 'INSERT')) {
+            while (reader.index < reader.tokens.length && !SQONSql.keyword(reader, 'INTO')) reader.index++;
+            const name = SQONSql.tableName(reader);
+            const line = reader.tokens[reader.index - 1].line;
+            const table = tables.get(name) ?? { name, columns: [], rows: [] };
+            tables.set(name, table);
+
+            const columns = SQONSql.symbol(reader, '(') ? SQONSql.list(reader).map((tokens) => tokens[0].value) : table.columns.map((column) => column.name);
+            if (!SQONSql.keyword(reader, 'VALUES') && !SQONSql.keyword(reader, 'VALUE')) {
+                SQONSql.fail(line, `Only INSERT ... VALUES statements are supported, in the INSERT into "${name}".`);
+            }
+            if (columns.length === 0) {
+                SQONSql.fail(line, `The INSERT into "${name}" has no column list, and no CREATE TABLE statement comes before it.`);
+            }
+            for (const column of columns) {
+                if (!table.columns.some((known) => known.name === column)) {
+                    table.columns.push({ name: column, type: '', notNull: false, unique: false, primaryKey: false });
+                }
+            }
+
+            do {
+                const rowLine = reader.tokens[reader.index]?.line ?? line;
+                if (!SQONSql.symbol(reader, '(')) SQONSql.fail(rowLine, 'Expected "(" before the values of a row.');
+                const values = SQONSql.list(reader).map((tokens) => SQONSql.value(tokens, rowLine));
+                if (values.length !== columns.length) {
+                    SQONSql.fail(rowLine, `${values.length} values for ${columns.length} columns in the INSERT into "${name}".`);
+                }
+                table.rows.push({ values: Object.fromEntries(columns.map((column, index) => [column, values[index]])), line: rowLine });
+            } while (SQONSql.symbol(reader, ','));
+        }
+    }
+
+    /**
+     * Reads a column definition or a table constraint of a `CREATE TABLE` statement into the table.
+     * Single-column `PRIMARY KEY` and `UNIQUE` constraints mark their column; other table constraints are skipped.
+     * @param tokens - The tokens of the definition.
+     * @param table - The table being read.
+     */
+    private static columnDefinition(tokens: SqlToken[], table: SqlTable): void {
+        const reader: TokenReader = { tokens, index: 0 };
+        if (SQONSql.keyword(reader, 'CONSTRAINT')) reader.index++;
+
+        const isPrimaryKey = SQONSql.keyword(reader, 'PRIMARY', 'KEY');
+        if (isPrimaryKey || SQONSql.keyword(reader, 'UNIQUE')) {
+            while (reader.index < tokens.length && !SQONSql.symbol(reader, '(')) reader.index++;
+            const columns = reader.index < tokens.length ? SQONSql.list(reader).map((column) => column[0].value) : [];
+            const column = table.columns.find((known) => columns.length === 1 && known.name === columns[0]);
+            if (column && isPrimaryKey) column.primaryKey = true;
+            if (column && !isPrimaryKey) column.unique = true;
+            return;
+        }
+        if (tokens[reader.index]?.type === 'word' && /^(FOREIGN|CHECK|KEY|INDEX|FULLTEXT|SPATIAL|EXCLUDE)$/i.test(tokens[reader.index].value)) return;
+
+        const name = tokens[0]?.value;
+        if (name === undefined) return;
+        const type: string[] = [];
+        let index = 1;
+        for (; index < tokens.length && !(tokens[index].type === 'word' && columnKeywords.has(tokens[index].value.toUpperCase())); index++) {
+            if (tokens[index].value === '(') {
+                const end = tokens.findIndex((token, position) => position > index && token.value === ')');
+                type.push(`(${tokens.slice(index + 1, end === -1 ? tokens.length : end).map((token) => token.value).join('').replace(/,/g, ', ')})`);
+                index = end === -1 ? tokens.length : end;
+            } else {
+                type.push(tokens[index].value);
+            }
+        }
+
+        const words = tokens.slice(index).map((token) => token.type === 'word' ? token.value.toUpperCase() : '');
+        const column: SqlColumn = {
+            name,
+            type: type.join(' ').replace(/ \(/g, '('),
+            notNull: words.some((word, position) => word === 'NOT' && words[position + 1] === 'NULL'),
+            unique: words.includes('UNIQUE'),
+            primaryKey: words.some((word, position) => word === 'PRIMARY' && words[position + 1] === 'KEY'),
+        };
+        table.columns.push(column);
+    }
+
+    /**
+     * Reads the literal of a value of an `INSERT` statement.
+     * @param tokens - The tokens of the value.
+     * @param line - The line of the row, used in error messages.
+     * @returns The value: null, a boolean, a string, a number as written, bytes, or undefined for `DEFAULT`.
+     */
+    private static value(tokens: SqlToken[], line: number): SqlValue {
+        const castIndex = tokens.findIndex((token) => token.value === '::');
+        const literal = castIndex === -1 ? tokens : tokens.slice(0, castIndex);
+        const [first, second] = literal;
+        const word = first?.type === 'word' ? first.value.toUpperCase() : '';
+
+        if (literal.length === 1 && first.type === 'number') return { number: first.value };
+        if (literal.length === 2 && first.type === 'symbol' && /^[-+]$/.test(first.value) && second.type === 'number') {
+            return { number: first.value === '-' ? `-${second.value}` : second.value };
+        }
+        if (literal.length === 1 && first.type === 'string') return first.value;
+        if (literal.length === 1 && first.type === 'blob') return Buffer.from(first.value, 'hex');
+        if (literal.length === 1 && word === 'NULL') return null;
+        if (literal.length === 1 && (word === 'TRUE' || word === 'FALSE')) return word === 'TRUE';
+        if (literal.length === 1 && word === 'DEFAULT') return undefined;
+
+        return SQONSql.fail(first?.line ?? line, `Unsupported value "${tokens.map((token) => token.value).join(' ')}".`);
+    }
+
+    /**
+     * Reads the value of a cell as a value of one of the types of its field.
+     * @param value - The value read from the dump.
+     * @param definition - The schema definition of the field, if any.
+     * @param column - The column of the value.
+     * @param position - The table, row and column, used in error messages.
+     * @param errors - The conversion errors found so far, to which a failed conversion is added.
+     * @returns The plain value, or undefined for `DEFAULT`, empty text, `NULL` in a field that does not accept `Null`, or a value that does not convert.
+     */
+    private cellValue(value: SqlValue, definition: SchemaDefinition | undefined, column: SqlColumn, position: string, errors: string[]): any {
+        const types: string[] = definition?.type ?? [];
+        if (value === undefined) return undefined;
+        if (value === null) return types.includes('Null') || types.length === 0 ? null : undefined;
+        if (Buffer.isBuffer(value)) return types.includes('Uint8Array') && !types.includes('Binary') ? new Uint8Array(value) : value;
+        if (typeof value === 'boolean' && (types.length === 0 || types.includes('Boolean') || types.includes('Any'))) return value;
+
+        let text = typeof value === 'string' ? value : typeof value === 'boolean' ? String(value) : value.number;
+        if (types.includes('Boolean') && typeof value === 'object' && /^[01]$/.test(text)) return text === '1';
+        if (typeof value === 'string' && (types.includes('Any') || types.length === 0 && /^JSON/i.test(column.type))) {
+            try {
+                return JSON.parse(text);
+            } catch {
+                return text;
+            }
+        }
+        if ((types.includes('Binary') || types.includes('Uint8Array')) && /^\\x([0-9a-fA-F]{2})*$/.test(text)) {
+            const bytes = Buffer.from(text.slice(2), 'hex');
+            return types.includes('Binary') ? bytes : new Uint8Array(bytes);
+        }
+        if (types.includes('Date') && /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/.test(text)) {
+            text = `${text.replace(' ', 'T')}Z`;
+        }
+
+        try {
+            return SQONDocuments.fromText(text, definition);
+        } catch (error) {
+            errors.push(`${position}: ${(error as Error).message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Reads the values of a row into a plain object.
+     * @param row - The row.
+     * @param columns - The columns that hold fields.
+     * @param schema - The schema of the fields.
+     * @param position - The table and row, used in error messages.
+     * @param errors - The conversion errors found so far.
+     * @returns The plain object.
+     */
+    private rowValues(row: SqlRow, columns: SqlColumn[], schema: Record<string, any>, position: string, errors: string[]): Record<string, any> {
+        const data: Record<string, any> = {};
+        for (const column of columns) {
+            const value = this.cellValue(row.values[column.name], schema[column.name], column, `${position}, column ${column.name} (line ${row.line})`, errors);
+            if (value !== undefined) data[column.name] = value;
+        }
+        return data;
+    }
+
+    /**
+     * Finds the records table of a dump.
+     * @param dump - The parsed dump.
+     * @returns The table named by the `table` option, or else the first table that is not a child table.
+     * @throws {Error} If the dump has no table.
+     */
+    private mainTable(dump: SqlDump): SqlTable {
+        const table = dump.tables.find((candidate) => candidate.name === this.table)
+            ?? dump.tables.find((candidate) => !dump.tables.some((parent) => parent !== candidate && this.childTables(parent, dump).has(candidate.name.slice(parent.name.length + 1))));
+        if (!table) {
+            throw new Error('The SQL dump has no CREATE TABLE or INSERT statement.');
+        }
+        return table;
+    }
+
+    /**
+     * Finds the child tables of a table: the tables named `<table>_<field>` with a `#doc` column.
+     * @param table - The parent table.
+     * @param dump - The parsed dump.
+     * @returns The child tables, by field.
+     */
+    private childTables(table: SqlTable, dump: SqlDump): Map<string, SqlTable> {
+        const children = new Map<string, SqlTable>();
+        for (const candidate of dump.tables) {
+            const field = candidate.name.slice(table.name.length + 1);
+            if (candidate.name.startsWith(`${table.name}_`) && field && candidate.columns.some((column) => column.name === '#doc')) {
+                children.set(field, candidate);
+            }
+        }
+        return children;
+    }
+
+    /**
+     * Determines how a field is stored with `nested: 'tables'`.
+     * @param definition - The schema definition of the field.
+     * @returns `object` and `array` for a child table with a row per object, `values` for a child table with a row per array element, or null for a column.
+     */
+    private static nestedKind(definition: SchemaDefinition): 'object' | 'array' | 'values' | null {
+        const types = (definition.type ?? []).filter((type: string) => type !== 'Null' && type !== 'undefined');
+        if (types.length !== 1) return null;
+        if (types[0] === 'Object') return definition.properties ? 'object' : null;
+        if ((types[0] === 'ObjectArray' || types[0] === 'Object[]') && definition.items) return 'array';
+        return types[0] !== 'Uint8Array' && (types[0].endsWith('Array') || types[0].endsWith('[]')) ? 'values' : null;
+    }
+
+    /**
+     * Finds the definition of the elements of an array field, from its items or from its type such as `StringArray`.
+     * @param definition - The schema definition of the field.
+     * @returns The definition of the elements.
+     */
+    private static elementDefinition(definition: SchemaDefinition): SchemaDefinition {
+        const items = SQONDocuments.itemDefinition(definition);
+        if (items) return items;
+
+        const type = (definition.type ?? []).find((item: string) => item !== 'Null' && item !== 'undefined') ?? '';
+        const element = type.replace(/(Array|\[\])$/, '');
+        return { type: [scalarTypes.includes(element) ? element as AllowedTypes : 'Any'] };
+    }
+
+    /**
+     * Maps a SQL column type to a SQON type.
+     * @param type - The SQL type, as declared.
+     * @returns The SQON type, `Any` for JSON and unknown types.
+     */
+    private static sqonType(type: string): string {
+        const name = type.toUpperCase();
+        if (/^(BOOL|BOOLEAN|TINYINT\(1\)|BIT\(1\))$/.test(name)) return 'Boolean';
+        if (/^(BIGINT|BIGSERIAL|INT8)\b/.test(name)) return 'BigInt';
+        if (/^(INT|INTEGER|SMALLINT|TINYINT|MEDIUMINT|SERIAL|SMALLSERIAL|INT2|INT4|REAL|FLOAT|DOUBLE|FLOAT4|FLOAT8)\b/.test(name)) return 'Number';
+        if (/^(NUMERIC|DECIMAL|DEC|NUMBER)\b/.test(name)) return 'Decimal';
+        if (/^(DATE|TIME|TIMESTAMP|TIMESTAMPTZ|DATETIME)\b/.test(name)) return 'Date';
+        if (/^(BYTEA|BLOB|TINYBLOB|MEDIUMBLOB|LONGBLOB|BINARY|VARBINARY)\b/.test(name)) return 'Binary';
+        if (/^(JSON|JSONB)\b/.test(name) || name === '') return 'Any';
+        if (/(CHAR|TEXT|CLOB|STRING|UUID|ENUM|SET)\b/.test(name)) return 'String';
+        return 'Any';
+    }
+
+    /**
+     * Lists the columns of a table that hold fields, without the `#doc`, `#index` and `@id` columns.
+     * @param table - The table.
+     * @returns The columns.
+     */
+    private static dataColumns(table: SqlTable): SqlColumn[] {
+        return table.columns.filter((column) => !['#doc', '#index', '@id'].includes(column.name));
+    }
+
+    /**
+     * Reads the document number or array index of a row, to order rows.
+     * @param values - The values of the row.
+     * @param column - The column holding the number. Defaults to `#doc`.
+     * @returns The number, or 0 if the row has none.
+     */
+    private static docNumber(values: Record<string, SqlValue>, column: string = '#doc'): number {
+        const value = values[column];
+        return value !== null && typeof value === 'object' && 'number' in value ? Number(value.number) : 0;
+    }
+
+    /**
+     * Writes a value read from the dump as text, to match child rows with their records.
+     * @param value - The value.
+     * @returns The text of the value.
+     */
+    private static valueText(value: Exclude<SqlValue, null | undefined>): string {
+        if (typeof value === 'string' || typeof value === 'boolean') return String(value);
+        return Buffer.isBuffer(value) ? value.toString('hex') : value.number;
+    }
+
+    /**
+     * Reads the comma-separated items of a parenthesized list, the reader being after the opening parenthesis.
+     * @param reader - The reader.
+     * @returns The tokens of each item. The reader is left after the closing parenthesis.
+     */
+    private static list(reader: TokenReader): SqlToken[][] {
+        const items: SqlToken[][] = [[]];
+        let depth = 0;
+
+        for (; reader.index < reader.tokens.length; reader.index++) {
+            const token = reader.tokens[reader.index];
+            if (token.type === 'symbol' && token.value === '(') depth++;
+            if (token.type === 'symbol' && token.value === ')' && depth-- === 0) {
+                reader.index++;
+                break;
+            }
+            if (token.type === 'symbol' && token.value === ',' && depth === 0) items.push([]);
+            else items[items.length - 1].push(token);
+        }
+
+        return items.filter((item) => item.length > 0);
+    }
+
+    /**
+     * Reads a table name, keeping the last part of a qualified name such as `public.users`.
+     * @param reader - The reader.
+     * @returns The table name.
+     */
+    private static tableName(reader: TokenReader): string {
+        let name = reader.tokens[reader.index++];
+        while (SQONSql.symbol(reader, '.')) name = reader.tokens[reader.index++];
+        if (!name || name.type !== 'word' && name.type !== 'identifier') {
+            SQONSql.fail(name?.line ?? reader.tokens[0]?.line ?? 1, 'Expected a table name.');
+        }
+        return name.value;
+    }
+
+    /**
+     * Moves the reader past a sequence of keywords, if they come next.
+     * @param reader - The reader.
+     * @param words - The keywords, in order.
+     * @returns True if the keywords were found.
+     */
+    private static keyword(reader: TokenReader, ...words: string[]): boolean {
+        const found = words.every((word, offset) => {
+            const token = reader.tokens[reader.index + offset];
+            return token?.type === 'word' && token.value.toUpperCase() === word;
+        });
+        if (found) reader.index += words.length;
+        return found;
+    }
+
+    /**
+     * Moves the reader past a symbol, if it comes next.
+     * @param reader - The reader.
+     * @param symbol - The symbol.
+     * @returns True if the symbol was found.
+     */
+    private static symbol(reader: TokenReader, symbol: string): boolean {
+        const token = reader.tokens[reader.index];
+        const found = token?.type === 'symbol' && token.value === symbol;
+        if (found) reader.index++;
+        return found;
+    }
+
+    /**
+     * Throws a parse error.
+     * @param line - The line of the error.
+     * @param message - The error message.
+     * @throws {Error} Always, with the line of the error.
+     */
+    private static fail(line: number, message: string): never {
+        throw new Error(`Invalid SQL at line ${line}: ${message}`);
+    }
+
+    /**
+     * Checks whether a value is a plain object rather than an array, a date or bytes.
+     * @param value - The value to check.
+     * @returns True if the value is a plain object.
+     */
+    private static isObject(value: any): value is Record<string, any> {
+        return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date) && !(value instanceof Uint8Array);
+    }
+}
@@ -0,0 +1,106 @@
+import { Token, TokenType } from '../types/records';
+import { SQONLiterals } from './literals';
+
+const punctuation: Record<string, TokenType | undefined> = {
+    '(': 'lparen',
+    ')': 'rparen',
+    '{': 'lbrace',
+    '}': 'rbrace',
+    '[': 'lbracket',
+    ']': 'rbracket',
+    ';': 'semicolon',
+    ',': 'comma',
+};
+
+const delimiters = new Set([...Object.keys(punctuation), '"', ' ', '\t'].map((char) => char.charCodeAt(0)));
+
+export class SQONTokenizer {
+    private content: string;
+    private position: number;
+    private buffer: Token[];
+
+    /**
+     * Constructs a tokenizer over the content of a single document.
+     * Tokens are produced on demand, so the content is only scanned once.
+     * @param content - The document content, after the `#n ->` prefix.
+     */
+    constructor(content: string) {
+        this.content = content;
+        this.position = 0;
+        this.buffer = [];
+    }
+
+    /**
+     * Returns the next token and consumes it.
+     * @returns The next token, or an `eof` token at the end of the content.
+     */
+    next(): Token {
+        return this.buffer.shift() ?? this.scan();
+    }
+
+    /**
+     * Returns an upcoming token without consuming it.
+     * @param ahead - How many tokens to look past the next one. Defaults to 0.
+     * @returns The token.
+     */
+    peek(ahead: number = 0): Token {
+        while (this.buffer.length <= ahead) {
+            this.buffer.push(this.scan());
+        }
+        return this.buffer[ahead];
+    }
+
+    /**
+     * Reads the raw text of a value, up to the closing parenthesis that is not inside a string literal.
+     * Must be called right after the opening parenthesis has been consumed.
+     * @returns The value text and its offset, or null if the parenthesis is never closed.
+     */
+    readValue(): { text: string; start: number } | null {
+        const start = this.buffer.length > 0 ? this.buffer[0].start : this.position;
+        this.buffer = [];
+
+        const closeIndex = SQONLiterals.indexOutside(this.content, ')', start);
+        if (closeIndex === -1) {
+            this.position = this.content.length;
+            return null;
+        }
+
+        this.position = closeIndex + 1;
+        return { text: this.content.slice(start, closeIndex), start };
+    }
+
+    /**
+     * Scans the next token from the content.
+     * @returns The scanned token.
+     */
+    private scan(): Token {
+        const content = this.content;
+        let i = this.position;
+
+        while (i < content.length && (content.charCodeAt(i) === 32 || content.charCodeAt(i) === 9)) i++;
+
+        if (i >= content.length) {
+            this.position = i;
+            return { type: 'eof', text: '', start: i, end: i };
+        }
+
+        const char = content[i];
+        const start = i;
+        const type = punctuation[char];
+
+        if (type !== undefined) {
+            this.position = i + 1;
+            return { type, text: char, start, end: i + 1 };
+        }
+
+        if (char === '"') {
+            const end = SQONLiterals.skipString(content, i);
+            this.position = end === -1 ? content.length : end + 1;
+            return { type: end === -1 ? 'invalid' : 'string', text: content.slice(start, this.position), start, end: this.position };
+        }
+
+        while (i < content.length && !delimiters.has(content.charCodeAt(i))) i++;
+        this.position = i;
+        return { type: 'word', text: content.slice(start, i), start, end: i };
+    }
+}
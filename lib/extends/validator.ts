@@ -25,16 +25,14 @@ export class Validator {
     const { validateData, schema, data, strict = false } = params;
 
     if (schema) {
-      const schemaValidation = await this.validateSchema(schema, data, strict);
-      if (!schemaValidation.valid) return { valid: false, errors: this.errors };
+      await this.validateSchema(schema, data, strict, this.requiredPaths(validateData ?? {}));
     }
 
     if (validateData) {
-      const fieldValidation = await this.validateFields(validateData, data, strict);
-      if (!fieldValidation.valid) return { valid: false, errors: this.errors };
+      await this.validateFields(validateData, data, strict);
     }
 
-    return { valid: this.errors.length === 0 };
+    return this.errors.length === 0 ? { valid: true } : { valid: false, errors: this.errors };
   }
 
   /**
@@ -43,32 +41,41 @@ export class Validator {
    * @param {Record<string, SchemaDefinition>} schema - The schema definitions for validation.
    * @param {Record<string, any>} data - The data to validate against the schema.
    * @param {boolean} strict - Whether to enforce strict validation.
+   * @param {Set<string>} [required] - The dot-paths of the fields with a `required` or `primaryKey` rule. Other fields may be absent.
+   * @param {string} [path] - The dot-path prefix of the fields of `schema`, for nested objects and array items.
+   * @param {string} [location] - The path prefix of the fields of `data` in the record, with `[n]` for array items, used in the errors.
    * 
    * @returns {Promise<ValidationResult>} - A promise that resolves with the schema validation result.
    */
   private async validateSchema(
     schema: Record<string, SchemaDefinition>,
     data: Record<string, any>,
-    strict: boolean
+    strict: boolean,
+    required: Set<string> = new Set(),
+    path: string = '',
+    location: string = ''
   ): Promise<ValidationResult> {
     const validateType = (expectedTypes: AllowedTypes[], value: any): boolean => {
       for (const type of expectedTypes) {
         if (type === 'Any') return true;
 
         if (type === 'String' && typeof value === 'string') return true;
-        if (type === 'Number' && typeof value === 'number') return true;
+        if (type === 'Number' && (typeof value === 'number' || typeof value === 'bigint')) return true;
+        if (type === 'BigInt' && typeof value === 'bigint') return true;
+        if (type === 'Decimal' && typeof value === 'string' && /^-?(\d+(\.\d*)?|\.\d+)$/.test(value)) return true;
         if (type === 'Boolean' && typeof value === 'boolean') return true;
         if (type === 'Null' && value === null) return true;
         if (type === 'undefined' && value === undefined) return true;
         if (type === 'Date' && value instanceof Date) return true;
         if (type === 'Binary' && Buffer.isBuffer(value)) return true;
         if (type === 'Uint8Array' && value instanceof Uint8Array) return true;
+        if (type === 'Ref' && (Number.isInteger(value) && value >= 0 || typeof value === 'string')) return true;
 
 
         if (type === 'StringArray' || type === 'String[]' && Array.isArray(value) && value.every(v => typeof v === 'string')) return true;
         if (type === 'NumberArray' || type === 'Number[]' && Array.isArray(value) && value.every(v => typeof v === 'number')) return true;
         if (type === 'ObjectArray' || type === 'Object[]' && Array.isArray(value)) return true;
-        if (type === 'Array' || type === 'Any[]' || type === '[]') return Array.isArray(value);
+        if (type === 'Array' || type === 'AnyArray' || type === 'Any[]' || type === '[]') return Array.isArray(value);
 
 
         if (type === 'Object' && typeof value === 'object' && value !== null && !Array.isArray(value)) return true;
@@ -78,10 +85,12 @@ export class Validator {
 
     for (const [key, schemaDef] of Object.entries(schema)) {
       const value = data[key];
+      if (value === undefined && !required.has(`${path}${key}`)) continue;
+
       if (!validateType(schemaDef.type, value)) {
         this.errors.push({
           valid: false,
-          field: key,
+          field: `${location}${key}`,
           message: `Field ${key} does not match schema type: ${schemaDef.type.join(', ')}`,
         });
         continue;
@@ -89,18 +98,29 @@ export class Validator {
 
       if (schemaDef.properties && schemaDef.type.includes('Object')) {
         for (const [propKey, propSchema] of Object.entries(schemaDef.properties)) {
-          if (!(await this.validateSchema({ [propKey]: propSchema }, value, strict)).valid) {
-            this.errors.push({ valid: false, field: `${key}.${propKey}`, message: `Property ${propKey} validation failed` });
+          const errorCount = this.errors.length;
+          await this.validateSchema({ [propKey]: propSchema }, value, strict, required, `${path}${key}.`, `${location}${key}.`);
+          if (this.errors.length > errorCount) {
+            this.errors.push({ valid: false, field: `${location}${key}.${propKey}`, message: `Property ${propKey} validation failed` });
           }
         }
       }
 
-      if (schemaDef.items && Array.isArray(value)) {
+      const items = schemaDef.items;
+      if (items && !Array.isArray(items.type) && Array.isArray(value)) {
+        for (const [index, item] of value.entries()) {
+          const errorCount = this.errors.length;
+          await this.validateSchema(items as Record<string, SchemaDefinition>, item ?? {}, strict, required, `${path}${key}.`, `${location}${key}[${index}].`);
+          if (this.errors.length > errorCount) {
+            this.errors.push({ valid: false, field: `${location}${key}[${index}]`, message: `Item ${index} of ${key} validation failed` });
+          }
+        }
+      } else if (items && Array.isArray(value)) {
         for (const item of value) {
-          if (!validateType(schemaDef.items.type, item)) {
+          if (!validateType((items as SchemaDefinition).type, item)) {
             this.errors.push({
               valid: false,
-              field: key,
+              field: `${location}${key}`,
               message: `Array field ${key} contains invalid items`,
             });
           }
@@ -141,15 +161,16 @@ export class Validator {
         'notNull': ['Any'],
         'pattern': ['Any'],
         'isUnique': ['Any'], 
+        'primaryKey': ['String', 'Number', 'BigInt', 'Decimal'],
         'required': ['Any'], 
         'isNull': ['Any'], 
 
-        'min': ['Number', 'NumberArray', 'Number[]', 'Uint8Array'],
-        'max': ['Number', 'NumberArray', 'Number[]', 'Uint8Array'],
-        'isPositive': ['Number', 'NumberArray', 'Number[]', 'Uint8Array'],
-        'isNegative': ['Number', 'NumberArray', 'Number[]', 'Uint8Array'],
-        'isNumeric': ['NumberArray', 'Number[]', 'Number'],
-        'isInteger': ['Number', 'NumberArray', 'Number[]'],
+        'min': ['Number', 'BigInt', 'NumberArray', 'Number[]', 'Uint8Array'],
+        'max': ['Number', 'BigInt', 'NumberArray', 'Number[]', 'Uint8Array'],
+        'isPositive': ['Number', 'BigInt', 'NumberArray', 'Number[]', 'Uint8Array'],
+        'isNegative': ['Number', 'BigInt', 'NumberArray', 'Number[]', 'Uint8Array'],
+        'isNumeric': ['NumberArray', 'Number[]', 'Number', 'BigInt'],
+        'isInteger': ['Number', 'BigInt', 'NumberArray', 'Number[]'],
         'isFloat': ['Number', 'NumberArray', 'Number[]'],
 
 
@@ -168,11 +189,13 @@ export class Validator {
       const value = data[field];
 
       if (rules) {
-        for (const [rule, ruleValue] of Object.entries(rules)) {
+        for (const [rule, rawRuleValue] of Object.entries(rules)) {
+          const ruleValue = this.normalizeRuleValue(rule, rawRuleValue);
           if (!(rule in validationKeywords)) {
             this.errors.push({ valid: false, field, message: `Unknown validation rule: ${rule}` });
             continue;
           }
+          if (value === undefined && rule !== 'required' && rule !== 'primaryKey') continue;
 
           switch (rule) {
           case 'required':
@@ -180,6 +203,11 @@ export class Validator {
               this.errors.push({ valid: false, field, message: `${field} is required` });
             }
           break;
+          case 'primaryKey':
+            if (value === undefined || value === null) {
+              this.errors.push({ valid: false, field, message: `${field} is the primary key and must have a value` });
+            }
+          break;
           case 'isNull':
             if (value !== null) {
               this.errors.push({ valid: false, field, message: `${field} must be null` });
@@ -191,7 +219,7 @@ export class Validator {
             }
           break;
           case 'min':
-            if (typeof value === 'number') {
+            if (typeof value === 'number' || typeof value === 'bigint') {
               if (value < ruleValue) {
                 this.errors.push({ valid: false, field, message: `${field} should be at least ${ruleValue}` });
               }
@@ -214,7 +242,7 @@ export class Validator {
             }
           break;
           case 'max':
-            if (typeof value === 'number') {
+            if (typeof value === 'number' || typeof value === 'bigint') {
               if (value > ruleValue) {
                 this.errors.push({ valid: false, field, message: `${field} should not exceed ${ruleValue}` });
               }
@@ -393,7 +421,7 @@ export class Validator {
           }
           break;          
           case 'isPositive':
-            if (typeof value === 'number') {
+            if (typeof value === 'number' || typeof value === 'bigint') {
               if (value <= 0) {
                 this.errors.push({ valid: false, field, message: `${field} must be positive` });
               }
@@ -414,7 +442,7 @@ export class Validator {
             }
           break;
           case 'isNegative':
-            if (typeof value === 'number') {
+            if (typeof value === 'number' || typeof value === 'bigint') {
               if (value >= 0) {
                 this.errors.push({ valid: false, field, message: `${field} must be negative` });
               }
@@ -515,12 +543,6 @@ export class Validator {
                   }
                 }
               });
-            } else {
-              this.errors.push({
-                valid: false,
-                field,
-                message: `${field} is not a valid type for uniqueness check`,
-              });
             }
           break;
           case 'hasProperties':
@@ -659,8 +681,8 @@ export class Validator {
                   message: `${field} must contain only numeric values in all elements`,
                 });
               }
-            } else if (typeof value === 'number' || /^\d+$/.test(String(value))) {
-              if (typeof value !== 'number' && !/^\d+$/.test(String(value))) {
+            } else if (typeof value === 'number' || typeof value === 'bigint' || /^\d+$/.test(String(value))) {
+              if (typeof value !== 'number' && typeof value !== 'bigint' && !/^\d+$/.test(String(value))) {
                 this.errors.push({ valid: false, field, message: `${field} must be a numeric value` });
               }
             } else {
@@ -693,8 +715,8 @@ export class Validator {
                   message: `${field} must contain only integer values in all elements`,
                 });
               }
-            } else if (Number.isInteger(value)) {
-              if (!Number.isInteger(value)) {
+            } else if (Number.isInteger(value) || typeof value === 'bigint') {
+              if (!Number.isInteger(value) && typeof value !== 'bigint') {
                 this.errors.push({ valid: false, field, message: `${field} must be an integer` });
               }
             } else {
@@ -853,6 +875,13 @@ export class Validator {
       }
 
       for (const [nestedKey, nestedInput] of Object.entries(nestedRules)) {
+        if (Array.isArray(value)) {
+          for (const [i, item] of value.entries()) {
+            await this.validateFields({ [`${field}[${i}].${nestedKey}`]: nestedInput }, { [`${field}[${i}].${nestedKey}`]: item?.[nestedKey] }, strict);
+          }
+          continue;
+        }
+
         const nestedValue = value?.[nestedKey];
         if (Array.isArray(nestedValue)) {
           for (const [i, nestedItem] of nestedValue.entries()) {
@@ -866,4 +895,41 @@ export class Validator {
 
     return { valid: this.errors.length === 0, errors: this.errors };
   }
+
+  /**
+   * Collects the dot-paths of the fields that must be present, from their `required` and `primaryKey` rules.
+   *
+   * @param {Record<string, ValidationInput>} validateData - Validation rules for each field.
+   * @param {string} [prefix] - The dot-path of the object holding the fields.
+   * 
+   * @returns {Set<string>} - The dot-paths of the required fields.
+   */
+  private requiredPaths(validateData: Record<string, ValidationInput>, prefix: string = ''): Set<string> {
+    const paths = new Set<string>();
+    for (const [field, input] of Object.entries(validateData)) {
+      const { rules, ...nestedRules } = input ?? {};
+      if (rules?.required === true || rules?.primaryKey === true) paths.add(`${prefix}${field}`);
+      for (const path of this.requiredPaths(nestedRules, `${prefix}${field}.`)) paths.add(path);
+    }
+    return paths;
+  }
+
+  /**
+   * Normalizes rule values as produced by the `@validations` parser, which wraps list items as
+   * `{ value, type }` pairs and keeps patterns as plain strings.
+   *
+   * @param {string} rule - The name of the validation rule.
+   * @param {any} ruleValue - The raw rule value.
+   * 
+   * @returns {any} - The rule value in the shape expected by the validation checks.
+   */
+  private normalizeRuleValue(rule: string, ruleValue: any): any {
+    if (Array.isArray(ruleValue)) {
+      return ruleValue.map((item) => item && typeof item === 'object' && 'value' in item && 'type' in item ? item.value : item);
+    }
+    if (rule === 'pattern' && typeof ruleValue === 'string') {
+      return new RegExp(ruleValue);
+    }
+    return ruleValue;
+  }
 }
@@ -0,0 +1,333 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { Diagnostic } from '../types/diagnostics';
+import { Document, ParsedResult } from '../types/general';
+import { LoadedSection, RecordBlock, WriteResult, WriterConfig } from '../types/writer';
+import { SQONDiagnostics } from './diagnostics';
+import { SQONDocuments } from './documents';
+import { SQONReferences } from './references';
+import { SQONSerializer } from './serializer';
+
+export class SQONWriter {
+    private filePath: string;
+    private parse: WriterConfig['parse'];
+    private validate: WriterConfig['validate'];
+    private renumber: WriterConfig['renumber'];
+    private serializer: SQONSerializer;
+
+    /**
+     * Constructs a writer that edits the `@records` section of a SQON file in place.
+     * @param config - The file to edit, and the functions used to parse, validate and renumber its content.
+     */
+    constructor({ filePath, parse, validate, renumber }: WriterConfig) {
+        this.filePath = filePath;
+        this.parse = parse;
+        this.validate = validate;
+        this.renumber = renumber;
+        this.serializer = new SQONSerializer();
+    }
+
+    /**
+     * Appends a document to the end of the `@records` section.
+     * @param data - The document, as a plain object.
+     * @param id - The stable ID written as `@id=` in the document's header. Defaults to none.
+     * @param collection - The named collection to write to. Defaults to the unnamed one.
+     * @returns The result of the write.
+     * @throws {Error} If the ID contains characters other than letters, digits, `_`, `.`, `:` and `-`.
+     */
+    async insert(data: Record<string, any>, id?: string, collection?: string): Promise<WriteResult> {
+        if (id !== undefined && !/^[\w.:-]+$/.test(id)) {
+            throw new Error(`Invalid document ID '${id}'. IDs may only contain letters, digits, '_', '.', ':' and '-'.`);
+        }
+
+        const loaded = await this.load(collection);
+        if (!loaded) return this.missingSection(collection!);
+
+        const { schema, lines, blocks, recordsEnd } = loaded;
+        const docNumber = blocks.length;
+        const line = this.serializer.stringifyRecord(this.document(data, docNumber, schema, id), docNumber, schema);
+
+        return this.commit(this.splice(lines, recordsEnd, recordsEnd, [line]), docNumber, collection);
+    }
+
+    /**
+     * Merges a patch into an existing document. Fields set to `undefined` in the patch are removed, and the document keeps its `@id`.
+     * @param target - The number or the `@id` of the document to update.
+     * @param patch - The fields to change, as a plain object.
+     * @param collection - The named collection of the document. Defaults to the unnamed one.
+     * @returns The result of the write.
+     */
+    async update(target: number | string, patch: Record<string, any>, collection?: string): Promise<WriteResult> {
+        const loaded = await this.load(collection);
+        if (!loaded) return this.missingSection(collection!);
+
+        const { schema, records, lines, blocks } = loaded;
+        const record = this.find(records, target);
+        const index = record ? blocks.findIndex((block) => block.docNumber === record['#doc']) : -1;
+        if (index === -1 || !record) return this.notFound(target);
+
+        const docNumber = record['#doc'];
+        const document = this.document(this.merge(SQONDocuments.toObject(record), patch), docNumber, schema, blocks[index].id);
+        const line = this.serializer.stringifyRecord(document, docNumber, schema);
+        return this.commit(this.splice(lines, blocks[index].start, blocks[index].end, [line]), index, collection);
+    }
+
+    /**
+     * Removes a document. The documents after it are renumbered.
+     * The delete is rejected while other documents of the file reference the document, or reference a later document
+     * by its number, which the renumbering would change. References from other files are not checked.
+     * @param target - The number or the `@id` of the document to delete.
+     * @param collection - The named collection of the document. Defaults to the unnamed one.
+     * @returns The result of the write, with the deleted document.
+     */
+    async delete(target: number | string, collection?: string): Promise<WriteResult> {
+        const loaded = await this.load(collection);
+        if (!loaded) return this.missingSection(collection!);
+
+        const { records, lines, blocks, parsed } = loaded;
+        const document = this.find(records, target);
+        const docNumber = document?.['#doc'] ?? target;
+        const index = blocks.findIndex((block) => block.docNumber === docNumber);
+        if (index === -1) return this.notFound(target);
+
+        const errors = document && collection !== undefined ? this.brokenReferences(parsed, collection, document) : [];
+        if (errors.length > 0) {
+            return { success: false, docNumber: blocks[index].docNumber, document, errors, warnings: [] };
+        }
+
+        const updated = await this.renumber(this.splice(lines, blocks[index].start, blocks[index].end, []));
+        await this.writeAtomic(updated);
+
+        return { success: true, docNumber: blocks[index].docNumber, document, errors: [], warnings: [] };
+    }
+
+    /**
+     * Updates the first document whose fields equal those of `match`, or inserts a new document when none does.
+     * @param match - The fields identifying the document.
+     * @param data - The fields to write. A new document gets both `match` and `data`.
+     * @param collection - The named collection of the document. Defaults to the unnamed one.
+     * @returns The result of the write.
+     */
+    async upsert(match: Record<string, any>, data: Record<string, any>, collection?: string): Promise<WriteResult> {
+        const loaded = await this.load(collection);
+        if (!loaded) return this.missingSection(collection!);
+
+        const existing = loaded.records.find((record) => {
+            const object = SQONDocuments.toObject(record);
+            return Object.entries(match).every(([key, value]) => isDeepStrictEqual(object[key], value));
+        });
+
+        return existing
+            ? this.update(existing['#doc'], data, collection)
+            : this.insert({ ...match, ...data }, undefined, collection);
+    }
+
+    /**
+     * Reads and parses the file, and locates the documents of the `@records` section of a collection.
+     * A document runs from its `#n ->` line to its last content line before the next document,
+     * so the comments inside it are part of it and the comments after it are not.
+     * A file without an unnamed `@records` section gets an empty one, while a named collection must already have its section.
+     * @param collection - The named collection, or undefined for the unnamed one.
+     * @returns The file lines, the schema and the parsed documents of the collection, the line range of each document,
+     * the index of the `@end` line of the section and the whole parsed file, or null if the named collection has no `@records` section.
+     */
+    private async load(collection?: string): Promise<LoadedSection | null> {
+        let content = await fs.promises.readFile(this.filePath, 'utf8');
+        let lines = content.split('\n');
+        const isSection = (line: string) => {
+            const header = line.trim().match(/^@records(?:\s+([A-Za-z_][\w-]*))?$/);
+            return header !== null && (header[1] ?? null) === (collection ?? null);
+        };
+        let recordsStart = lines.findIndex(isSection);
+
+        if (recordsStart === -1 && collection !== undefined) return null;
+        if (recordsStart === -1) {
+            const lineEnding = content.includes('\r\n') ? '\r' : '';
+            content = content.replace(/\s*$/, '') + `${lineEnding}\n${lineEnding}\n@records${lineEnding}\n@end${lineEnding}\n`;
+            lines = content.split('\n');
+            recordsStart = lines.findIndex(isSection);
+        }
+
+        let recordsEnd = lines.findIndex((line, index) => index > recordsStart && line.trim() === '@end');
+        if (recordsEnd === -1) recordsEnd = lines.length;
+
+        const blocks: RecordBlock[] = [];
+        for (let index = recordsStart + 1; index < recordsEnd; index++) {
+            const line = lines[index].trim();
+
+            if (line.startsWith('#')) {
+                const match = line.match(/^#(\d+)(?:\s+@id=([\w.:-]+))?\s*->/);
+                blocks.push({ docNumber: match ? parseInt(match[1], 10) : null, id: match?.[2], start: index, end: index + 1 });
+            } else if (line && !line.startsWith('!#') && blocks.length > 0) {
+                blocks[blocks.length - 1].end = index + 1;
+            }
+        }
+
+        const parsed = await this.parse(content);
+        const section = collection === undefined ? parsed : parsed.collections?.[collection];
+        return { schema: section?.schema ?? {}, records: section?.records ?? [], lines, blocks, recordsEnd, parsed };
+    }
+
+    /**
+     * Renumbers the updated content and validates the written document, and writes the content if the document has no errors.
+     * Violations of the schema and validations are only errors in `*STRICT=TRUE` files. In other files they are warnings,
+     * which do not block the write and are returned with its result.
+     * @param updated - The updated file content.
+     * @param docNumber - The number of the written document once renumbered, which is its position in `@records`.
+     * @param collection - The named collection of the document, or undefined for the unnamed one.
+     * @returns The result of the write.
+     */
+    private async commit(updated: string, docNumber: number, collection: string | undefined): Promise<WriteResult> {
+        const renumbered = await this.renumber(updated);
+        const { document, errors, warnings } = await this.validate(renumbered, docNumber, collection ?? null);
+
+        if (errors.length > 0) {
+            return { success: false, docNumber, document, errors, warnings };
+        }
+
+        await this.writeAtomic(renumbered);
+        return { success: true, docNumber, document, errors: [], warnings };
+    }
+
+    /**
+     * Lists the references of the file that deleting a document of a collection would break: those pointing at the document,
+     * and those holding the number of a later document of the collection.
+     * @param parsed - The parsed file.
+     * @param collection - The named collection of the document.
+     * @param deleted - The document to delete.
+     * @returns A `DanglingReference` error for each of these references.
+     */
+    private brokenReferences(parsed: ParsedResult, collection: string, deleted: Document): Diagnostic[] {
+        const docNumber = deleted['#doc'];
+        const matches = (key: number | string) => key === deleted['@id'] || typeof key === 'number' && key >= docNumber;
+
+        return [parsed, ...Object.values(parsed.collections ?? {})].flatMap(({ schema, records }) => SQONReferences.referencing(schema, records, collection, matches))
+            .filter(({ document }) => document !== deleted)
+            .map(({ document, path, key }) => SQONDiagnostics.create('DanglingReference', {
+                line: null,
+                section: 'records',
+                document: document['#doc'],
+                field: path,
+                message: key === docNumber || key === deleted['@id']
+                    ? `Document #${document['#doc']}: ${path} references document ${typeof key === 'number' ? `#${key}` : `'${key}'`} of '${collection}', which cannot be deleted while it is referenced.`
+                    : `Document #${document['#doc']}: ${path} references document #${key} of '${collection}', which deleting document #${docNumber} would renumber.`,
+            }));
+    }
+
+    /**
+     * Writes the file through a temporary file in the same directory, then renames it over the original,
+     * so the file is never left half-written.
+     * @param content - The new file content.
+     */
+    private async writeAtomic(content: string): Promise<void> {
+        const directory = path.dirname(this.filePath);
+        const tempPath = path.join(directory, `.${path.basename(this.filePath)}.${process.pid}.${Date.now()}.tmp`);
+        const handle = await fs.promises.open(tempPath, 'w');
+
+        try {
+            await handle.writeFile(content, 'utf8');
+            await handle.sync();
+        } catch (error) {
+            await handle.close();
+            await fs.promises.rm(tempPath, { force: true });
+            throw error;
+        }
+
+        await handle.close();
+        try {
+            await fs.promises.rename(tempPath, this.filePath);
+        } catch (error) {
+            await fs.promises.rm(tempPath, { force: true });
+            throw error;
+        }
+    }
+
+    /**
+     * Replaces a range of lines.
+     * @param lines - The file lines.
+     * @param start - The index of the first line to replace.
+     * @param end - The index after the last line to replace.
+     * @param replacement - The new lines, without line endings.
+     * @returns The updated content.
+     */
+    private splice(lines: string[], start: number, end: number, replacement: string[]): string {
+        const lineEnding = lines.some((line) => line.endsWith('\r')) ? '\r' : '';
+        const updated = [...lines];
+        updated.splice(start, end - start, ...replacement.map((line) => line + lineEnding));
+        return updated.join('\n');
+    }
+
+    /**
+     * Applies a patch to a document's plain object.
+     * @param object - The current fields.
+     * @param patch - The fields to change. Fields set to `undefined` are removed.
+     * @returns The merged fields.
+     */
+    private merge(object: Record<string, any>, patch: Record<string, any>): Record<string, any> {
+        const merged = { ...object };
+        for (const [key, value] of Object.entries(patch)) {
+            if (value === undefined) {
+                delete merged[key];
+            } else {
+                merged[key] = value;
+            }
+        }
+        return merged;
+    }
+
+    /**
+     * Builds the result of an operation on a document that does not exist.
+     * @param target - The requested document number or `@id`.
+     * @returns The failed result.
+     */
+    private notFound(target: number | string): WriteResult {
+        const docNumber = typeof target === 'number' ? target : undefined;
+        const name = docNumber === undefined ? `with @id '${target}'` : `#${docNumber}`;
+        return {
+            success: false,
+            docNumber: docNumber ?? null,
+            document: null,
+            errors: [SQONDiagnostics.create('DocumentNotFound', { line: null, section: 'records', document: docNumber, message: `Document ${name} does not exist.` })],
+            warnings: [],
+        };
+    }
+
+    /**
+     * Builds the result of an operation on a named collection that has no `@records` section.
+     * @param collection - The collection name.
+     * @returns The failed result.
+     */
+    private missingSection(collection: string): WriteResult {
+        return {
+            success: false,
+            docNumber: null,
+            document: null,
+            errors: [SQONDiagnostics.create('MissingSection', { line: null, section: 'file', message: `Missing required section: '@records ${collection}'` })],
+            warnings: [],
+        };
+    }
+
+    /**
+     * Finds a parsed document by number or by `@id`.
+     * @param records - The parsed documents.
+     * @param target - The document number, or the `@id` of the document.
+     * @returns The document, or null if there is none.
+     */
+    private find(records: Document[], target: number | string): Document | null {
+        return records.find((record) => typeof target === 'number' ? record['#doc'] === target : record['@id'] === target) ?? null;
+    }
+
+    /**
+     * Converts a plain object into the document to write, with the `@id` of its header.
+     * @param data - The document, as a plain object.
+     * @param docNumber - The document number.
+     * @param schema - The parsed schema, used to type the values.
+     * @param id - The `@id` written in the header, if any.
+     * @returns The document.
+     */
+    private document(data: Record<string, any>, docNumber: number, schema: Record<string, any>, id: string | undefined): Document {
+        const document = SQONDocuments.fromObject(data, schema, docNumber);
+        return id === undefined ? document : { ...document, '@id': id };
+    }
+}
@@ -0,0 +1,547 @@
+import { SQONDocuments } from './documents';
+import { BinaryEncoding, Document } from '../types/general';
+import { XmlDocument, XmlElement, XmlOptions, ConvertedRecord } from '../types/convertor';
+import { SchemaDefinition } from '../types/validator';
+
+type XmlReader = { source: string; index: number; lineStarts: number[] };
+
+const entities: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+const xsiNamespace = 'http://www.w3.org/2001/XMLSchema-instance';
+
+const namePattern = /[\p{L}_:][\p{L}\p{N}_.:-]*/uy;
+
+export class SQONXml {
+    private root: string;
+    private record: string;
+    private attributes: 'fields' | 'ignore';
+    private attributeFields: string[];
+    private textField: string;
+    private indent: string;
+    private binaryEncoding: BinaryEncoding;
+
+    /**
+     * Constructs a reader and writer for XML records.
+     * @param options - How records and fields map to elements and attributes.
+     * @param options.root - The name of the root element when writing. Defaults to `records`.
+     * @param options.record - The name of the element of each record when writing. Defaults to `record`.
+     * @param options.attributes - `fields` to read the attributes of elements as fields, or `ignore` to skip them. Defaults to `fields`.
+     * @param options.attributeFields - The scalar fields written as attributes of the record element rather than as child elements.
+     * @param options.textField - The field holding the text of an element read as an object because of its attributes. Defaults to `value`.
+     * @param options.indent - Number of spaces used to indent nested elements. Defaults to 2.
+     * @param binaryEncoding - How `Binary` values are written: `<Buffer ...>`, `base64:` or `hex:`. Defaults to `bytes`.
+     * @throws {Error} If an element name is not a valid XML name, or if `doc` or `id` is written as an attribute field.
+     */
+    constructor({ root = 'records', record = 'record', attributes = 'fields', attributeFields = [], textField = 'value', indent = 2 }: XmlOptions = {}, binaryEncoding: BinaryEncoding = 'bytes') {
+        for (const name of [root, record, ...attributeFields]) {
+            if (!SQONXml.isName(name)) throw new Error(`Invalid XML name "${name}".`);
+        }
+        const reserved = attributeFields.find((field) => field === 'doc' || field === 'id');
+        if (reserved) {
+            throw new Error(`The "${reserved}" attribute of record elements is reserved for the document ${reserved === 'doc' ? 'number' : 'ID'}.`);
+        }
+
+        this.root = root;
+        this.record = record;
+        this.attributes = attributes;
+        this.attributeFields = attributeFields;
+        this.textField = textField;
+        this.indent = ' '.repeat(indent);
+        this.binaryEncoding = binaryEncoding;
+    }
+
+    /**
+     * Parses an XML document into its root element and the processing instructions around it.
+     * Comments, the XML declaration and the document type declaration are skipped, CDATA sections are read as text,
+     * and the predefined and numeric character references are decoded. Namespaces are not resolved.
+     * @param text - The XML text.
+     * @returns The root element and the processing instructions outside of it.
+     * @throws {Error} If the text is not well-formed XML, with the line of the error.
+     */
+    static parse(text: string): XmlDocument {
+        const source = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+        const reader: XmlReader = { source, index: 0, lineStarts: [0] };
+        for (let index = 0; index < source.length; index++) {
+            if (source[index] === '\n') reader.lineStarts.push(index + 1);
+        }
+
+        const document: { root: XmlElement | null; instructions: XmlDocument['instructions'] } = { root: null, instructions: [] };
+        while (true) {
+            SQONXml.skipSpaces(reader);
+            if (reader.index >= source.length) break;
+
+            if (source.startsWith('<?', reader.index)) {
+                const instruction = SQONXml.instruction(reader);
+                if (instruction.target.toLowerCase() !== 'xml') document.instructions.push(instruction);
+            } else if (source.startsWith('<!--', reader.index)) {
+                SQONXml.skipPast(reader, '-->', 'comment');
+            } else if (source.startsWith('<!DOCTYPE', reader.index)) {
+                SQONXml.skipDoctype(reader);
+            } else if (source[reader.index] === '<') {
+                if (document.root) SQONXml.fail(reader, 'A document has a single root element.');
+                document.root = SQONXml.element(reader);
+            } else {
+                SQONXml.fail(reader, 'Text outside of the root element.');
+            }
+        }
+
+        if (!document.root) SQONXml.fail(reader, 'Missing root element.');
+        return { root: document.root, instructions: document.instructions };
+    }
+
+    /**
+     * Writes documents as an XML document with one element per record, holding the document number in its `doc` attribute
+     * and its ID in its `id` attribute. Object fields become nested elements, array elements become repeated elements
+     * and `Null` values become elements with `xsi:nil="true"`.
+     * @param documents - The parsed documents.
+     * @param header - SQON text with the schema and validations, embedded in a `<?sqon-schema ... ?>` processing instruction.
+     * @returns The XML text.
+     * @throws {Error} If the header contains `?>`, which cannot be written inside a processing instruction.
+     */
+    write(documents: Document[], header?: string): string {
+        const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+        if (header !== undefined) {
+            if (header.includes('?>')) throw new Error('The schema cannot be embedded in XML because it contains "?>".');
+            lines.push(`<?sqon-schema\n${header}\n?>`);
+        }
+
+        lines.push(`<${this.root} xmlns:xsi="${xsiNamespace}">`);
+        for (const document of documents) {
+            const attributes = [`doc="${document['#doc']}"`];
+            if (document['@id'] !== undefined) attributes.push(`id="${SQONXml.escape(document['@id'], true)}"`);
+
+            const children: string[] = [];
+            for (const [key, value] of Object.entries(SQONDocuments.toObject(document))) {
+                if (this.attributeFields.includes(key) && SQONXml.isScalar(value)) {
+                    attributes.push(`${key}="${SQONXml.escape(SQONDocuments.toText(value, this.binaryEncoding), true)}"`);
+                } else {
+                    children.push(...this.element(key, value, 2));
+                }
+            }
+
+            const tag = `${this.indent}<${this.record} ${attributes.join(' ')}`;
+            lines.push(...children.length === 0 ? [`${tag}/>`] : [`${tag}>`, ...children, `${this.indent}</${this.record}>`]);
+        }
+        lines.push(`</${this.root}>`);
+
+        return lines.join('\n') + '\n';
+    }
+
+    /**
+     * Reads the records of a parsed XML document, the reverse of `write`: every child element of the root is a record.
+     * Fields are typed by the schema, so that a single element of an array field is read as an array and an empty element
+     * as an empty array or object. Without a schema, repeated elements become arrays, elements with children or attributes
+     * become objects, and text is typed from itself.
+     * @param root - The root element.
+     * @param schema - The parsed schema of the records.
+     * @returns The records, as plain objects, with the ID of each record element.
+     * @throws {Error} With every value that does not convert to the type of its field, by record, field and line.
+     */
+    read(root: XmlElement, schema: Record<string, any> = {}): ConvertedRecord[] {
+        const errors: string[] = [];
+        const records = root.children.map((element, index) => {
+            const path = `record ${index + 1}`;
+            const id = element.attributes.id;
+            if (id !== undefined && !/^[\w.:-]+$/.test(id)) {
+                errors.push(`${path} (line ${element.line}): Invalid document ID "${id}".`);
+            }
+            return { data: this.objectValue(element, schema, path, errors, true), id };
+        });
+
+        if (errors.length > 0) {
+            throw new Error(`Invalid XML values:\n${errors.join('\n')}`);
+        }
+        return records;
+    }
+
+    /**
+     * Writes a field as elements.
+     * @param name - The name of the field.
+     * @param value - The plain value of the field.
+     * @param depth - The nesting depth, used for indentation.
+     * @returns The lines of the elements, none for an undefined value and one per element for an array.
+     */
+    private element(name: string, value: any, depth: number): string[] {
+        const padding = this.indent.repeat(depth);
+
+        if (value === undefined) return [];
+        if (value === null) return [`${padding}<${name} xsi:nil="true"/>`];
+        if (Array.isArray(value)) {
+            return value.length === 0 ? [`${padding}<${name}/>`] : value.flatMap((element) => this.arrayElement(name, element, depth));
+        }
+        if (SQONXml.isScalar(value)) {
+            return [`${padding}<${name}>${SQONXml.escape(SQONDocuments.toText(value, this.binaryEncoding), false)}</${name}>`];
+        }
+
+        const children = Object.entries(value).flatMap(([key, field]) => this.element(key, field, depth + 1));
+        return children.length === 0 ? [`${padding}<${name}/>`] : [`${padding}<${name}>`, ...children, `${padding}</${name}>`];
+    }
+
+    /**
+     * Writes an element of an array. Arrays nested in arrays become an element with an `item` child per element.
+     * @param name - The name of the array field.
+     * @param value - The plain value of the element.
+     * @param depth - The nesting depth, used for indentation.
+     * @returns The lines of the element.
+     */
+    private arrayElement(name: string, value: any, depth: number): string[] {
+        if (!Array.isArray(value)) return this.element(name, value, depth);
+
+        const padding = this.indent.repeat(depth);
+        const items = value.flatMap((item) => this.arrayElement('item', item, depth + 1));
+        return items.length === 0 ? [`${padding}<${name}/>`] : [`${padding}<${name}>`, ...items, `${padding}</${name}>`];
+    }
+
+    /**
+     * Reads an element as an object, from its attributes and its child elements grouped by name.
+     * @param element - The element.
+     * @param schema - The schema of the fields of the object.
+     * @param path - The record and field path, used in error messages.
+     * @param errors - The conversion errors found so far.
+     * @param isRecord - Whether the element is a record element, whose `doc` and `id` attributes are not fields.
+     * @returns The plain object.
+     */
+    private objectValue(element: XmlElement, schema: Record<string, any>, path: string, errors: string[], isRecord: boolean): Record<string, any> {
+        const value: Record<string, any> = {};
+        const separator = isRecord ? ', ' : '.';
+
+        for (const [name, text] of Object.entries(element.attributes)) {
+            if (!this.isFieldAttribute(name) || isRecord && (name === 'doc' || name === 'id')) continue;
+            const field = this.textValue(text, schema[name], `${path}${separator}${name}`, element.line, errors);
+            if (field !== undefined) value[name] = field;
+        }
+
+        const groups = new Map<string, XmlElement[]>();
+        for (const child of element.children) {
+            groups.set(child.name, [...groups.get(child.name) ?? [], child]);
+        }
+
+        for (const [name, elements] of groups) {
+            const definition: SchemaDefinition | undefined = schema[name];
+            const fieldPath = `${path}${separator}${name}`;
+
+            if (SQONXml.isArrayDefinition(definition) || !definition && elements.length > 1) {
+                const itemDefinition = definition && SQONDocuments.itemDefinition(definition);
+                value[name] = elements.length === 1 && definition && this.isEmpty(elements[0])
+                    ? []
+                    : elements.map((child) => this.elementValue(child, itemDefinition, fieldPath, errors));
+            } else if (elements.length > 1) {
+                errors.push(`${fieldPath} (line ${elements[1].line}): Repeated ${elements.length} times in a field that is not an array.`);
+            } else {
+                const field = this.elementValue(elements[0], definition, fieldPath, errors);
+                if (field !== undefined) value[name] = field;
+            }
+        }
+
+        if (element.children.length === 0 && element.text.trim() !== '') {
+            const text = this.textValue(element.text, schema[this.textField], `${path}${separator}${this.textField}`, element.line, errors);
+            if (text !== undefined) value[this.textField] = text;
+        }
+        return value;
+    }
+
+    /**
+     * Reads an element as the value of a field or of an array element.
+     * @param element - The element.
+     * @param definition - The schema definition of the value, if any.
+     * @param path - The record and field path, used in error messages.
+     * @param errors - The conversion errors found so far.
+     * @returns The plain value, or undefined for an empty element of a scalar field.
+     */
+    private elementValue(element: XmlElement, definition: SchemaDefinition | undefined, path: string, errors: string[]): any {
+        if (element.attributes['xsi:nil'] === 'true') return null;
+
+        const types: string[] = definition?.type ?? [];
+        if (SQONXml.isArrayDefinition(definition)) {
+            const itemDefinition = SQONDocuments.itemDefinition(definition);
+            return element.children.map((child) => this.elementValue(child, itemDefinition, path, errors));
+        }
+
+        const isUntyped = types.length === 0 || types.includes('Any');
+        const hasFields = element.children.length > 0 || Object.keys(element.attributes).some((name) => this.isFieldAttribute(name));
+        if (types.includes('Object') && (hasFields || element.text.trim() === '') || isUntyped && hasFields) {
+            return this.objectValue(element, definition?.properties ?? {}, path, errors, false);
+        }
+
+        return this.textValue(element.text, definition, path, element.line, errors);
+    }
+
+    /**
+     * Reads the text of an element or attribute as a value of one of the types of its field.
+     * @param text - The text.
+     * @param definition - The schema definition of the field, if any.
+     * @param path - The record and field path, used in error messages.
+     * @param line - The line of the element.
+     * @param errors - The conversion errors found so far, to which a failed conversion is added.
+     * @returns The plain value, or undefined for empty text or text that does not convert.
+     */
+    private textValue(text: string, definition: SchemaDefinition | undefined, path: string, line: number, errors: string[]): any {
+        try {
+            return SQONDocuments.fromText(text, definition);
+        } catch (error) {
+            errors.push(`${path} (line ${line}): ${(error as Error).message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Checks whether an attribute is read as a field, rather than being a namespace declaration or an `xsi:` attribute.
+     * @param name - The name of the attribute.
+     * @returns True if the attribute is a field.
+     */
+    private isFieldAttribute(name: string): boolean {
+        return this.attributes === 'fields' && !/^(xmlns(:|$)|xsi:)/.test(name);
+    }
+
+    /**
+     * Checks whether an element holds nothing: no children, no text and no field attributes.
+     * @param element - The element.
+     * @returns True if the element is empty.
+     */
+    private isEmpty(element: XmlElement): boolean {
+        return element.children.length === 0 && element.text.trim() === '' && !Object.keys(element.attributes).some((name) => this.isFieldAttribute(name));
+    }
+
+    /**
+     * Reads an element, with its attributes, text and child elements, up to its closing tag.
+     * @param reader - The reader, at the `<` of the start tag.
+     * @returns The element.
+     */
+    private static element(reader: XmlReader): XmlElement {
+        const line = SQONXml.line(reader);
+        reader.index++;
+        const name = SQONXml.name(reader);
+        const element: XmlElement = { name, attributes: {}, children: [], text: '', line };
+
+        while (true) {
+            const hasSpace = SQONXml.skipSpaces(reader);
+            if (reader.source.startsWith('/>', reader.index)) {
+                reader.index += 2;
+                return element;
+            }
+            if (reader.source[reader.index] === '>') {
+                reader.index++;
+                break;
+            }
+            if (!hasSpace) SQONXml.fail(reader, `Expected whitespace, ">" or "/>" in the start tag of <${name}>.`);
+
+            const attribute = SQONXml.name(reader);
+            SQONXml.skipSpaces(reader);
+            SQONXml.expect(reader, '=');
+            SQONXml.skipSpaces(reader);
+            if (attribute in element.attributes) SQONXml.fail(reader, `Duplicate attribute "${attribute}" in <${name}>.`);
+            element.attributes[attribute] = SQONXml.attributeValue(reader);
+        }
+
+        while (true) {
+            const { source } = reader;
+            if (reader.index >= source.length) {
+                reader.index = reader.lineStarts[line - 1];
+                SQONXml.fail(reader, `Unclosed element <${name}>.`);
+            }
+
+            if (source.startsWith('</', reader.index)) {
+                reader.index += 2;
+                const closing = SQONXml.name(reader);
+                SQONXml.skipSpaces(reader);
+                SQONXml.expect(reader, '>');
+                if (closing !== name) SQONXml.fail(reader, `Closing tag </${closing}> does not match <${name}>.`);
+                return element;
+            }
+
+            if (source.startsWith('<!--', reader.index)) {
+                SQONXml.skipPast(reader, '-->', 'comment');
+            } else if (source.startsWith('<![CDATA[', reader.index)) {
+                const start = reader.index + '<![CDATA['.length;
+                SQONXml.skipPast(reader, ']]>', 'CDATA section');
+                element.text += source.slice(start, reader.index - 3);
+            } else if (source.startsWith('<?', reader.index)) {
+                SQONXml.instruction(reader);
+            } else if (source[reader.index] === '<') {
+                element.children.push(SQONXml.element(reader));
+            } else {
+                const end = source.indexOf('<', reader.index);
+                const raw = source.slice(reader.index, end === -1 ? source.length : end);
+                element.text += SQONXml.decode(reader, raw);
+                reader.index += raw.length;
+            }
+        }
+    }
+
+    /**
+     * Reads a quoted attribute value. Its line breaks and tabs are normalized to spaces, as XML requires.
+     * @param reader - The reader, at the opening quote.
+     * @returns The decoded value.
+     */
+    private static attributeValue(reader: XmlReader): string {
+        const quote = reader.source[reader.index];
+        if (quote !== '"' && quote !== "'") SQONXml.fail(reader, 'Expected a quoted attribute value.');
+
+        const end = reader.source.indexOf(quote, reader.index + 1);
+        if (end === -1) SQONXml.fail(reader, 'Unclosed attribute value.');
+        const raw = reader.source.slice(reader.index + 1, end);
+        if (raw.includes('<')) SQONXml.fail(reader, 'Attribute values cannot contain "<".');
+
+        const value = SQONXml.decode(reader, raw.replace(/[\t\n]/g, ' '));
+        reader.index = end + 1;
+        return value;
+    }
+
+    /**
+     * Reads a processing instruction.
+     * @param reader - The reader, at `<?`.
+     * @returns The target and content of the instruction.
+     */
+    private static instruction(reader: XmlReader): { target: string; content: string } {
+        reader.index += 2;
+        const target = SQONXml.name(reader);
+        const start = reader.index;
+        SQONXml.skipPast(reader, '?>', 'processing instruction');
+        return { target, content: reader.source.slice(start, reader.index - 2).replace(/^\s+|\s+$/g, '') };
+    }
+
+    /**
+     * Skips a document type declaration, including its internal subset.
+     * @param reader - The reader, at `<!DOCTYPE`.
+     */
+    private static skipDoctype(reader: XmlReader): void {
+        let depth = 0;
+        for (let index = reader.index; index < reader.source.length; index++) {
+            const char = reader.source[index];
+            if (char === '[') depth++;
+            if (char === ']') depth--;
+            if (char === '>' && depth === 0) {
+                reader.index = index + 1;
+                return;
+            }
+        }
+        SQONXml.fail(reader, 'Unclosed document type declaration.');
+    }
+
+    /**
+     * Moves the reader past the next occurrence of a delimiter.
+     * @param reader - The reader.
+     * @param delimiter - The delimiter that ends the construct.
+     * @param construct - The name of the construct, used in the error message.
+     */
+    private static skipPast(reader: XmlReader, delimiter: string, construct: string): void {
+        const end = reader.source.indexOf(delimiter, reader.index);
+        if (end === -1) SQONXml.fail(reader, `Unclosed ${construct}.`);
+        reader.index = end + delimiter.length;
+    }
+
+    /**
+     * Skips whitespace.
+     * @param reader - The reader.
+     * @returns True if any whitespace was skipped.
+     */
+    private static skipSpaces(reader: XmlReader): boolean {
+        const start = reader.index;
+        while (/[ \t\n]/.test(reader.source[reader.index] ?? '')) reader.index++;
+        return reader.index > start;
+    }
+
+    /**
+     * Reads an element or attribute name.
+     * @param reader - The reader.
+     * @returns The name.
+     */
+    private static name(reader: XmlReader): string {
+        namePattern.lastIndex = reader.index;
+        const match = namePattern.exec(reader.source);
+        if (!match) SQONXml.fail(reader, 'Expected a name.');
+        reader.index += match[0].length;
+        return match[0];
+    }
+
+    /**
+     * Moves the reader past an expected character.
+     * @param reader - The reader.
+     * @param char - The expected character.
+     */
+    private static expect(reader: XmlReader, char: string): void {
+        if (reader.source[reader.index] !== char) SQONXml.fail(reader, `Expected "${char}".`);
+        reader.index++;
+    }
+
+    /**
+     * Decodes the predefined entities and the character references of text.
+     * @param reader - The reader, at the start of the text, used in error messages.
+     * @param raw - The text, as written.
+     * @returns The decoded text.
+     */
+    private static decode(reader: XmlReader, raw: string): string {
+        return raw.replace(/&([^;&\s]*);?/g, (reference, name: string) => {
+            const code = /^#x[0-9a-f]+$/i.test(name) ? parseInt(name.slice(2), 16) : /^#\d+$/.test(name) ? parseInt(name.slice(1), 10) : null;
+            if (reference.endsWith(';') && code !== null && code <= 0x10ffff) return String.fromCodePoint(code);
+            if (reference.endsWith(';') && name in entities) return entities[name];
+            return SQONXml.fail(reader, `Invalid entity reference "${reference}".`);
+        });
+    }
+
+    /**
+     * Escapes text for an element or an attribute value.
+     * @param text - The text.
+     * @param isAttribute - Whether the text is an attribute value, which also escapes quotes, line breaks and tabs.
+     * @returns The escaped text.
+     */
+    private static escape(text: string, isAttribute: boolean): string {
+        const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r/g, '&#13;');
+        return isAttribute ? escaped.replace(/"/g, '&quot;').replace(/\n/g, '&#10;').replace(/\t/g, '&#9;') : escaped;
+    }
+
+    /**
+     * Finds the line of the reader's position.
+     * @param reader - The reader.
+     * @returns The 1-based line number.
+     */
+    private static line(reader: XmlReader): number {
+        let low = 0;
+        let high = reader.lineStarts.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (reader.lineStarts[middle] <= reader.index) low = middle;
+            else high = middle - 1;
+        }
+        return low + 1;
+    }
+
+    /**
+     * Throws a parse error at the reader's position.
+     * @param reader - The reader.
+     * @param message - The error message.
+     * @throws {Error} Always, with the line of the error.
+     */
+    private static fail(reader: XmlReader, message: string): never {
+        throw new Error(`Invalid XML at line ${SQONXml.line(reader)}: ${message}`);
+    }
+
+    /**
+     * Checks whether a schema definition is one of an array field, other than `Uint8Array`, whose bytes are written as one literal.
+     * @param definition - The schema definition.
+     * @returns True if the field holds an array.
+     */
+    private static isArrayDefinition(definition?: SchemaDefinition): boolean {
+        return (definition?.type ?? []).some((type) => type !== 'Uint8Array' && (type.endsWith('Array') || type.endsWith('[]')));
+    }
+
+    /**
+     * Checks whether a plain value is written as text rather than as nested elements.
+     * @param value - The plain value.
+     * @returns True for numbers, strings, booleans, dates and bytes.
+     */
+    private static isScalar(value: any): boolean {
+        return value !== null && value !== undefined && (typeof value !== 'object' || value instanceof Date || value instanceof Uint8Array);
+    }
+
+    /**
+     * Checks whether a string is a valid XML name.
+     * @param name - The name.
+     * @returns True if the name is valid.
+     */
+    private static isName(name: string): boolean {
+        namePattern.lastIndex = 0;
+        const match = namePattern.exec(name);
+        return match !== null && match[0] === name;
+    }
+}
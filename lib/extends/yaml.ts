@@ -0,0 +1,838 @@
+import { SQONLiterals } from './literals';
+
+const escapes: Record<string, string> = {
+    '0': '\0',
+    'a': '\x07',
+    'b': '\b',
+    't': '\t',
+    '\t': '\t',
+    'n': '\n',
+    'v': '\v',
+    'f': '\f',
+    'r': '\r',
+    'e': '\x1b',
+    ' ': ' ',
+    '"': '"',
+    '/': '/',
+    '\\': '\\',
+    'N': '\x85',
+    '_': '\xa0',
+    'L': '\u2028',
+    'P': '\u2029',
+};
+
+const hexEscapes: Record<string, number> = { 'x': 2, 'u': 4, 'U': 8 };
+
+export class SQONYaml {
+    private lines: string[];
+    private position: number;
+    private end: number;
+    private anchors: Map<string, any>;
+
+    /**
+     * Constructs a reader for one document of a YAML stream.
+     * @param lines - The lines of the whole stream.
+     * @param start - The index of the first line of the document.
+     * @param end - The index after the last line of the document.
+     */
+    private constructor(lines: string[], start: number, end: number) {
+        this.lines = lines;
+        this.position = start;
+        this.end = end;
+        this.anchors = new Map();
+    }
+
+    /**
+     * Parses a YAML stream into its documents.
+     * Block and flow collections, plain, quoted and block scalars, anchors and aliases are supported.
+     * Timestamps become `Date` values, `!!binary` scalars become `Buffer` values and integers too large for a JavaScript number become `bigint` values.
+     * @param text - The YAML text.
+     * @returns The documents, in order. A stream without content has no documents.
+     * @throws {Error} If the text is not valid YAML, with the line of the error.
+     */
+    static parse(text: string): any[] {
+        const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+        const documents: any[] = [];
+        let start = 0;
+        let explicit = false;
+
+        const close = (end: number) => {
+            const hasContent = lines.slice(start, end).some((line) => !SQONYaml.isBlank(line));
+            if (hasContent || explicit) documents.push(new SQONYaml(lines, start, end).document());
+        };
+
+        for (let index = 0; index < lines.length; index++) {
+            const line = lines[index];
+
+            if (/^%/.test(line) && !explicit && lines.slice(start, index).every((previous) => SQONYaml.isBlank(previous))) {
+                lines[index] = '';
+            } else if (/^---(\s|$)/.test(line)) {
+                close(index);
+                lines[index] = line.slice(3).trimStart();
+                start = index;
+                explicit = true;
+            } else if (/^\.\.\.(\s|$)/.test(line)) {
+                close(index);
+                start = index + 1;
+                explicit = false;
+            }
+        }
+        close(lines.length);
+
+        return documents;
+    }
+
+    /**
+     * Writes values as a YAML stream, one document per value, using block collections.
+     * `Date` values are written as timestamps, `Buffer` and `Uint8Array` values as `!!binary` scalars,
+     * multi-line strings as literal block scalars, and `undefined` fields are left out.
+     * @param documents - The documents to write.
+     * @returns The YAML text.
+     */
+    static stringify(documents: any[]): string {
+        return documents.map((document) => SQONYaml.emit(document).join('\n') + '\n').join('---\n');
+    }
+
+    /**
+     * Parses the document, which must hold a single node.
+     * @returns The value of the document.
+     */
+    private document(): any {
+        this.skipBlank();
+        const value = this.position < this.end ? this.block(-1, false) : null;
+        this.skipBlank();
+        if (this.position < this.end) this.fail('Unexpected content after the end of the document');
+        return value;
+    }
+
+    /**
+     * Parses the block node starting on the next line with content, if it is indented more than its parent.
+     * @param parentIndent - The indentation of the parent node.
+     * @param sameIndentSequence - Whether a sequence may start at the parent's indentation, as the value of a mapping entry.
+     * @returns The value of the node, or null if there is no node.
+     */
+    private block(parentIndent: number, sameIndentSequence: boolean): any {
+        this.skipBlank();
+        if (this.position >= this.end) return null;
+
+        const line = this.lines[this.position];
+        const indent = SQONYaml.indent(line);
+        const content = line.slice(indent);
+
+        if (sameIndentSequence && indent === parentIndent && SQONYaml.isSequenceEntry(content)) return this.sequence(indent);
+        if (indent <= parentIndent) return null;
+        if (SQONYaml.isSequenceEntry(content)) return this.sequence(indent);
+        if (SQONYaml.mappingKey(content)) return this.mapping(indent);
+        return this.node(content, parentIndent, sameIndentSequence);
+    }
+
+    /**
+     * Parses a block mapping whose keys are at the given indentation. `<<` merge keys add the fields of the mappings they hold.
+     * @param indent - The indentation of the keys.
+     * @returns The mapping.
+     */
+    private mapping(indent: number): Record<string, any> {
+        const mapping: Record<string, any> = {};
+
+        for (this.skipBlank(); this.position < this.end; this.skipBlank()) {
+            const line = this.lines[this.position];
+            const lineIndent = SQONYaml.indent(line);
+            if (lineIndent < indent) break;
+            if (lineIndent > indent) this.fail('Bad indentation of a mapping entry');
+
+            const entry = SQONYaml.mappingKey(line.slice(indent));
+            if (!entry) {
+                if (SQONYaml.isSequenceEntry(line.slice(indent))) break;
+                this.fail('Expected a mapping key');
+            }
+            const value = this.node(entry.rest, indent, true);
+            if (entry.key === '<<' && value !== null && typeof value === 'object') {
+                for (const source of Array.isArray(value) ? value : [value]) {
+                    for (const [key, inherited] of Object.entries(source ?? {})) {
+                        if (!(key in mapping)) mapping[key] = inherited;
+                    }
+                }
+            } else {
+                mapping[entry.key] = value;
+            }
+        }
+
+        return mapping;
+    }
+
+    /**
+     * Parses a block sequence whose entries are at the given indentation.
+     * An entry holding `key: value` or another `- ` entry on the same line starts a nested collection.
+     * @param indent - The indentation of the `-` indicators.
+     * @returns The sequence.
+     */
+    private sequence(indent: number): any[] {
+        const sequence: any[] = [];
+
+        for (this.skipBlank(); this.position < this.end; this.skipBlank()) {
+            const line = this.lines[this.position];
+            const lineIndent = SQONYaml.indent(line);
+            const content = line.slice(lineIndent);
+            if (lineIndent < indent || !SQONYaml.isSequenceEntry(content)) break;
+            if (lineIndent > indent) this.fail('Bad indentation of a sequence entry');
+
+            const rest = content.slice(1);
+            const item = rest.trimStart();
+
+            if (item === '' || item.startsWith('#')) {
+                this.position++;
+                sequence.push(this.block(indent, false));
+            } else if (SQONYaml.isSequenceEntry(item) || SQONYaml.mappingKey(item)) {
+                this.lines[this.position] = ' '.repeat(indent + 1 + rest.length - item.length) + item;
+                sequence.push(this.block(indent, false));
+            } else {
+                sequence.push(this.node(item, indent, false));
+            }
+        }
+
+        return sequence;
+    }
+
+    /**
+     * Parses the node that starts with `text` on the current line, with its tag and anchor, and moves past it.
+     * @param text - The text of the node on the current line, after its key or `-` indicator.
+     * @param parentIndent - The indentation of the parent node. Continuation lines must be indented more.
+     * @param sameIndentSequence - Whether a sequence on the next lines may start at the parent's indentation.
+     * @returns The value of the node.
+     */
+    private node(text: string, parentIndent: number, sameIndentSequence: boolean): any {
+        let tag: string | null = null;
+        let anchor: string | null = null;
+
+        for (let match; (match = text.match(/^(!<[^>]*>|![^\s]*|&[^\s]+)(\s+|$)/));) {
+            if (match[1].startsWith('&')) {
+                anchor = match[1].slice(1);
+            } else {
+                tag = match[1].replace(/^!<tag:yaml\.org,2002:(\w+)>$/, '!!$1');
+            }
+            text = text.slice(match[0].length);
+        }
+
+        let value: any;
+        const first = text.charAt(0);
+
+        if (first === '*') {
+            const name = text.match(/^\*([^\s]+)\s*(#.*)?$/)?.[1];
+            if (!name || !this.anchors.has(name)) this.fail(`Unknown alias '${text}'`);
+            this.position++;
+            return this.anchors.get(name!);
+        } else if (text === '' || first === '#') {
+            this.position++;
+            value = this.block(parentIndent, sameIndentSequence);
+        } else if (first === '|' || first === '>') {
+            value = SQONYaml.scalar(this.blockScalar(text, parentIndent), true, tag, this.position);
+        } else if (first === '[' || first === '{') {
+            value = this.flowCollection(text, parentIndent);
+        } else if (first === '"' || first === "'") {
+            value = SQONYaml.scalar(this.quoted(text, parentIndent), true, tag, this.position);
+        } else {
+            value = SQONYaml.scalar(this.plain(text, parentIndent), false, tag, this.position);
+        }
+
+        if (anchor) this.anchors.set(anchor, value);
+        return value;
+    }
+
+    /**
+     * Reads a literal (`|`) or folded (`>`) block scalar, with its chomping and indentation indicators.
+     * @param header - The indicator line, such as `|-` or `>2`.
+     * @param parentIndent - The indentation of the parent node.
+     * @returns The content of the scalar.
+     */
+    private blockScalar(header: string, parentIndent: number): string {
+        const match = header.match(/^([|>])([1-9]?)([+-]?)([1-9]?)\s*(#.*)?$/);
+        if (!match) this.fail(`Invalid block scalar header '${header}'`);
+
+        const [, style, before, chomping, after] = match!;
+        const explicitIndent = Number(before || after || 0);
+        let indent = explicitIndent ? Math.max(parentIndent, 0) + explicitIndent : 0;
+        const lines: string[] = [];
+
+        for (this.position++; this.position < this.end; this.position++) {
+            const line = this.lines[this.position];
+            if (line.trim() === '') {
+                lines.push('');
+                continue;
+            }
+
+            const lineIndent = SQONYaml.indent(line);
+            if (!indent) indent = lineIndent;
+            if (lineIndent < indent || lineIndent <= parentIndent) break;
+            lines.push(line.slice(indent));
+        }
+
+        let trailing = 0;
+        while (lines.length > 0 && lines[lines.length - 1] === '') {
+            lines.pop();
+            trailing++;
+        }
+        this.position -= trailing;
+
+        let content = style === '|' ? lines.join('\n') : SQONYaml.fold(lines);
+        if (chomping === '+') content += '\n'.repeat(trailing + 1);
+        else if (chomping !== '-' && lines.length > 0) content += '\n';
+        return content;
+    }
+
+    /**
+     * Folds the lines of a folded block scalar: lines are joined with a space, blank lines become line breaks,
+     * and more-indented lines keep their line breaks.
+     * @param lines - The content lines, without their indentation.
+     * @returns The folded content.
+     */
+    private static fold(lines: string[]): string {
+        let content = '';
+
+        lines.forEach((line, index) => {
+            if (index === 0) {
+                content = line;
+                return;
+            }
+
+            const previous = lines[index - 1];
+            if (line === '') {
+                content += '\n';
+            } else if (previous === '') {
+                content += line;
+            } else {
+                content += /^\s/.test(line) || /^\s/.test(previous) ? '\n' + line : ' ' + line;
+            }
+        });
+
+        return content;
+    }
+
+    /**
+     * Reads a flow collection, `[...]` or `{...}`, which may span several lines.
+     * @param text - The text of the collection on the current line.
+     * @param parentIndent - The indentation of the parent node.
+     * @returns The sequence or mapping.
+     */
+    private flowCollection(text: string, parentIndent: number): any {
+        const line = this.position;
+        let source = text;
+
+        while (SQONYaml.flowDepth(source) > 0) {
+            this.position++;
+            if (this.position >= this.end || SQONYaml.indent(this.lines[this.position]) <= parentIndent && this.lines[this.position].trim() !== '') {
+                this.fail('Unclosed flow collection', line);
+            }
+            source += ' ' + this.lines[this.position].trim();
+        }
+        this.position++;
+
+        const reader = { source, index: 0, line };
+        const value = this.flowValue(reader);
+        SQONYaml.skipSpaces(reader);
+        if (reader.index < source.length && !source.startsWith('#', reader.index)) {
+            this.fail(`Unexpected '${source.slice(reader.index)}' after a flow collection`, line);
+        }
+        return value;
+    }
+
+    /**
+     * Parses a value inside a flow collection.
+     * @param reader - The flow text and the index to read from.
+     * @returns The value.
+     */
+    private flowValue(reader: { source: string; index: number; line: number }): any {
+        SQONYaml.skipSpaces(reader);
+        const { source } = reader;
+        const char = source.charAt(reader.index);
+
+        if (char === '[') {
+            reader.index++;
+            const sequence: any[] = [];
+            for (SQONYaml.skipSpaces(reader); source.charAt(reader.index) !== ']'; SQONYaml.skipSpaces(reader)) {
+                sequence.push(this.flowValue(reader));
+                this.flowSeparator(reader, ']');
+            }
+            reader.index++;
+            return sequence;
+        }
+
+        if (char === '{') {
+            reader.index++;
+            const mapping: Record<string, any> = {};
+            for (SQONYaml.skipSpaces(reader); source.charAt(reader.index) !== '}'; SQONYaml.skipSpaces(reader)) {
+                const key = this.flowScalar(reader, true);
+                SQONYaml.skipSpaces(reader);
+                let value = null;
+                if (source.charAt(reader.index) === ':') {
+                    reader.index++;
+                    SQONYaml.skipSpaces(reader);
+                    if (!/[,}]/.test(source.charAt(reader.index))) value = this.flowValue(reader);
+                }
+                mapping[String(key)] = value;
+                this.flowSeparator(reader, '}');
+            }
+            reader.index++;
+            return mapping;
+        }
+
+        return this.flowScalar(reader, false);
+    }
+
+    /**
+     * Moves past the `,` between flow entries, or stops before the closing bracket.
+     * @param reader - The flow text and the index to read from.
+     * @param closing - The closing bracket of the collection.
+     */
+    private flowSeparator(reader: { source: string; index: number; line: number }, closing: string): void {
+        SQONYaml.skipSpaces(reader);
+        const char = reader.source.charAt(reader.index);
+        if (char === ',') {
+            reader.index++;
+        } else if (char !== closing) {
+            this.fail(char ? `Expected ',' or '${closing}' but found '${char}'` : `Missing '${closing}'`, reader.line);
+        }
+    }
+
+    /**
+     * Parses a scalar inside a flow collection, with its tag.
+     * @param reader - The flow text and the index to read from.
+     * @param isKey - Whether the scalar is a mapping key, which also ends at `:`.
+     * @returns The value.
+     */
+    private flowScalar(reader: { source: string; index: number; line: number }, isKey: boolean): any {
+        const { source } = reader;
+        let tag: string | null = null;
+        const tagMatch = source.slice(reader.index).match(/^(![^\s,\[\]{}]*)\s+/);
+        if (tagMatch) {
+            tag = tagMatch[1];
+            reader.index += tagMatch[0].length;
+        }
+
+        const quote = source.charAt(reader.index);
+        if (quote === '"' || quote === "'") {
+            const end = SQONYaml.closingQuote(source, reader.index);
+            if (end === -1) this.fail('Unclosed quoted scalar', reader.line);
+            const raw = source.slice(reader.index, end + 1);
+            reader.index = end + 1;
+            return SQONYaml.scalar(SQONYaml.unquote(raw, reader.line), true, tag, reader.line);
+        }
+
+        const start = reader.index;
+        while (reader.index < source.length) {
+            const char = source.charAt(reader.index);
+            const next = source.charAt(reader.index + 1);
+            if (/[,\[\]{}]/.test(char)) break;
+            if (char === ':' && (isKey || /[\s,\[\]{}]/.test(next) || next === '')) break;
+            if (char === '#' && /\s/.test(source.charAt(reader.index - 1))) break;
+            reader.index++;
+        }
+        return SQONYaml.scalar(source.slice(start, reader.index).trim(), false, tag, reader.line);
+    }
+
+    /**
+     * Reads a quoted scalar, which may span several lines.
+     * @param text - The text of the scalar on the current line, starting with its quote.
+     * @param parentIndent - The indentation of the parent node.
+     * @returns The content of the scalar.
+     */
+    private quoted(text: string, parentIndent: number): string {
+        const line = this.position;
+        let source = text;
+        let end = SQONYaml.closingQuote(source, 0);
+
+        while (end === -1) {
+            this.position++;
+            if (this.position >= this.end) this.fail('Unclosed quoted scalar', line);
+            const next = this.lines[this.position];
+            if (next.trim() !== '' && SQONYaml.indent(next) <= parentIndent) this.fail('Unclosed quoted scalar', line);
+            source += next.trim() === '' ? '\n' : (source.endsWith('\n') ? '' : ' ') + next.trim();
+            end = SQONYaml.closingQuote(source, 0);
+        }
+
+        const rest = source.slice(end + 1).trim();
+        if (rest && !rest.startsWith('#')) this.fail(`Unexpected '${rest}' after a quoted scalar`);
+        this.position++;
+        return SQONYaml.unquote(source.slice(0, end + 1), line);
+    }
+
+    /**
+     * Reads a plain scalar and its continuation lines, which are folded into single spaces.
+     * @param text - The text of the scalar on the current line.
+     * @param parentIndent - The indentation of the parent node.
+     * @returns The content of the scalar, without its comment.
+     */
+    private plain(text: string, parentIndent: number): string {
+        let content = SQONYaml.stripComment(text);
+        let commented = content !== text.trim();
+        let blankLines = 0;
+
+        for (this.position++; this.position < this.end; this.position++) {
+            const line = this.lines[this.position];
+            if (line.trim() === '') {
+                blankLines++;
+                continue;
+            }
+
+            const trimmed = line.trim();
+            if (SQONYaml.indent(line) <= parentIndent || trimmed.startsWith('#') || commented) break;
+            if (SQONYaml.mappingKey(trimmed)) this.fail('Mapping entries are not allowed in a plain scalar');
+
+            content += blankLines > 0 ? '\n'.repeat(blankLines) : ' ';
+            content += SQONYaml.stripComment(trimmed);
+            commented = SQONYaml.stripComment(trimmed) !== trimmed;
+            blankLines = 0;
+        }
+
+        this.position -= blankLines;
+        return content;
+    }
+
+    /**
+     * Resolves the content of a scalar into a value, following its tag,
+     * or the YAML core schema and timestamps for untagged plain scalars.
+     * @param content - The content of the scalar.
+     * @param quoted - Whether the scalar is quoted or a block scalar, which makes it a string unless tagged otherwise.
+     * @param tag - The tag of the scalar, if any.
+     * @param line - The index of the scalar's line, for errors.
+     * @returns The value.
+     */
+    private static scalar(content: string, quoted: boolean, tag: string | null, line: number): any {
+        const fail = (type: string) => {
+            throw new Error(`Invalid YAML at line ${line + 1}: '${content}' is not a valid ${type}.`);
+        };
+
+        switch (tag) {
+            case '!!str':
+            case '!':
+                return content;
+            case '!!binary': {
+                const base64 = content.replace(/\s+/g, '');
+                if (!/^[A-Za-z0-9+/]*={0,2}$/.test(base64)) fail('!!binary value');
+                return Buffer.from(base64, 'base64');
+            }
+            case '!!timestamp':
+                return SQONYaml.timestamp(content.trim()) ?? fail('!!timestamp');
+            case '!!null':
+            case '!!bool':
+            case '!!int':
+            case '!!float': {
+                const value = SQONYaml.resolve(content.trim());
+                const valid = {
+                    '!!null': value === null,
+                    '!!bool': typeof value === 'boolean',
+                    '!!int': typeof value === 'bigint' || Number.isInteger(value),
+                    '!!float': typeof value === 'number',
+                }[tag];
+                return valid ? value : fail(tag);
+            }
+        }
+
+        return quoted ? content : SQONYaml.resolve(content);
+    }
+
+    /**
+     * Resolves an untagged plain scalar: null, booleans, integers, floats, timestamps, and strings otherwise.
+     * @param text - The plain scalar.
+     * @returns The value.
+     */
+    private static resolve(text: string): any {
+        if (/^(~|null|Null|NULL)?$/.test(text)) return null;
+        if (/^(true|True|TRUE)$/.test(text)) return true;
+        if (/^(false|False|FALSE)$/.test(text)) return false;
+        if (/^[-+]?\d+$/.test(text) || /^0x[0-9a-fA-F]+$/.test(text)) {
+            const value = Number(text);
+            return Number.isSafeInteger(value) ? value : BigInt(text.replace(/^\+/, ''));
+        }
+        if (/^0o[0-7]+$/.test(text)) return Number(text);
+        if (/^[-+]?(\.\d+|\d+(\.\d*)?)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+        if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) return text.startsWith('-') ? -Infinity : Infinity;
+        if (/^\.(nan|NaN|NAN)$/.test(text)) return NaN;
+        return SQONYaml.timestamp(text) ?? text;
+    }
+
+    /**
+     * Parses a YAML timestamp, either a date (`2002-12-14`) or a date and time with an optional fraction and time zone.
+     * Timestamps without a time zone are read as UTC.
+     * @param text - The scalar.
+     * @returns The date, or null if the scalar is not a timestamp.
+     */
+    private static timestamp(text: string): Date | null {
+        const match = text.match(/^(\d{4})-(\d\d?)-(\d\d?)(?:(?:[Tt]|[ \t]+)(\d\d?):(\d\d):(\d\d)(?:\.(\d*))?(?:[ \t]*(Z|[-+]\d\d?(?::?\d\d)?))?)?$/);
+        if (!match) return null;
+
+        const [, year, month, day, hour = '0', minute = '0', second = '0', fraction = '', zone] = match;
+        if (!match[4] && (month.length !== 2 || day.length !== 2)) return null;
+        if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) return null;
+
+        let time = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second), Number((fraction + '000').slice(0, 3)));
+        if (zone && zone !== 'Z') {
+            const [, sign, hours, minutes = '0'] = zone.match(/^([-+])(\d\d?)(?::?(\d\d))?$/)!;
+            time -= (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes)) * 60000;
+        }
+        return new Date(time);
+    }
+
+    /**
+     * Resolves the quotes and escapes of a quoted scalar.
+     * @param raw - The scalar with its quotes, with line breaks already folded.
+     * @param line - The index of the scalar's line, for errors.
+     * @returns The content of the scalar.
+     */
+    private static unquote(raw: string, line: number): string {
+        const content = raw.slice(1, -1);
+        if (raw.startsWith("'")) return content.replace(/''/g, "'");
+
+        let result = '';
+        for (let index = 0; index < content.length; index++) {
+            const char = content.charAt(index);
+            if (char !== '\\') {
+                result += char;
+                continue;
+            }
+
+            const escape = content.charAt(++index);
+            if (escape in escapes) {
+                result += escapes[escape];
+            } else if (escape in hexEscapes) {
+                const digits = content.substr(index + 1, hexEscapes[escape]);
+                if (!new RegExp(`^[0-9a-fA-F]{${hexEscapes[escape]}}$`).test(digits)) {
+                    throw new Error(`Invalid YAML at line ${line + 1}: incomplete escape '\\${escape}${digits}'.`);
+                }
+                result += String.fromCodePoint(parseInt(digits, 16));
+                index += digits.length;
+            } else {
+                throw new Error(`Invalid YAML at line ${line + 1}: unknown escape '\\${escape}'.`);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Finds the closing quote of a quoted scalar.
+     * @param text - The text holding the scalar.
+     * @param start - The index of the opening quote.
+     * @returns The index of the closing quote, or -1 if it is missing.
+     */
+    private static closingQuote(text: string, start: number): number {
+        const quote = text.charAt(start);
+        for (let index = start + 1; index < text.length; index++) {
+            const char = text.charAt(index);
+            if (quote === '"' && char === '\\') {
+                index++;
+            } else if (char === quote) {
+                if (quote === "'" && text.charAt(index + 1) === "'") {
+                    index++;
+                } else {
+                    return index;
+                }
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Splits a block mapping entry into its key and the text of its value.
+     * @param content - The line, without its indentation.
+     * @returns The key and the rest of the line, or null if the line is not a mapping entry.
+     */
+    private static mappingKey(content: string): { key: string; rest: string } | null {
+        const quote = content.charAt(0);
+        if (quote === '"' || quote === "'") {
+            const end = SQONYaml.closingQuote(content, 0);
+            const match = end === -1 ? null : content.slice(end + 1).match(/^\s*:(\s+|$)/);
+            return match ? { key: SQONYaml.unquote(content.slice(0, end + 1), 0), rest: content.slice(end + 1 + match[0].length) } : null;
+        }
+        if (/^([-?:,\[\]{}#&*!|>%@`]|$)/.test(content) && !/^[-?:][^\s]/.test(content)) return null;
+
+        const match = content.match(/^(.*?)\s*:(\s+|$)/);
+        if (!match || /\s#/.test(match[1])) return null;
+        return { key: match[1], rest: content.slice(match[0].length) };
+    }
+
+    /**
+     * Counts the brackets of a flow collection that are still open, ignoring those inside quotes.
+     * @param text - The flow text read so far.
+     * @returns The number of open brackets.
+     */
+    private static flowDepth(text: string): number {
+        let depth = 0;
+        for (let index = 0; index < text.length; index++) {
+            const char = text.charAt(index);
+            if ((char === '"' || char === "'") && (index === 0 || /[\s,\[{:]/.test(text.charAt(index - 1)))) {
+                const end = SQONYaml.closingQuote(text, index);
+                if (end === -1) return depth + 1;
+                index = end;
+            } else if (char === '#' && /\s/.test(text.charAt(index - 1))) {
+                break;
+            } else if (char === '[' || char === '{') {
+                depth++;
+            } else if (char === ']' || char === '}') {
+                depth--;
+                if (depth === 0) return 0;
+            }
+        }
+        return depth;
+    }
+
+    /**
+     * Removes the comment that ends a plain scalar, starting at a `#` preceded by a space.
+     * @param text - The text of the scalar.
+     * @returns The text without its comment.
+     */
+    private static stripComment(text: string): string {
+        const index = text.search(/\s#/);
+        return (index === -1 ? text : text.slice(0, index)).trim();
+    }
+
+    /**
+     * Moves past the spaces of a flow text.
+     * @param reader - The flow text and the index to read from.
+     */
+    private static skipSpaces(reader: { source: string; index: number }): void {
+        while (reader.index < reader.source.length && /\s/.test(reader.source.charAt(reader.index))) reader.index++;
+    }
+
+    /**
+     * Moves past the blank and comment lines.
+     */
+    private skipBlank(): void {
+        while (this.position < this.end && SQONYaml.isBlank(this.lines[this.position])) this.position++;
+    }
+
+    /**
+     * Throws an error for the current line, or the given line.
+     * @param message - The error message.
+     * @param line - The index of the line. Defaults to the current line.
+     * @throws {Error} Always.
+     */
+    private fail(message: string, line: number = this.position): never {
+        throw new Error(`Invalid YAML at line ${line + 1}: ${message}.`);
+    }
+
+    /**
+     * Checks whether a line holds no content, only spaces or a comment.
+     * @param line - The line.
+     * @returns True if the line is blank.
+     */
+    private static isBlank(line: string): boolean {
+        return /^\s*(#.*)?$/.test(line);
+    }
+
+    /**
+     * Checks whether a line, without its indentation, is an entry of a block sequence.
+     * @param content - The line.
+     * @returns True if the line starts with a `-` indicator.
+     */
+    private static isSequenceEntry(content: string): boolean {
+        return content === '-' || /^-\s/.test(content);
+    }
+
+    /**
+     * Counts the spaces that indent a line.
+     * @param line - The line.
+     * @returns The indentation.
+     */
+    private static indent(line: string): number {
+        return line.length - line.trimStart().length;
+    }
+
+    /**
+     * Writes a value as the lines of a block node. Nested lines are indented relative to the first one.
+     * @param value - The value.
+     * @returns The lines of the node.
+     */
+    private static emit(value: any): string[] {
+        if (Array.isArray(value) && value.length > 0) {
+            return value.flatMap((element) => SQONYaml.nest('- ', SQONYaml.emit(element === undefined ? null : element)));
+        }
+
+        if (SQONYaml.isCollection(value)) {
+            return Object.entries(value)
+                .filter(([, child]) => child !== undefined)
+                .flatMap(([key, child]) => SQONYaml.isCollection(child)
+                    ? [`${SQONYaml.key(key)}:`, ...SQONYaml.emit(child).map(SQONYaml.indentLine)]
+                    : SQONYaml.nest(`${SQONYaml.key(key)}: `, SQONYaml.emit(child)));
+        }
+
+        if (typeof value === 'string' && value.includes('\n') && SQONYaml.isLiteral(value)) {
+            return [value.endsWith('\n') ? '|' : '|-', ...value.replace(/\n$/, '').split('\n')];
+        }
+
+        return [SQONYaml.scalarText(value)];
+    }
+
+    /**
+     * Prefixes the first line of a node, and indents the others under it.
+     * @param prefix - The text before the first line, such as `- ` or `key: `.
+     * @param lines - The lines of the node.
+     * @returns The prefixed lines.
+     */
+    private static nest(prefix: string, lines: string[]): string[] {
+        return [prefix + lines[0], ...lines.slice(1).map(SQONYaml.indentLine)];
+    }
+
+    /**
+     * Indents a nested line by two spaces. Empty lines stay empty.
+     * @param line - The line.
+     * @returns The indented line.
+     */
+    private static indentLine(line: string): string {
+        return line === '' ? '' : '  ' + line;
+    }
+
+    /**
+     * Checks whether a value is written as a block mapping or a non-empty block sequence.
+     * @param value - The value.
+     * @returns True if the value is a non-empty array or a plain object with fields.
+     */
+    private static isCollection(value: any): boolean {
+        if (Array.isArray(value)) return value.length > 0;
+        return value !== null && typeof value === 'object' && !(value instanceof Date) && !(value instanceof Uint8Array)
+            && Object.values(value).some((child) => child !== undefined);
+    }
+
+    /**
+     * Checks whether a multi-line string can be written as a literal block scalar and read back unchanged.
+     * @param value - The string.
+     * @returns True if the string has no control characters or lines of spaces only, does not start with a space and ends with at most one line break.
+     */
+    private static isLiteral(value: string): boolean {
+        return !/[\x00-\x08\x0b-\x1f\x7f]/.test(value) && !/^\s/.test(value) && !value.endsWith('\n\n') && !/^[ \t]+$/m.test(value);
+    }
+
+    /**
+     * Writes a mapping key, quoting it unless it is a plain identifier.
+     * @param key - The key.
+     * @returns The key text.
+     */
+    private static key(key: string): string {
+        return /^[A-Za-z_][\w.-]*$/.test(key) && typeof SQONYaml.resolve(key) === 'string' ? key : SQONLiterals.quote(key);
+    }
+
+    /**
+     * Writes a scalar value.
+     * @param value - The value.
+     * @returns The scalar text.
+     */
+    private static scalarText(value: any): string {
+        if (value === null || value === undefined) return 'null';
+        if (typeof value === 'boolean') return value ? 'true' : 'false';
+        if (typeof value === 'bigint') return value.toString();
+        if (typeof value === 'number') {
+            if (Number.isNaN(value)) return '.nan';
+            if (!Number.isFinite(value)) return value > 0 ? '.inf' : '-.inf';
+            return String(value);
+        }
+        if (value instanceof Date) return isNaN(value.getTime()) ? 'null' : value.toISOString();
+        if (value instanceof Uint8Array) return value.length > 0 ? `!!binary ${Buffer.from(value).toString('base64')}` : '!!binary ""';
+        if (Array.isArray(value)) return '[]';
+        if (typeof value === 'object') return '{}';
+
+        const text = String(value);
+        const isPlain = text !== '' && text === text.trim()
+            && !/^([?:,\[\]{}#&*!|>'"%@`]|-(\s|$))/.test(text)
+            && !/:\s|:$|\s#|[\x00-\x1f\x7f]/.test(text)
+            && typeof SQONYaml.resolve(text) === 'string';
+        return isPlain ? text : SQONLiterals.quote(text);
+    }
+}
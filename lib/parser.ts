@@ -1,12 +1,37 @@
 import * as fs from 'fs';
 import * as readline from 'readline';
+import * as path from 'path';
 import  { SQONSchema } from './extends/schema';
 import { SQONValidation } from './extends/parseValidation';
 import { SQONRecords } from './extends/parseRecords';
 import { Validator } from './extends/validator';
-import { ParsingMetadata, AllowedTypes, ParsedResult, ParserConfig, Document } from './types/general';
+import { SQONSerializer } from './extends/serializer';
+import { SQONDocuments } from './extends/documents';
+import { SQONWriter } from './extends/writer';
+import { SQONQuery } from './extends/query';
+import { SQONAggregation } from './extends/aggregation';
+import { SQONIndexes } from './extends/indexes';
+import { SQONReferences } from './extends/references';
+import { SQONDiagnostics, DiagnosticKind } from './extends/diagnostics';
+import { ParsingMetadata, AllowedTypes, ParsedResult, ParseOptions, ParserConfig, Document, StringifyInput, StringifyOptions, SourceLine, CollectionResult } from './types/general';
+import { Diagnostic, DiagnosticSection } from './types/diagnostics';
+import { WriteResult } from './types/writer';
+import { QueryFilter } from './types/query';
+import { CompletedRecords, FieldPositions, RecordSource } from './types/records';
+import { AggregationSource, PipelineStage } from './types/aggregation';
+import { IndexOptions, IndexResult } from './types/indexes';
+import { ImportResolver, ResolvedImport, TypeValidations } from './types/imports';
 import { ValidateParams, ValidationResult } from './types/validator';
 
+type CollectionState = {
+    parsedSchema: Record<string, any>;
+    validations: Record<string, any>;
+    records: Document[];
+    recordLines: number[];
+    recordSources: RecordSource[];
+    uniqueValues: Record<string, Map<any, number>>;
+    sectionOrder: string[];
+};
 
 /**
  * Represents the main class for handling SQON data parsing, validation, and conversion.
@@ -25,13 +50,36 @@ export class SQON {
     private sectionStartTime: number;
     private metadata: ParsingMetadata;
     lines: string[];
+    private lineNumbers: number[];
+    private lineIndents: number[];
+    private streamWindow: Map<number, SourceLine>;
     position: number;
+    types: Record<string, any>;
     parsedSchema: Record<string, any>;
     validations: Record<string, any> = {};
     records: Document[];
+    private recordLines: number[];
+    private recordSources: RecordSource[];
+    private uniqueValues: Record<string, Map<any, number>>;
+    private streaming: boolean;
+    private streamedErrorCount: number;
+    private writeQueue: Promise<unknown>;
+    private indexQueue: Promise<unknown>;
+    private cacheOffsets: boolean;
+    private indexManager: SQONIndexes | null;
+    private resolveImport?: ImportResolver;
+    private importChain: string[];
+    private importing: boolean;
+    private typeValidations: TypeValidations;
+    private collection: string | null;
+    private collections: Map<string | null, CollectionState>;
+    private collectionNames: string[];
+    private checkReferences: boolean;
+    private referencedFiles: Map<string, Promise<ParsedResult | null>>;
+    private documentIds: Map<string, { collection: string | null; docNumber: number }>;
     allowedTypes: string[];
     validationKeywords: Record<string, AllowedTypes[]>;
-    errors: { line: number | null; message: string }[];
+    errors: Diagnostic[];
     sectionOrder: string[];
     fileRules: { Strict: boolean }; 
     MAX_ERRORS: number; 
@@ -42,8 +90,10 @@ export class SQON {
      * @param {ParserConfig} config - The configuration object for parsing the file.
      * @param {string} config.filePath - Path to the SQON file that will be parsed.
      * @param {('schema' | 'validations' | 'records')} [config.section] - The specific section to focus on during parsing (optional).
+     * @param {boolean} [config.cacheOffsets=false] - Whether `getDocument` and `getRange` save their offset table in the `<file>.idx` sidecar file.
+     * @param {ImportResolver} [config.resolveImport] - Loads the files named by `@import` directives. By default they are read from disk, relative to the importing file.
      */
-    constructor({ filePath, section, fileContent }: ParserConfig) {
+    constructor({ filePath, section, fileContent, cacheOffsets = false, resolveImport }: ParserConfig) {
         if (!filePath && !fileContent) {
             throw new Error(
                 "Invalid configuration: At least one of 'filePath' or 'fileContent' must be provided."
@@ -53,16 +103,39 @@ export class SQON {
         this.fileContent = fileContent;
         this.section = section;
         this.lines = [];
+        this.lineNumbers = [];
+        this.lineIndents = [];
+        this.streamWindow = new Map();
         this.position = 0;
+        this.types = {};
         this.parsedSchema = {};
         this.validations = {};
         this.records = [];
+        this.recordLines = [];
+        this.recordSources = [];
+        this.uniqueValues = {};
+        this.streaming = false;
+        this.streamedErrorCount = 0;
+        this.writeQueue = Promise.resolve();
+        this.indexQueue = Promise.resolve();
+        this.cacheOffsets = cacheOffsets;
+        this.indexManager = null;
+        this.resolveImport = resolveImport;
+        this.importChain = filePath ? [path.resolve(filePath)] : [];
+        this.importing = false;
+        this.typeValidations = {};
+        this.collection = null;
+        this.collections = new Map();
+        this.collectionNames = [];
+        this.checkReferences = true;
+        this.referencedFiles = new Map();
+        this.documentIds = new Map();
         this.MAX_ERRORS = 50;
         this.allowedTypes = [
             'Number', 'String', 'Binary', 'Date', 'Boolean', 'Uint8Array', 'Binary',
             'Object', 'Any[]', 'StringArray', 'String[]', 'ObjectArray', 'NumberArray', 'Number[]',
             'Number[]', 'String[]', 'Object[]', 'Null', 'undefined', 'Array',
-            '[]', 'Any', 'AnyArray',
+            '[]', 'Any', 'AnyArray', 'BigInt', 'Decimal',
         ];
         this.validationKeywords = {
             'minLength': ['String', 'StringArray', 'String[]', 'ObjectArray', 'Object[]', 'Array', 'Any[]', '[]', 'Object', 'NumberArray', 'Number[]', 'Uint8Array'],
@@ -79,15 +152,16 @@ export class SQON {
             'notNull': ['Any'],
             'pattern': ['Any'],
             'isUnique': ['Any'], 
+            'primaryKey': ['String', 'Number', 'BigInt', 'Decimal'],
             'required': ['Any'], 
             'isNull': ['Any'], 
     
-            'min': ['Number', 'NumberArray', 'Number[]', 'Uint8Array'],
-            'max': ['Number', 'NumberArray', 'Number[]', 'Uint8Array'],
-            'isPositive': ['Number', 'NumberArray', 'Number[]', 'Uint8Array'],
-            'isNegative': ['Number', 'NumberArray', 'Number[]', 'Uint8Array'],
-            'isNumeric': ['NumberArray', 'Number[]', 'Number'],
-            'isInteger': ['Number', 'NumberArray', 'Number[]'],
+            'min': ['Number', 'BigInt', 'NumberArray', 'Number[]', 'Uint8Array'],
+            'max': ['Number', 'BigInt', 'NumberArray', 'Number[]', 'Uint8Array'],
+            'isPositive': ['Number', 'BigInt', 'NumberArray', 'Number[]', 'Uint8Array'],
+            'isNegative': ['Number', 'BigInt', 'NumberArray', 'Number[]', 'Uint8Array'],
+            'isNumeric': ['NumberArray', 'Number[]', 'Number', 'BigInt'],
+            'isInteger': ['Number', 'BigInt', 'NumberArray', 'Number[]'],
             'isFloat': ['Number', 'NumberArray', 'Number[]'],
     
     
@@ -131,9 +205,13 @@ export class SQON {
      * It reads the file, processes its sections, and returns parsed results along with metadata.
      *
      * @async
+     * @param {ParseOptions} [options] - Parsing options.
+     * @param {('documents' | 'objects')} [options.output='documents'] - Whether records are returned as parsed documents or as plain objects.
      * @returns {Promise<ParsedResult>} - A promise that resolves to the parsed results, including metadata and errors.
      */
-    async parse(): Promise<ParsedResult> {
+    async parse(options: ParseOptions & { output: 'objects' }): Promise<ParsedResult<Record<string, any>>>;
+    async parse(options?: ParseOptions): Promise<ParsedResult>;
+    async parse({ output = 'documents' }: ParseOptions = {}): Promise<ParsedResult | ParsedResult<Record<string, any>>> {
         const formatFileSize = (size: number): string => {
             if (size < 1024) return `${size.toFixed(2)} bytes`;
             if (size < 1048576) return `${(size / 1024).toFixed(2)} KB`;
@@ -143,32 +221,21 @@ export class SQON {
 
         const formatTime = (ms: number): string => `${(ms / 1000).toFixed(2)} seconds`;
 
+        this.reset();
         this.parsingStartTime = performance.now();
 
-        if (this.fileContent) {
-            this.lines = this.fileContent
-                .split(/\r?\n/)
-                .map((line) => line.trim())
-                .filter((line) => line.length > 0);
-        } else if (this.filePath) {
+        if (this.fileContent === undefined && this.filePath) {
             const stats = await fs.promises.stat(this.filePath!);
             this.metadata.fileSize = formatFileSize(stats.size);
+        }
 
-            const fileStream = fs.createReadStream(this.filePath!);
-            const rl = readline.createInterface({
-                input: fileStream,
-                crlfDelay: Infinity,
-            });
-
-            for await (const line of rl) {
-                const trimmedLine = line.trim();
-                if (trimmedLine) {
-                    this.lines.push(trimmedLine);
-                }
-            }
+        for await (const { text, line, indent } of this.readLines()) {
+            this.lines.push(text);
+            this.lineNumbers.push(line);
+            this.lineIndents.push(indent);
         }
 
-        const result = this.parseLines();
+        const result = await this.parseLines();
 
         const parsingEndTime = performance.now();
         this.metadata.timeTaken = formatTime(parsingEndTime - this.parsingStartTime);
@@ -188,22 +255,196 @@ export class SQON {
             external: formatFileSize(memoryUsage.external),
         };
 
+        if (output === 'objects') {
+            const collections: Record<string, CollectionResult<Record<string, any>>> = {};
+            for (const [name, collection] of Object.entries(result.collections ?? {})) {
+                collections[name] = { ...collection, records: collection.records.map((record) => SQONDocuments.toObject(record)) };
+            }
+            return { ...result, records: result.records.map((record) => SQONDocuments.toObject(record)), collections, metadata: this.metadata };
+        }
+
         return {
             ...result,
             metadata: this.metadata,
         };
     }
 
+    /**
+     * Streams the records of the SQON file one document at a time, keeping memory bounded regardless of the file size.
+     * The `@schema` and `@validations` sections are parsed up front, and each document is validated and yielded
+     * as soon as its `#n ->` block is complete. Errors are collected in the `errors` property while iterating.
+     * References are not checked, since the documents they point at may not have been read yet.
+     *
+     * @async
+     * @generator
+     * @param {string} [collection] - The named collection to stream, declared with `@records name`. Defaults to the unnamed `@records` section.
+     * @yields {Document} - The parsed records, in file order.
+     */
+    async *streamRecords(collection?: string): AsyncGenerator<Document> {
+        this.reset();
+        this.streaming = true;
+        this.streamedErrorCount = 0;
+        let recordParser: SQONRecords | null = null;
+        let lineNumber = 0;
+
+        try {
+            for await (const source of this.readLines()) {
+                const line = source.text;
+                lineNumber++;
+
+                if (!recordParser) {
+                    if (line.split(/\s+/).join(' ') !== (collection ? `@records ${collection}` : '@records')) {
+                        this.lines.push(line);
+                        this.lineNumbers.push(source.line);
+                        this.lineIndents.push(source.indent);
+                        continue;
+                    }
+                    this.streamWindow.set(lineNumber, source);
+                    await this.parseLines();
+                    this.useCollection(collection ?? null);
+                    this.checkSectionOrder('@records');
+                    recordParser = new SQONRecords([], lineNumber);
+                    continue;
+                }
+
+                if (line === '@end') {
+                    this.sectionOrder.pop();
+                    break;
+                }
+
+                this.streamWindow.set(lineNumber, source);
+                const completed = recordParser.pushLine(line, lineNumber);
+                yield* this.emitRecords(recordParser, completed, recordParser.pendingLine() ?? lineNumber + 1);
+            }
+
+            if (!recordParser) {
+                await this.parseLines();
+                this.errors.push(this.diagnostic('MissingSection', 'file', `Missing required section: '@records${collection ? ` ${collection}` : ''}'`, null));
+                return;
+            }
+
+            yield* this.emitRecords(recordParser, recordParser.flush(), Infinity);
+        } finally {
+            this.streaming = false;
+            this.streamWindow.clear();
+        }
+    }
+
+    /**
+     * Validates the records completed while streaming, collects their errors and yields them.
+     *
+     * @async
+     * @generator
+     * @param {SQONRecords} recordParser - The records parser fed by `streamRecords`.
+     * @param {CompletedRecords} completed - The completed records, the lines they start on and their sources.
+     * @param {number} pendingLine - The first line that still belongs to an incomplete record.
+     * @yields {Document} - The completed records.
+     */
+    private async *emitRecords(recordParser: SQONRecords, completed: CompletedRecords, pendingLine: number): AsyncGenerator<Document> {
+        const errors = recordParser.errors.splice(0);
+        for (const [index, record] of completed.records.entries()) {
+            errors.push(...this.checkId(record, completed.lines[index]));
+            errors.push(...await this.validateRecord(record, completed.lines[index], completed.sources[index]));
+        }
+
+        const accepted = errors.slice(0, Math.max(this.MAX_ERRORS - this.streamedErrorCount, 0));
+        this.errors.push(...this.resolveDiagnostics(accepted));
+        for (const position of this.streamWindow.keys()) {
+            if (position >= pendingLine) break;
+            this.streamWindow.delete(position);
+        }
+        this.streamedErrorCount += accepted.length;
+        this.metadata.recordCount += completed.records.length;
+        yield* completed.records;
+    }
+
+    /**
+     * Reads the SQON source, from `fileContent` or line by line from `filePath`, skipping empty lines.
+     *
+     * @async
+     * @generator
+     * @yields {SourceLine} - Each non-empty line, trimmed, along with its line number and indentation.
+     */
+    private async *readLines(): AsyncGenerator<SourceLine> {
+        let lineNumber = 0;
+        const toSourceLine = (line: string): SourceLine | null => {
+            lineNumber++;
+            const text = line.trim();
+            return text ? { text, line: lineNumber, indent: line.length - line.trimStart().length } : null;
+        };
+
+        if (this.fileContent !== undefined) {
+            for (const line of this.fileContent.split(/\r?\n/)) {
+                const source = toSourceLine(line);
+                if (source) {
+                    yield source;
+                }
+            }
+        } else if (this.filePath) {
+            const fileStream = fs.createReadStream(this.filePath!);
+            const rl = readline.createInterface({
+                input: fileStream,
+                crlfDelay: Infinity,
+            });
+
+            try {
+                for await (const line of rl) {
+                    const source = toSourceLine(line);
+                    if (source) {
+                        yield source;
+                    }
+                }
+            } finally {
+                rl.close();
+                fileStream.destroy();
+            }
+        }
+    }
+
+    /**
+     * Clears the state left by a previous `parse()` or `streamRecords()` call, so the file is read again from scratch
+     * and its documents and IDs are not compared with those of the previous read.
+     * 
+     * @returns {void} - No return value. Resets the lines, sections, collections, IDs and errors of the instance.
+     */
+    private reset(): void {
+        this.lines = [];
+        this.lineNumbers = [];
+        this.lineIndents = [];
+        this.streamWindow = new Map();
+        this.position = 0;
+        this.types = {};
+        this.parsedSchema = {};
+        this.validations = {};
+        this.records = [];
+        this.recordLines = [];
+        this.recordSources = [];
+        this.uniqueValues = {};
+        this.typeValidations = {};
+        this.collection = null;
+        this.collections = new Map();
+        this.collectionNames = [];
+        this.referencedFiles = new Map();
+        this.documentIds = new Map();
+        this.errors = [];
+        this.sectionOrder = [];
+        this.fileRules = { Strict: false };
+    }
+
     /**
      * Parses the lines of the SQON file and processes the different sections.
      * It reads through the file and determines what sections need to be processed (schema, validations, records).
      * It updates the `position` and `lines` and handles section-specific logic.
+     * Once every section is parsed, each record is validated against the schema and validation rules.
      * 
-     * @returns {ParsedResult} - The parsed result, including schema, validations, records, and errors.
+     * @returns {Promise<ParsedResult>} - The parsed result, including schema, validations, records, and errors.
      */
-    private parseLines(): ParsedResult {
+    private async parseLines(): Promise<ParsedResult> {
         while (this.position < this.lines.length) {
             const line = this.lines[this.position];
+            const header = this.section ? null : line.match(/^(@schema|@validations|@records)(?:\s+([A-Za-z_][\w-]*))?$/);
+            const command = header ? header[1] : line;
+            if (header) this.useCollection(header[2] ?? null);
     
             if (line.startsWith('*STRICT=')) {
                 const strictValue = line.split('=')[1]?.trim().toUpperCase();
@@ -213,13 +454,24 @@ export class SQON {
                 } else if (strictValue === 'FALSE') {
                      this.fileRules.Strict = false; 
                 } else {
-                    this.errors.push({ line: this.position + 1, message: `Invalid *STRICT value: ${strictValue}. Expected TRUE or FALSE.` });
+                    this.errors.push(this.diagnostic('InvalidStrictValue', 'file', `Invalid *STRICT value: ${strictValue}. Expected TRUE or FALSE.`, this.position + 1, line.indexOf('=') + 2));
                 }
                     this.position++;
                     continue;
             }
             
-            if (line === "@schema") {
+            if (line.startsWith("@import")) {
+                if (this.section !== 'records') await this.parseImport(line);
+            } else if (line === "@types") {
+                if (this.section === 'schema') {
+                    this.position++;
+                    this.parseTypes();
+                } else if (!this.section) {
+                    this.checkSectionOrder("@types");
+                    this.position++;
+                    this.parseTypes();
+                }
+            } else if (command === "@schema") {
                 if (this.section === 'schema') {
                     this.position++;
                     this.parseSchema();
@@ -229,7 +481,7 @@ export class SQON {
                     this.position++;
                     this.parseSchema();
                 }
-            } else if (line === "@validations") {
+            } else if (command === "@validations") {
                 if (this.section === 'schema') {
                     this.position++;
                     this.parseValidation();
@@ -239,7 +491,10 @@ export class SQON {
                     this.position++;
                     this.parseValidation();
                 }
-            } else if (line === "@records") {
+            } else if (command === "@records" && this.importing) {
+                this.errors.push(this.diagnostic('InvalidImport', 'file', `Imported files can only hold '@types', '@schema' and '@validations' sections.`, this.position + 1));
+                break;
+            } else if (command === "@records") {
                 if (this.section === 'records') {
                     this.position++;
                     this.parseRecords();
@@ -252,74 +507,272 @@ export class SQON {
             } else if (line === "@end") {
                 if (!this.section) {
                     if (this.sectionOrder.length === 0) {
-                        this.errors.push({ line: this.position + 1, message: `Unexpected '@end' without an open section.` });
+                        this.errors.push(this.diagnostic('UnexpectedEnd', 'file', `Unexpected '@end' without an open section.`, this.position + 1));
                     } else {
                         const lastSection = this.sectionOrder.pop();
-                        if (lastSection !== '@schema' && lastSection !== '@validations' && lastSection !== '@records') {
-                            this.errors.push({ line: this.position + 1, message: `Unexpected '@end' for section: ${lastSection}.` });
+                        if (lastSection !== '@types' && lastSection !== '@schema' && lastSection !== '@validations' && lastSection !== '@records') {
+                            this.errors.push(this.diagnostic('UnexpectedEnd', 'file', `Unexpected '@end' for section: ${lastSection}.`, this.position + 1));
                         }
                     }
                 }
             } else {
                 if (this.section && this.section !== 'records' && this.section !== 'schema') throw new Error(`Invalid section parsing!`);
-                if (!this.section) this.errors.push({ line: this.position + 1, message: `Unknown section or command: "${line}"` });
+                if (!this.section) this.errors.push(this.diagnostic('UnknownCommand', 'file', `Unknown section or command: "${line}"`, this.position + 1));
             }
     
             this.position++;
         }
     
-        if (!this.section) {
-            if (!this.parsedSchema) {
-                this.errors.push({ line: null, message: `Missing required section: '@schema'` });
+        if (!this.importing) {
+            for (const name of [...this.collectionNames, null]) {
+                this.useCollection(name);
+                if (Object.keys(this.typeValidations).length > 0) {
+                    this.inheritTypeValidations();
+                }
+                if (this.section) continue;
+
+                if (!this.parsedSchema) {
+                    this.errors.push(this.diagnostic('MissingSection', 'file', `Missing required section: '@schema'`, null));
+                }
+                if (this.records.length === 0 && !this.streaming && (name !== null || this.collectionNames.length === 0)) {
+                    this.errors.push(this.diagnostic('MissingSection', 'file', `Missing required section: '@records${name === null ? '' : ` ${name}`}'`, null));
+                }
+                this.checkIds();
+                await this.validateRecords();
             }
-            if (this.records.length === 0) {
-                this.errors.push({ line: null, message: `Missing required section: '@records'` });
+
+            for (const name of [...this.collectionNames, null]) {
+                this.useCollection(name);
+                if (!this.section && !this.streaming && this.checkReferences) await this.validateReferences();
             }
         }
     
         return {
             fileRules: this.fileRules,
+            types: this.types,
+            typeValidations: this.typeValidations,
             schema: this.parsedSchema,
             validations: this.validations,
             records: this.records,
             errors: this.errors,
+            collections: this.collectionResults(),
         };
+    }
+
+    /**
+     * Switches the schema, validations and records the parser works on to those of a named collection,
+     * declared with `@schema name`, `@validations name` and `@records name`. The unnamed sections form the default collection.
+     * 
+     * @param {string | null} name - The collection name, or null for the default collection.
+     */
+    private useCollection(name: string | null): void {
+        if (name === this.collection) return;
+
+        this.collections.set(this.collection, {
+            parsedSchema: this.parsedSchema,
+            validations: this.validations,
+            records: this.records,
+            recordLines: this.recordLines,
+            recordSources: this.recordSources,
+            uniqueValues: this.uniqueValues,
+            sectionOrder: this.sectionOrder,
+        });
+
+        const state = this.collections.get(name);
+        if (!state && name !== null) this.collectionNames.push(name);
+        this.parsedSchema = state?.parsedSchema ?? {};
+        this.validations = state?.validations ?? {};
+        this.records = state?.records ?? [];
+        this.recordLines = state?.recordLines ?? [];
+        this.recordSources = state?.recordSources ?? [];
+        this.uniqueValues = state?.uniqueValues ?? {};
+        this.sectionOrder = state?.sectionOrder ?? [];
+        this.collection = name;
+    }
+
+    /**
+     * Builds the parsed result of every named collection.
+     * 
+     * @returns {Record<string, CollectionResult>} - The schema, validations, records and metadata of each collection, by name.
+     */
+    private collectionResults(): Record<string, CollectionResult> {
+        const results: Record<string, CollectionResult> = {};
+        for (const name of this.collectionNames) {
+            const state = name === this.collection ? this : this.collections.get(name)!;
+            results[name] = {
+                schema: state.parsedSchema,
+                validations: state.validations,
+                records: state.records,
+                metadata: {
+                    recordCount: state.records.length,
+                    schemaFieldCount: Object.keys(state.parsedSchema).length,
+                    validationRuleCount: Object.keys(state.validations).length,
+                },
+            };
+        }
+        return results;
     }    
     
+    /**
+     * Handles an `@import "path"` directive: the `@types`, `@schema` and `@validations` sections of the imported file,
+     * and of the files it imports, are merged into this file's, and its errors are reported with the imported file's path.
+     * Definitions in this file take precedence over imported ones.
+     * 
+     * @param {string} line - The `@import` line.
+     * @returns {Promise<void>} - No return value. Updates the `types`, `parsedSchema`, `validations` and `errors` properties of the instance.
+     */
+    private async parseImport(line: string): Promise<void> {
+        const match = line.match(/^@import\s+"((?:[^"\\]|\\.)+)"$/);
+        if (!match) {
+            this.errors.push(this.diagnostic('InvalidImport', 'file', `Invalid import: ${line}. Expected '@import "path"'.`, this.position + 1));
+            return;
+        }
+        if (this.sectionOrder.length > 0) {
+            this.errors.push(this.diagnostic('SectionOrder', 'file', `'@import' must come before the sections of the file.`, this.position + 1));
+        }
+
+        const specifier = match[1].replace(/\\(.)/g, '$1');
+        let resolved: ResolvedImport;
+        try {
+            resolved = await (this.resolveImport ?? SQON.readImport)(specifier, this.filePath);
+        } catch (error) {
+            this.errors.push(this.diagnostic('UnresolvedImport', 'file', `Cannot import "${specifier}": ${(error as Error).message}`, this.position + 1, line.indexOf('"') + 1));
+            return;
+        }
+
+        if (this.importChain.includes(resolved.path)) {
+            const cycle = [...this.importChain.slice(this.importChain.indexOf(resolved.path)), resolved.path];
+            this.errors.push(this.diagnostic('CircularImport', 'file', `Circular import: ${cycle.join(' -> ')}`, this.position + 1, line.indexOf('"') + 1));
+            return;
+        }
+
+        const imported = new SQON({ filePath: resolved.path, fileContent: resolved.content, resolveImport: this.resolveImport });
+        imported.importChain = [...this.importChain, resolved.path];
+        imported.importing = true;
+        await imported.parse();
+
+        this.types = { ...this.types, ...imported.types };
+        this.parsedSchema = { ...this.parsedSchema, ...imported.parsedSchema };
+        this.validations = SQON.mergeValidations(this.validations, imported.validations);
+        for (const [typeName, rules] of Object.entries(imported.typeValidations)) {
+            this.typeValidations[typeName] = { ...this.typeValidations[typeName], ...rules };
+        }
+        this.errors.push(...imported.errors.map((error) => error.file ? error : { ...error, file: resolved.path }));
+    }
+
+    /**
+     * Reads an imported file from disk, relative to the directory of the importing file.
+     * 
+     * @param {string} specifier - The path written in the `@import` directive.
+     * @param {string | undefined} importer - The path of the importing file, if known.
+     * @returns {Promise<ResolvedImport>} - The absolute path and content of the imported file.
+     * @throws {Error} If the path is relative and the importing file has no path, or the file cannot be read.
+     */
+    private static async readImport(specifier: string, importer: string | undefined): Promise<ResolvedImport> {
+        if (!importer && !path.isAbsolute(specifier)) {
+            throw new Error(`relative imports need a 'filePath' or a 'resolveImport' function.`);
+        }
+        const resolvedPath = path.resolve(importer ? path.dirname(importer) : '', specifier);
+        return { path: resolvedPath, content: await fs.promises.readFile(resolvedPath, 'utf8') };
+    }
+
+    /**
+     * Applies the validations written for named types, including imported ones, to the schema fields that use those types.
+     * Rules already set on a field take precedence.
+     * 
+     * @returns {void} - No return value. Updates the `validations` property of the instance.
+     */
+    private inheritTypeValidations(): void {
+        const results = new SQONValidation({
+            lines: [],
+            parsedSchema: this.parsedSchema,
+            types: this.types,
+            typeValidations: this.typeValidations,
+            validationKeywords: this.validationKeywords
+        }).parseValidation();
+        this.validations = SQON.mergeValidations(results.validations, this.validations);
+    }
+
+    /**
+     * Merges two validation trees. Rules of the same field are merged, and those of `overrides` take precedence.
+     * 
+     * @param {Record<string, any>} base - The validations to start from.
+     * @param {Record<string, any>} overrides - The validations to merge in.
+     * @returns {Record<string, any>} - The merged validations.
+     */
+    private static mergeValidations(base: Record<string, any>, overrides: Record<string, any>): Record<string, any> {
+        const merged: Record<string, any> = { ...base };
+        for (const [key, node] of Object.entries(overrides)) {
+            merged[key] = key === 'rules'
+                ? { ...merged.rules, ...node }
+                : merged[key] ? SQON.mergeValidations(merged[key], node) : node;
+        }
+        return merged;
+    }
+
     /**
      * Checks and enforces the order of sections within the SQON file.
-     * Ensures that sections like `@schema`, `@validations`, and `@records` follow a specific order.
+     * Ensures that sections like `@types`, `@schema`, `@validations`, and `@records` follow a specific order.
+     * `@validations` may go without `@schema` when there are named types to validate, as in a shared file of types and their rules.
      * 
-     * @param {string} section - The section name that is being processed (e.g., '@schema', '@validations', '@records').
+     * @param {string} section - The section name that is being processed (e.g., '@types', '@schema', '@validations', '@records').
      */
     private checkSectionOrder(section: string): void {
-        if (section === "@schema") {
+        if (section === "@types") {
+            if (this.sectionOrder.includes("@schema")) {
+                this.errors.push(this.diagnostic('SectionOrder', 'file', `'@types' must come before '@schema'.`, this.position + 1));
+            }
+            if (this.sectionOrder.includes("@types")) {
+                this.errors.push(this.diagnostic('SectionAlreadyOpen', 'file', `'@types' is already opened but not closed.`, this.position + 1));
+            }
+            this.sectionOrder.push(section);
+        } else if (section === "@schema") {
+            if (this.sectionOrder.includes("@validations")) {
+                this.errors.push(this.diagnostic('SectionOrder', 'file', `'@schema' must come before '@validations'.`, this.position + 1));
+            }
             if (this.sectionOrder.includes("@schema")) {
-                this.errors.push({ line: this.position + 1, message: `'@schema' is already opened but not closed.` });
+                this.errors.push(this.diagnostic('SectionAlreadyOpen', 'file', `'@schema' is already opened but not closed.`, this.position + 1));
             }
             this.sectionOrder.push(section);
         } else if (section === "@validations") {
-            if (!this.sectionOrder.includes("@schema")) {
-                this.errors.push({ line: this.position + 1, message: `'@validations' must come after '@schema'.` });
+            const hasDefinitions = Object.keys(this.parsedSchema).length > 0 || Object.keys(this.types).length > 0;
+            if (!this.sectionOrder.includes("@schema") && !hasDefinitions) {
+                this.errors.push(this.diagnostic('SectionOrder', 'file', `'@validations' must come after '@schema' or '@types'.`, this.position + 1));
             }
             if (this.sectionOrder.includes("@validations")) {
-                this.errors.push({ line: this.position + 1, message: `'@validations' is already opened but not closed.` });
+                this.errors.push(this.diagnostic('SectionAlreadyOpen', 'file', `'@validations' is already opened but not closed.`, this.position + 1));
             }
             this.sectionOrder.push(section);
         } else if (section === "@records") {
             if (!this.sectionOrder.includes("@schema")) {
-                this.errors.push({ line: this.position + 1, message: `'@records' must come after '@schema'.` });
+                this.errors.push(this.diagnostic('SectionOrder', 'file', `'@records' must come after '@schema'.`, this.position + 1));
             }
             if (this.sectionOrder.includes("@validations") && !this.sectionOrder.includes("@validations")) {
-                this.errors.push({ line: this.position + 1, message: `'@records' must come after '@validations'.` });
+                this.errors.push(this.diagnostic('SectionOrder', 'file', `'@records' must come after '@validations'.`, this.position + 1));
             }
             if (this.sectionOrder.includes("@records")) {
-                this.errors.push({ line: this.position + 1, message: `'@records' is already opened but not closed.` });
+                this.errors.push(this.diagnostic('SectionAlreadyOpen', 'file', `'@records' is already opened but not closed.`, this.position + 1));
             }
             this.sectionOrder.push(section);
         }
     }
 
+    /**
+     * Parses the `@types` section of the SQON file.
+     * This method resolves the named types declared in the section, so the `@schema` section can reference them, and populates the `types` property.
+     * 
+     * @returns {void} - No return value. Updates the `types` and `errors` properties of the instance.
+     */
+    private parseTypes(): void {
+        const typesParser = new SQONSchema({ lines: this.lines, position: this.position, allowedTypes: this.allowedTypes, types: this.types });
+        const results = typesParser.parseTypes();
+
+        this.types = results.types;
+        this.errors.push(...this.resolveDiagnostics(results.errors.slice(0, this.MAX_ERRORS)));
+        this.lines = results.lines;
+        this.position = results.position;
+    }
+
     /**
      * Parses the `@schema` section of the SQON file.
      * This method processes the schema lines, validates the schema fields, and populates the `parsedSchema` property.
@@ -328,12 +781,12 @@ export class SQON {
      */
     private parseSchema(): void {
         this.sectionStartTime = performance.now();
-        const schemaParser = new SQONSchema({ lines: this.lines, position: this.position, allowedTypes: this.allowedTypes });
+        const schemaParser = new SQONSchema({ lines: this.lines, position: this.position, allowedTypes: this.allowedTypes, types: this.types });
         const results = schemaParser.parseSchema();
         this.metadata.sections.schema.timeMs = performance.now() - this.sectionStartTime;
         
-        this.parsedSchema = results.parsedSchema;
-        this.errors.push(...results.errors.slice(0, this.MAX_ERRORS));
+        this.parsedSchema = { ...this.parsedSchema, ...results.parsedSchema };
+        this.errors.push(...this.resolveDiagnostics(results.errors.slice(0, this.MAX_ERRORS)));
         this.lines = results.lines;
         this.position = results.position;
     }
@@ -350,12 +803,15 @@ export class SQON {
             lines: this.lines, 
             position: this.position, 
             parsedSchema: this.parsedSchema, 
+            types: this.types,
+            typeValidations: this.typeValidations,
             validationKeywords: this.validationKeywords 
         });
         const results = validationParser.parseValidation();
         this.metadata.sections.validations.timeMs = performance.now() - this.sectionStartTime;
-        this.validations = results.validations;
-        this.errors.push(...results.errors.slice(0, this.MAX_ERRORS));
+        this.validations = SQON.mergeValidations(this.validations, results.validations);
+        this.typeValidations = results.typeValidations;
+        this.errors.push(...this.resolveDiagnostics(results.errors.slice(0, this.MAX_ERRORS)));
         this.lines = results.lines;
         this.position = results.position;
     }
@@ -371,13 +827,428 @@ export class SQON {
         const recordParser = new SQONRecords(this.lines, this.position);
         const results = recordParser.parseRecords(500);
         this.metadata.sections.records.timeMs = performance.now() - this.sectionStartTime;
-        this.errors.push(...results.errors.slice(0, this.MAX_ERRORS));
+        this.errors.push(...this.resolveDiagnostics(results.errors.slice(0, this.MAX_ERRORS)));
         this.records = results.records;
-        this.position = results.position;
+        this.recordLines = results.recordLines;
+        this.recordSources = results.recordSources;
+        this.position = this.lines[results.position - 1] === '@end' ? results.position - 1 : results.position;
     }
-    
+
+    /**
+     * Validates every parsed record against the `@schema` and `@validations` sections.
+     * Violations are reported as errors when strict mode is enabled, and as warnings otherwise.
+     * 
+     * @async
+     * @returns {Promise<void>} - No return value. Updates the `errors` property of the instance.
+     */
+    private async validateRecords(): Promise<void> {
+        if (this.records.length === 0 || Object.keys(this.parsedSchema).length === 0) return;
+
+        const violations: Diagnostic[] = [];
+        for (const [index, record] of this.records.entries()) {
+            violations.push(...await this.validateRecord(record, this.recordLines[index] ?? null, this.recordSources[index]));
+            if (violations.length >= this.MAX_ERRORS) break;
+        }
+        this.errors.push(...this.resolveDiagnostics(violations.slice(0, this.MAX_ERRORS)));
+    }
+
+    /**
+     * Gives the parsed records their `@id` and checks that every ID is used by a single document of the file.
+     * 
+     * @returns {void} - No return value. Updates the records and the `errors` property of the instance.
+     */
+    private checkIds(): void {
+        const errors = this.records.flatMap((record, index) => this.checkId(record, this.recordLines[index] ?? null));
+        this.errors.push(...this.resolveDiagnostics(errors.slice(0, this.MAX_ERRORS)));
+    }
+
+    /**
+     * Gives a record the value of the collection's `primaryKey` field as its `@id`, unless its header sets one,
+     * and checks that no other document of the file, in any collection, has the same ID.
+     * 
+     * @param {Document} record - The record to check.
+     * @param {number | null} line - The line the record starts on.
+     * @returns {Diagnostic[]} - A diagnostic if the ID is already used, or differs from the primary key field.
+     */
+    private checkId(record: Document, line: number | null): Diagnostic[] {
+        const docNumber = record['#doc'];
+        const primaryKey = Object.keys(this.validations).find((field) => this.validations[field]?.rules?.primaryKey === true);
+        const key = record.data.find((item) => item.key === primaryKey);
+        const errors: Diagnostic[] = [];
+
+        if (key && ['string', 'number', 'bigint'].includes(typeof key.value)) {
+            const value = String(key.value);
+            if (record['@id'] === undefined) {
+                record['@id'] = value;
+            } else if (record['@id'] !== value) {
+                errors.push(SQONDiagnostics.create('IdMismatch', {
+                    line,
+                    section: 'records',
+                    document: docNumber,
+                    field: primaryKey,
+                    message: `Document #${docNumber}: @id '${record['@id']}' differs from its primary key ${primaryKey}, '${value}'.`,
+                }));
+            }
+        }
+
+        const id = record['@id'];
+        if (id === undefined) return errors;
+
+        const existing = this.documentIds.get(id);
+        if (existing) {
+            const owner = existing.collection === this.collection ? '' : ` of ${existing.collection === null ? 'the unnamed collection' : `collection '${existing.collection}'`}`;
+            errors.push(SQONDiagnostics.create('DuplicateId', {
+                line,
+                section: 'records',
+                document: docNumber,
+                message: `Document #${docNumber}: @id '${id}' is already used by Document #${existing.docNumber}${owner}.`,
+            }));
+        } else {
+            this.documentIds.set(id, { collection: this.collection, docNumber });
+        }
+        return errors;
+    }
+
+    /**
+     * Validates a single document of a file against the schema and validations of its collection, and checks its `@id`,
+     * its unique fields and its references against every other document. Writes use it to check only the document they change.
+     * 
+     * @async
+     * @param {number} docNumber - The number of the document in its collection.
+     * @param {string | null} collection - The collection of the document, or null for the default collection.
+     * @returns {Promise<{ document: Document | null; errors: Diagnostic[]; warnings: Diagnostic[] }>} - The parsed document, and the errors and warnings it causes.
+     */
+    private async checkDocument(docNumber: number, collection: string | null): Promise<{ document: Document | null; errors: Diagnostic[]; warnings: Diagnostic[] }> {
+        await this.parse();
+
+        this.useCollection(collection);
+        const index = this.records.findIndex((record) => record['#doc'] === docNumber);
+        if (index === -1) {
+            const error = SQONDiagnostics.create('DocumentNotFound', { line: null, section: 'records', document: docNumber, message: `Document #${docNumber} could not be parsed.` });
+            return { document: null, errors: [error], warnings: [] };
+        }
+        const document = this.records[index];
+        const line = this.recordLines[index] ?? null;
+        const source = this.recordSources[index];
+
+        this.documentIds = new Map();
+        for (const name of [...this.collectionNames, null]) {
+            this.useCollection(name);
+            this.uniqueValues = {};
+            for (const record of this.records) {
+                if (record === document) continue;
+                if (record['@id'] !== undefined && !this.documentIds.has(record['@id'])) {
+                    this.documentIds.set(record['@id'], { collection: name, docNumber: record['#doc'] });
+                }
+                if (name === collection) this.checkUnique(record, SQONDocuments.toObject(record), null);
+            }
+        }
+
+        this.useCollection(collection);
+        const diagnostics = [...this.checkId(document, line), ...await this.validateRecord(document, line, source)];
+        if (this.checkReferences) {
+            const references = new SQONReferences(this.parsedSchema, (target) => this.referenceTarget(target));
+            diagnostics.push(...(await references.check([document], line === null ? [] : [line])).filter((error) => error.document !== undefined));
+        }
+        const resolved = this.resolveDiagnostics(diagnostics);
+        return {
+            document,
+            errors: resolved.filter((diagnostic) => diagnostic.severity === 'error'),
+            warnings: resolved.filter((diagnostic) => diagnostic.severity === 'warning'),
+        };
+    }
+
+    /**
+     * Checks that the `Ref<target>` fields of the parsed records point at existing documents.
+     * 
+     * @async
+     * @returns {Promise<void>} - No return value. Adds a diagnostic to `errors` for each dangling reference.
+     */
+    private async validateReferences(): Promise<void> {
+        if (this.records.length === 0) return;
+
+        const references = new SQONReferences(this.parsedSchema, (target) => this.referenceTarget(target));
+        const errors = await references.check(this.records, this.recordLines);
+        this.errors.push(...this.resolveDiagnostics(errors.slice(0, this.MAX_ERRORS)));
+    }
+
+    /**
+     * Loads the documents a `Ref<target>` field points at: a named collection of this file, the records of `./file.sqon`,
+     * or a collection of another file with `./file.sqon:collection`. Other files are resolved like imports and parsed once.
+     * 
+     * @async
+     * @param {string} target - The target of the reference.
+     * @returns {Promise<Document[] | null>} - The documents of the target, or null if it cannot be found.
+     */
+    private async referenceTarget(target: string): Promise<Document[] | null> {
+        const match = target.match(/^(.+\.sqon)(?::([A-Za-z_][\w-]*))?$/);
+        if (!match) {
+            return target === this.collection ? this.records : this.collections.get(target)?.records ?? null;
+        }
+
+        let file = this.referencedFiles.get(match[1]);
+        if (!file) {
+            file = this.parseReferencedFile(match[1]);
+            this.referencedFiles.set(match[1], file);
+        }
+
+        const result = await file;
+        if (!result) return null;
+        return match[2] ? result.collections?.[match[2]]?.records ?? null : result.records;
+    }
+
+    /**
+     * Parses a file targeted by references, without checking its own references.
+     * 
+     * @async
+     * @param {string} specifier - The path of the file, relative to this file.
+     * @returns {Promise<ParsedResult | null>} - The parsed file, or null if it cannot be loaded.
+     */
+    private async parseReferencedFile(specifier: string): Promise<ParsedResult | null> {
+        try {
+            const resolved = await (this.resolveImport ?? SQON.readImport)(specifier, this.filePath);
+            const parser = new SQON({ filePath: resolved.path, fileContent: resolved.content, resolveImport: this.resolveImport });
+            parser.checkReferences = false;
+            return await parser.parse();
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Validates a single record against the schema and validation rules, including uniqueness across records.
+     * 
+     * @async
+     * @param {Document} record - The record to validate.
+     * @param {number | null} line - The line the record starts on.
+     * @param {RecordSource} [source] - The content of the record and the lines it comes from, so violations point at their field.
+     * @returns {Promise<Diagnostic[]>} - The violations found in the record.
+     */
+    private async validateRecord(record: Document, line: number | null, source?: RecordSource): Promise<Diagnostic[]> {
+        const severity = this.fileRules.Strict ? 'error' : 'warning';
+        const docNumber = record['#doc'];
+        const data = SQONDocuments.toObject(record);
+        const violations: Diagnostic[] = [];
+
+        const result = await new Validator().validate({
+            schema: this.parsedSchema,
+            validateData: this.validations,
+            data,
+            strict: this.fileRules.Strict
+        });
+
+        const fields = result.errors?.length && source ? SQONRecords.locateFields(source) : {};
+        for (const error of result.errors ?? []) {
+            violations.push(SQONDiagnostics.create('SchemaViolation', {
+                ...this.fieldPosition(error.field, line, fields),
+                section: 'records',
+                document: docNumber,
+                field: error.field,
+                severity,
+                message: `Document #${docNumber}: ${error.message}`,
+            }));
+        }
+
+        violations.push(...this.checkUnique(record, data, line, source));
+        return violations;
+    }
+
+    /**
+     * Checks the `isUnique` fields of a record against the values of the records checked before it, and records its values.
+     * 
+     * @param {Document} record - The record to check.
+     * @param {Record<string, any>} data - The record as a plain object.
+     * @param {number | null} line - The line the record starts on.
+     * @param {RecordSource} [source] - The content of the record and the lines it comes from.
+     * @returns {Diagnostic[]} - A diagnostic for each value already used by another record.
+     */
+    private checkUnique(record: Document, data: Record<string, any>, line: number | null, source?: RecordSource): Diagnostic[] {
+        const severity = this.fileRules.Strict ? 'error' : 'warning';
+        const docNumber = record['#doc'];
+        const violations: Diagnostic[] = [];
+
+        for (const [field, input] of Object.entries(this.validations)) {
+            const value = data[field];
+            if (!input?.rules?.isUnique || value === undefined || value === null || typeof value === 'object' && !(value instanceof Date)) continue;
+
+            const uniqueKey = value instanceof Date ? value.getTime() : value;
+            const seen = this.uniqueValues[field] ??= new Map();
+            if (seen.has(uniqueKey)) {
+                violations.push(SQONDiagnostics.create('DuplicateValue', {
+                    ...this.fieldPosition(field, line, source ? SQONRecords.locateFields(source) : {}),
+                    section: 'records',
+                    document: docNumber,
+                    field,
+                    severity,
+                    message: `Document #${docNumber}: ${field} duplicates the value of Document #${seen.get(uniqueKey)}`,
+                }));
+            } else {
+                seen.set(uniqueKey, docNumber);
+            }
+        }
+
+        return violations;
+    }
+
+    /**
+     * Finds where a field of a record starts. Fields missing from the record point at their closest enclosing field,
+     * or at the start of the record.
+     * 
+     * @param {string | undefined} field - The path of the field, such as `home.city` or `homes[0].city`.
+     * @param {number | null} line - The line the record starts on.
+     * @param {FieldPositions} fields - Where each field of the record starts.
+     * @returns {{ line: number | null; column: number | null }} - The line and column of the field.
+     */
+    private fieldPosition(field: string | undefined, line: number | null, fields: FieldPositions): { line: number | null; column: number | null } {
+        let path = field ?? '';
+        while (path) {
+            if (fields[path]) return fields[path];
+            const parent = path.replace(/(\.[^.[]*|\[[^\]]*\])$/, '');
+            path = parent === path ? '' : parent;
+        }
+        return { line, column: line === null ? null : 1 };
+    }
+
+    /**
+     * Creates a diagnostic reported by the parser itself, resolved to its source location.
+     * 
+     * @param {DiagnosticKind} kind - The kind of diagnostic.
+     * @param {DiagnosticSection} section - The section the diagnostic belongs to.
+     * @param {string} message - The diagnostic message.
+     * @param {number | null} position - The 1-based position of the line in `lines`, or null when it applies to the whole file.
+     * @param {number} [column=1] - The 1-based column in the trimmed line.
+     * @returns {Diagnostic} - The resolved diagnostic.
+     */
+    private diagnostic(kind: DiagnosticKind, section: DiagnosticSection, message: string, position: number | null, column: number = 1): Diagnostic {
+        return this.resolveDiagnostics([SQONDiagnostics.create(kind, { line: position, column, section, message })])[0];
+    }
+
+    /**
+     * Maps diagnostics reported against positions in `lines` to source line numbers and columns,
+     * and attaches a caret-annotated excerpt of the offending line.
+     * 
+     * @param {Diagnostic[]} diagnostics - The diagnostics to resolve.
+     * @returns {Diagnostic[]} - The resolved diagnostics.
+     */
+    private resolveDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+        return diagnostics.map((diagnostic) => {
+            if (diagnostic.line === null) return diagnostic;
+
+            const source = this.streamWindow.get(diagnostic.line) ?? (diagnostic.line <= this.lines.length
+                ? { text: this.lines[diagnostic.line - 1], line: this.lineNumbers[diagnostic.line - 1], indent: this.lineIndents[diagnostic.line - 1] }
+                : undefined);
+            if (!source) return diagnostic;
+
+            const column = diagnostic.column === null ? null : diagnostic.column + source.indent;
+            return {
+                ...diagnostic,
+                line: source.line,
+                column,
+                excerpt: SQONDiagnostics.excerpt(' '.repeat(source.indent) + source.text, source.line, column),
+            };
+        });
+    }
+
+    /**
+     * Queries the records of the last `parse()` call.
+     * Conditions are keyed by field, with dot-paths into nested objects and arrays, and use the operators
+     * `$eq`, `$ne`, `$gt`, `$gte`, `$lt`, `$lte`, `$in`, `$nin`, `$regex`, `$exists` and `$not`, combined with `$and` and `$or`.
+     * Values are compared according to their SQON type, so `Date`, `BigInt`, `Decimal` and `Binary` fields compare by value.
+     * 
+     * @param {QueryFilter} [filter={}] - The conditions the documents must match.
+     * @returns {SQONQuery} - A query that can be sorted, projected and limited before reading its results.
+     * @throws {Error} If the file has not been parsed yet.
+     */
+    find(filter: QueryFilter = {}): SQONQuery {
+        if (this.parsingStartTime === 0) {
+            throw new Error("Records must be parsed before they can be queried. Call 'parse()' first.");
+        }
+
+        return new SQONQuery(this.records, filter);
+    }
+
+    /**
+     * Replaces the references of documents by the documents they point at, as nested objects.
+     * References are `Ref<target>` fields holding the document number or `@id` of another collection or file, and those pointing at no document are left as they are.
+     * 
+     * @async
+     * @param {Document[]} documents - The documents to populate, such as the results of `find()`.
+     * @param {string[]} fields - The dot-paths of the `Ref` fields to populate.
+     * @param {string} [collection] - The named collection the documents belong to. Defaults to the unnamed `@records` section.
+     * @returns {Promise<Document[]>} - Copies of the documents with the references replaced.
+     * @throws {Error} If the file has not been parsed yet, the collection does not exist, or a field is not a `Ref` field.
+     */
+    async populate(documents: Document[], fields: string[], collection?: string): Promise<Document[]> {
+        if (this.parsingStartTime === 0) {
+            throw new Error("Records must be parsed before they can be populated. Call 'parse()' first.");
+        }
+
+        const schema = collection === undefined ? this.parsedSchema : this.collections.get(collection)?.parsedSchema;
+        if (!schema) {
+            throw new Error(`Unknown collection '${collection}'.`);
+        }
+        return new SQONReferences(schema, (target) => this.referenceTarget(target)).populate(documents, fields);
+    }
+
+    /**
+     * Runs an aggregation pipeline over the records of the last `parse()` call, or over the given documents.
+     * The stages are `$match`, `$group` (with the `$count`, `$sum`, `$avg`, `$min` and `$max` accumulators), `$unwind`, `$sort` and `$project`.
+     * 
+     * @async
+     * @param {PipelineStage[]} pipeline - The stages, applied in order.
+     * @param {AggregationSource} [source] - The documents to aggregate, such as the iterator of `streamRecords()`. Defaults to the parsed records.
+     * @returns {Promise<Document[]>} - The documents produced by the last stage.
+     * @throws {Error} If a stage is malformed, or if no source is given and the file has not been parsed yet.
+     */
+    async aggregate(pipeline: PipelineStage[], source?: AggregationSource): Promise<Document[]> {
+        const aggregation = new SQONAggregation(pipeline);
+        if (!source && this.parsingStartTime === 0) {
+            throw new Error("Records must be parsed before they can be aggregated. Call 'parse()' first, or pass the documents to aggregate.");
+        }
+
+        return aggregation.run(source ?? this.records);
+    }
+
+    /**
+     * Serializes a parsed result, or a schema with plain object records, back into SQON text.
+     * Records are renumbered sequentially, and the output parses back to the same schema, validations and records.
+     *
+     * @static
+     * @param {StringifyInput} result - The parsed result or plain data to serialize.
+     * @param {StringifyOptions} [options] - Formatting options (indentation and line endings).
+     * @returns {string} - The SQON text.
+     */
+    static stringify(result: StringifyInput, options: StringifyOptions = {}): string {
+        return new SQONSerializer(options).stringify(result);
+    }
+
+    /**
+     * Converts a parsed document into a plain object with real nested objects, arrays and JavaScript values.
+     *
+     * @static
+     * @param {Document} document - The parsed document.
+     * @returns {Record<string, any>} - The plain object.
+     */
+    static toObject(document: Document): Record<string, any> {
+        return SQONDocuments.toObject(document);
+    }
+
+    /**
+     * Converts a plain object back into a parsed document, using the schema to pick the type of each value.
+     *
+     * @static
+     * @param {Record<string, any>} data - The plain object.
+     * @param {Record<string, any>} [schema] - The parsed schema.
+     * @param {number} [docNumber=0] - The document number.
+     * @returns {Document} - The parsed document.
+     */
+    static fromObject(data: Record<string, any>, schema: Record<string, any> = {}, docNumber: number = 0): Document {
+        return SQONDocuments.fromObject(data, schema, docNumber);
+    }
+
     /**
      * Reprocesses and optionally updates the document by renumbering the records in the `@records` section.
+     * Each named collection's `@records name` section is numbered independently, starting from 0.
      * If `content` is provided, it will use that content, otherwise, it will read from the file.
      * 
      * @async
@@ -394,8 +1265,9 @@ export class SQON {
             const updatedLines: string[] = [];
     
             for (const line of lines) {
-                if (line.trim() === '@records') {
+                if (/^@records(\s+[A-Za-z_][\w-]*)?$/.test(line.trim())) {
                     inRecordsSection = true;
+                    newDocNumber = 0;
                     updatedLines.push(line);
                 } else if (line.trim() === '@end' && inRecordsSection) {
                     inRecordsSection = false;
@@ -421,6 +1293,195 @@ export class SQON {
             throw error;
         }
     }
+
+    /**
+     * Appends a document to the file's `@records` section, or to the `@records name` section of a named collection.
+     * The document is validated against the schema and validations of its collection, and the file is only written if it has no errors.
+     * Violations are only errors in `*STRICT=TRUE` files: in other files they are returned as `warnings` and the document is written.
+     * 
+     * @async
+     * @param {Record<string, any>} data - The document, as a plain object.
+     * @param {string} [id] - A stable ID for the document, written in its header as `#n @id=... ->`.
+     * @param {string} [collection] - The named collection to write to. Defaults to the unnamed one.
+     * @returns {Promise<WriteResult>} - The new document, its number and its warnings, or the errors that prevented the write.
+     * @throws {Error} If the ID contains characters other than letters, digits, `_`, `.`, `:` and `-`.
+     */
+    async insert(data: Record<string, any>, id?: string, collection?: string): Promise<WriteResult> {
+        return this.write((writer) => writer.insert(data, id, collection));
+    }
+
+    /**
+     * Merges a patch into a document of the file. Fields set to `undefined` in the patch are removed.
+     * The updated document is validated like an inserted one.
+     * 
+     * @async
+     * @param {number | string} target - The number or the `@id` of the document to update.
+     * @param {Record<string, any>} patch - The fields to change.
+     * @param {string} [collection] - The named collection of the document. Defaults to the unnamed one.
+     * @returns {Promise<WriteResult>} - The updated document, or the errors that prevented the write.
+     */
+    async update(target: number | string, patch: Record<string, any>, collection?: string): Promise<WriteResult> {
+        return this.write((writer) => writer.update(target, patch, collection));
+    }
+
+    /**
+     * Removes a document from the file and renumbers the documents after it.
+     * 
+     * @async
+     * @param {number | string} target - The number or the `@id` of the document to delete.
+     * @param {string} [collection] - The named collection of the document. Defaults to the unnamed one.
+     * @returns {Promise<WriteResult>} - The deleted document.
+     */
+    async delete(target: number | string, collection?: string): Promise<WriteResult> {
+        return this.write((writer) => writer.delete(target, collection));
+    }
+
+    /**
+     * Updates the first document whose fields equal those of `match`, or appends a new document when none does.
+     * 
+     * @async
+     * @param {Record<string, any>} match - The fields identifying the document.
+     * @param {Record<string, any>} data - The fields to write.
+     * @param {string} [collection] - The named collection of the document. Defaults to the unnamed one.
+     * @returns {Promise<WriteResult>} - The written document, or the errors that prevented the write.
+     */
+    async upsert(match: Record<string, any>, data: Record<string, any>, collection?: string): Promise<WriteResult> {
+        return this.write((writer) => writer.upsert(match, data, collection));
+    }
+
+    /**
+     * Runs a write operation once the previous ones on this instance have finished, so concurrent calls never overwrite each other.
+     * 
+     * @async
+     * @param {(writer: SQONWriter) => Promise<WriteResult>} operation - The operation to run.
+     * @returns {Promise<WriteResult>} - The result of the operation.
+     */
+    private async write(operation: (writer: SQONWriter) => Promise<WriteResult>): Promise<WriteResult> {
+        const writer = new SQONWriter({
+            filePath: this.requireFilePath('write records'),
+            parse: (content) => new SQON({ fileContent: content, filePath: this.filePath, resolveImport: this.resolveImport }).parse(),
+            validate: (content, docNumber, collection) => new SQON({ fileContent: content, filePath: this.filePath, resolveImport: this.resolveImport }).checkDocument(docNumber, collection),
+            renumber: async (content) => (await this.redoc(content)) as string,
+        });
+
+        const result = this.writeQueue.then(() => operation(writer));
+        this.writeQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Builds an index from the values of a field to the documents holding them, and saves it next to the file as `<file>.idx`.
+     * The index is rebuilt automatically when the file's size or modification time changes.
+     * 
+     * @async
+     * @param {string} field - The dot-path of the field to index. Array fields are indexed by each of their elements.
+     * @param {IndexOptions} [options] - Index options.
+     * @param {boolean} [options.unique=false] - Whether every value must belong to a single document.
+     * @returns {Promise<IndexResult>} - The number of distinct values, or the duplicates that prevent a unique index.
+     */
+    async createIndex(field: string, options: IndexOptions = {}): Promise<IndexResult> {
+        return this.indexes('create indexes', (indexes) => indexes.create(field, options));
+    }
+
+    /**
+     * Finds the documents whose indexed field holds a value. Only the lines of the matching documents are read and parsed.
+     * 
+     * @async
+     * @param {string} field - The dot-path of an indexed field.
+     * @param {any} value - The value to look up, of the field's type (a `Date` for a `Date` field, a `Buffer` for a `Binary` field).
+     * @returns {Promise<Document[]>} - The matching documents, in file order.
+     * @throws {Error} If the field is not indexed.
+     */
+    async lookup(field: string, value: any): Promise<Document[]> {
+        return this.indexes('look up records', (indexes) => indexes.lookup(field, value));
+    }
+
+    /**
+     * Removes the index of a field.
+     * 
+     * @async
+     * @param {string} field - The dot-path of the indexed field.
+     * @returns {Promise<boolean>} - True if the field was indexed.
+     */
+    async dropIndex(field: string): Promise<boolean> {
+        return this.indexes('drop indexes', (indexes) => indexes.drop(field));
+    }
+
+    /**
+     * Reads a single document by its number, or by its `@id`, parsing only that document.
+     * The byte offset of every document is found in one scan of the `@records` section, and the table is kept until the file changes.
+     * An `@id` is looked up in the document headers and, for documents whose header sets none, in the `primaryKey` field.
+     * 
+     * @async
+     * @param {number | string} target - The document number, or the `@id` of the document.
+     * @returns {Promise<Document | null>} - The document, or null if there is no such document.
+     */
+    async getDocument(target: number | string): Promise<Document | null> {
+        if (typeof target === 'string') {
+            return this.indexes('read documents by ID', async (indexes) => indexes.find(target, await this.primaryKey(await indexes.header())));
+        }
+
+        const [document] = await this.getRange(target, target);
+        return document ?? null;
+    }
+
+    /**
+     * Reads the documents in a range of document numbers, parsing only those documents.
+     * 
+     * @async
+     * @param {number} from - The first document number.
+     * @param {number} to - The last document number, included.
+     * @returns {Promise<Document[]>} - The documents, in file order.
+     */
+    async getRange(from: number, to: number): Promise<Document[]> {
+        return this.indexes('read documents by number', async (indexes) => indexes.read(await indexes.locate(from, to, this.cacheOffsets)));
+    }
+
+    /**
+     * Runs an operation on the manager of the file's indexes and offset table, shared by the calls on this instance,
+     * once the previous index operations on this instance have finished, so concurrent calls never overwrite each other's index file.
+     * 
+     * @async
+     * @param {string} action - The operation, for the error message when there is no file path.
+     * @param {(indexes: SQONIndexes) => Promise<T>} operation - The operation to run.
+     * @returns {Promise<T>} - The result of the operation.
+     */
+    private async indexes<T>(action: string, operation: (indexes: SQONIndexes) => Promise<T>): Promise<T> {
+        if (!this.indexManager) {
+            this.indexManager = new SQONIndexes(this.requireFilePath(action));
+        }
+        const indexes = this.indexManager;
+
+        const result = this.indexQueue.then(() => operation(indexes));
+        this.indexQueue = result.catch(() => undefined);
+        return result;
+    }
+
+    /**
+     * Finds the `primaryKey` field of the unnamed collection, by parsing the sections before its `@records` section.
+     * 
+     * @async
+     * @param {string} header - The text before the `@records` section.
+     * @returns {Promise<string | undefined>} - The field marked with the `primaryKey` validation rule, if any.
+     */
+    private async primaryKey(header: string): Promise<string | undefined> {
+        const { validations } = await new SQON({ fileContent: header, filePath: this.filePath, resolveImport: this.resolveImport }).parse();
+        return Object.keys(validations).find((field) => validations[field]?.rules?.primaryKey === true);
+    }
+
+    /**
+     * Returns the file path for operations that work on the file itself.
+     * 
+     * @param {string} action - The operation, for the error message.
+     * @returns {string} - The file path.
+     * @throws {Error} If the instance was created from `fileContent` only.
+     */
+    private requireFilePath(action: string): string {
+        if (!this.filePath) {
+            throw new Error(`Invalid configuration: 'filePath' must be provided to ${action}.`);
+        }
+        return this.filePath;
+    }
     
 
     /**
@@ -29,6 +29,15 @@ fetch("https://registry.npmjs.com/-/v1/search?text=sqon-parser")
     .catch(function(error: any) {});
 
     export { SQON } from "./parser";;
+    export { Convertor } from "./extends/convertor";
     export type * from './types/validator';
     export type * from './types/general';
     export type * from './types/records';
+    export type * from './types/diagnostics';
+    export type * from './types/writer';
+    export type * from './types/query';
+    export type * from './types/aggregation';
+    export type * from './types/indexes';
+    export type * from './types/imports';
+    export type * from './types/references';
+    export type * from './types/convertor';
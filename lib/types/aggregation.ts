@@ -0,0 +1,30 @@
+import { Document } from './general';
+import { QueryFilter, SortSpec } from './query';
+
+export type Accumulator =
+| { $count: Record<string, never> }
+| { $sum: string | number }
+| { $avg: string }
+| { $min: string }
+| { $max: string };
+
+export type GroupId = string | number | boolean | null | { [field: string]: GroupId };
+
+export type GroupStage = {
+    _id: GroupId;
+    [field: string]: Accumulator | GroupId;
+};
+
+export type UnwindStage = string | {
+    path: string;
+    preserveNullAndEmptyArrays?: boolean;
+};
+
+export type PipelineStage =
+| { $match: QueryFilter }
+| { $group: GroupStage }
+| { $unwind: UnwindStage }
+| { $sort: SortSpec }
+| { $project: string[] };
+
+export type AggregationSource = Iterable<Document> | AsyncIterable<Document>;
@@ -0,0 +1,106 @@
+import { BinaryEncoding } from './general';
+
+export type ConvertorFormat = 'JSON' | 'XML' | 'YAML' | 'SQL' | 'CSV';
+
+export type CsvArrayMode = 'indexed' | 'json';
+
+export interface CsvOptions {
+    delimiter?: string;
+    quote?: string;
+    quoteAll?: boolean;
+    header?: boolean;
+    columns?: string[];
+    arrays?: CsvArrayMode;
+    lineEnding?: string;
+}
+
+export interface ConvertedRecord {
+    data: Record<string, any>;
+    id?: string;
+    decimals?: string[][];
+}
+
+export interface XmlOptions {
+    root?: string;
+    record?: string;
+    attributes?: 'fields' | 'ignore';
+    attributeFields?: string[];
+    textField?: string;
+    indent?: number;
+}
+
+export interface XmlElement {
+    name: string;
+    attributes: Record<string, string>;
+    children: XmlElement[];
+    text: string;
+    line: number;
+}
+
+export interface XmlInstruction {
+    target: string;
+    content: string;
+}
+
+export interface XmlDocument {
+    root: XmlElement;
+    instructions: XmlInstruction[];
+}
+
+export type SqlDialect = 'postgres' | 'mysql' | 'sqlite';
+
+export interface SqlOptions {
+    dialect?: SqlDialect;
+    table?: string;
+    nested?: 'json' | 'tables';
+    batchSize?: number;
+}
+
+export interface SqlColumn {
+    name: string;
+    type: string;
+    notNull: boolean;
+    unique: boolean;
+    primaryKey: boolean;
+}
+
+export type SqlValue = null | boolean | string | { number: string } | Buffer | undefined;
+
+export interface SqlRow {
+    values: Record<string, SqlValue>;
+    line: number;
+}
+
+export interface SqlTable {
+    name: string;
+    columns: SqlColumn[];
+    rows: SqlRow[];
+}
+
+export interface SqlDump {
+    tables: SqlTable[];
+    schema?: string;
+}
+
+export type JsonMode = 'plain' | 'typed';
+
+export interface JsonOptions {
+    mode?: JsonMode;
+    indent?: number;
+}
+
+export interface JsonImport {
+    records: ConvertedRecord[];
+    header?: Record<string, any>;
+}
+
+export interface ConvertorConfig {
+    format: ConvertorFormat;
+    binaryEncoding?: BinaryEncoding;
+    schema?: string;
+    includeSchema?: boolean;
+    csv?: CsvOptions;
+    xml?: XmlOptions;
+    sql?: SqlOptions;
+    json?: JsonOptions;
+}
@@ -0,0 +1,26 @@
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticSection = 'file' | 'types' | 'schema' | 'validations' | 'records';
+
+export interface Diagnostic {
+    code: string;
+    severity: DiagnosticSeverity;
+    line: number | null;
+    column: number | null;
+    section: DiagnosticSection;
+    document?: number;
+    field?: string;
+    message: string;
+    excerpt?: string;
+    file?: string;
+}
+
+export interface DiagnosticDetails {
+    line: number | null;
+    column?: number | null;
+    section: DiagnosticSection;
+    document?: number;
+    field?: string;
+    message: string;
+    severity?: DiagnosticSeverity;
+}
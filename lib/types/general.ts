@@ -1,16 +1,44 @@
+import { Diagnostic } from './diagnostics';
+import { ImportResolver, TypeValidations } from './imports';
+
+
+export type DocumentItem = { key: string; value: any; type: string };
 
 export type Document = {
     '#doc': number;
-    data: Array<{ key: string; value: any; type: string }>;
+    '@id'?: string;
+    data: DocumentItem[];
 };
 
-export interface ParsedResult {
+export interface ParsedResult<R = Document> {
     fileRules: { Strict: boolean; };
+    types?: Record<string, any>;
+    typeValidations?: TypeValidations;
     schema: Record<string, any>;
     validations: Record<string, any>;
-    records: Document[];
-    errors: { line: number | null; message: string }[];
+    records: R[];
+    errors: Diagnostic[];
     metadata?: ParsingMetadata; 
+    collections?: Record<string, CollectionResult<R>>;
+}
+
+export interface CollectionMetadata {
+    recordCount: number;
+    schemaFieldCount: number;
+    validationRuleCount: number;
+}
+
+export interface CollectionResult<R = Document> {
+    schema: Record<string, any>;
+    validations: Record<string, any>;
+    records: R[];
+    metadata: CollectionMetadata;
+}
+
+export interface SourceLine {
+    text: string;
+    line: number;
+    indent: number;
 }
 
 export interface ParsingMetadata {
@@ -33,10 +61,33 @@ export interface ParsingMetadata {
     };
 }
 
+export type BinaryEncoding = 'bytes' | 'base64' | 'hex';
+
+export interface StringifyOptions {
+    indent?: number;
+    lineEnding?: '\n' | '\r\n';
+    binaryEncoding?: BinaryEncoding;
+}
+
+export type StringifyInput = Partial<Pick<ParsedResult, 'fileRules' | 'types' | 'typeValidations' | 'schema' | 'validations'>> & {
+    records?: Array<Document | Record<string, any>>;
+    collections?: Record<string, StringifyCollection>;
+};
+
+export type StringifyCollection = Partial<Pick<CollectionResult, 'schema' | 'validations'>> & {
+    records?: Array<Document | Record<string, any>>;
+};
+
+export interface ParseOptions {
+    output?: 'documents' | 'objects';
+}
+
 export interface ParserConfig {
     filePath?: string;
     fileContent?: string
     section?: 'schema' | 'records';
+    cacheOffsets?: boolean;
+    resolveImport?: ImportResolver;
 }
 
 
@@ -45,6 +96,8 @@ export type AllowedTypes =
     | 'undefined'
     | 'Null'
     | 'Number'
+    | 'BigInt'
+    | 'Decimal'
     | 'NumberArray'
     | 'String'
     | 'StringArray'
@@ -55,8 +108,10 @@ export type AllowedTypes =
     | 'String[]'
     | '[]'
     | 'Array'
+    | 'AnyArray'
     | 'Object'
     | 'Binary'
     | 'Uint8Array'
     | 'Date'
-    | 'Boolean';
\ No newline at end of file
+    | 'Boolean'
+    | 'Ref';
\ No newline at end of file
@@ -0,0 +1,8 @@
+export type ResolvedImport = {
+    path: string;
+    content: string;
+};
+
+export type ImportResolver = (specifier: string, importer: string | undefined) => ResolvedImport | Promise<ResolvedImport>;
+
+export type TypeValidations = Record<string, Record<string, Record<string, any>>>;
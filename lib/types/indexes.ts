@@ -0,0 +1,40 @@
+import { Diagnostic } from './diagnostics';
+
+export type RecordOffset = {
+    docNumber: number;
+    line: number;
+    offset: number;
+    length: number;
+};
+
+export type RecordBlockText = RecordOffset & {
+    text: string;
+};
+
+export type IndexOptions = {
+    unique?: boolean;
+};
+
+export type IndexResult = {
+    success: boolean;
+    field: string;
+    unique: boolean;
+    keys: number;
+    errors: Diagnostic[];
+};
+
+export type IndexEntry = [docNumber: number, line: number, offset: number, length: number];
+
+export type IndexDefinition = {
+    unique: boolean;
+    entries: Record<string, IndexEntry[]>;
+};
+
+export type IndexFile = {
+    version: number;
+    size: number;
+    mtimeMs: number;
+    ino: number;
+    indexes: Record<string, IndexDefinition>;
+    offsets?: IndexEntry[];
+};
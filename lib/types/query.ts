@@ -0,0 +1,31 @@
+export type QueryOperators = {
+    $eq?: any;
+    $ne?: any;
+    $gt?: any;
+    $gte?: any;
+    $lt?: any;
+    $lte?: any;
+    $in?: any[];
+    $nin?: any[];
+    $regex?: RegExp | string;
+    $options?: string;
+    $exists?: boolean;
+    $not?: QueryOperators | RegExp;
+};
+
+export type QueryCondition = QueryOperators | RegExp | string | number | bigint | boolean | Date | Uint8Array | null;
+
+export type QueryFilter = {
+    $and?: QueryFilter[];
+    $or?: QueryFilter[];
+    [path: string]: QueryCondition | QueryFilter[] | undefined;
+};
+
+export type SortDirection = 1 | -1;
+
+export type SortSpec = Record<string, SortDirection>;
+
+export type TypedValue = {
+    value: any;
+    type: string;
+};
@@ -1,3 +1,5 @@
+import { Document } from './general';
+
 export type ParsedArrayItem = {
     key: string;
     value: any;
@@ -15,6 +17,21 @@ export type ParsedObjectKeyValue = {
     type: string;
 };
 
+export type FieldPositions = Record<string, { line: number; column: number }>;
+
+export type RecordSource = {
+    document: number;
+    content: string;
+    contentStart: number;
+    segments: Array<{ line: number; start: number }>;
+};
+
+export type CompletedRecords = {
+    records: Document[];
+    lines: number[];
+    sources: RecordSource[];
+};
+
 export interface Error {
     line: number | null;
     message: string;
@@ -22,4 +39,25 @@ export interface Error {
 
 export type ParsedValueResult = 
 | { value: any; type: string } 
-| { error: string; type: 'error' };
\ No newline at end of file
+| { error: string; type: 'error' };
+
+export type TokenType =
+| 'word'
+| 'string'
+| 'lparen'
+| 'rparen'
+| 'lbrace'
+| 'rbrace'
+| 'lbracket'
+| 'rbracket'
+| 'semicolon'
+| 'comma'
+| 'invalid'
+| 'eof';
+
+export interface Token {
+    type: TokenType;
+    text: string;
+    start: number;
+    end: number;
+}
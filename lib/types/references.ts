@@ -0,0 +1,8 @@
+import { Document } from './general';
+
+export type ReferenceField = {
+    path: string;
+    target: string;
+};
+
+export type ReferenceResolver = (target: string) => Promise<Document[] | null>;
@@ -2,8 +2,9 @@ import { AllowedTypes } from "./general";
 
 export interface SchemaDefinition {
     type: AllowedTypes[];  // Ensure this references the same AllowedTypes
-    items?: SchemaDefinition;
+    items?: SchemaDefinition | Record<string, SchemaDefinition>;
     properties?: Record<string, SchemaDefinition>;
+    ref?: string;
   }
   
   export interface ValidationResult {
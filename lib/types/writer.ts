@@ -0,0 +1,33 @@
+import { Document, ParsedResult } from './general';
+import { Diagnostic } from './diagnostics';
+
+export interface WriteResult {
+    success: boolean;
+    docNumber: number | null;
+    document: Document | null;
+    errors: Diagnostic[];
+    warnings: Diagnostic[];
+}
+
+export interface WriterConfig {
+    filePath: string;
+    parse: (content: string) => Promise<ParsedResult>;
+    validate: (content: string, docNumber: number, collection: string | null) => Promise<{ document: Document | null; errors: Diagnostic[]; warnings: Diagnostic[] }>;
+    renumber: (content: string) => Promise<string>;
+}
+
+export interface RecordBlock {
+    docNumber: number | null;
+    id?: string;
+    start: number;
+    end: number;
+}
+
+export interface LoadedSection {
+    schema: Record<string, any>;
+    records: Document[];
+    lines: string[];
+    blocks: RecordBlock[];
+    recordsEnd: number;
+    parsed: ParsedResult;
+}
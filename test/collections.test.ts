@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQON } from '../lib/sqon';
+
+const source = `*STRICT=TRUE
+
+@schema users
+name -> String
+@end
+
+@records users
+#0 @id=u-ada -> name("Ada");
+#1 -> name("Bob");
+@end
+
+@schema orders
+userId -> Ref<users>
+total -> Number
+@end
+
+@validations orders
+total -> min=0
+@end
+
+@records orders
+#0 -> userId(0); total(12);
+#1 -> userId("u-ada"); total(30);
+#2 -> userId(1); total(5);
+@end
+`;
+
+test('parse returns each collection with its own schema, validations, records and numbering', async () => {
+    const parsed = await new SQON({ fileContent: source }).parse({ output: 'objects' });
+
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(parsed.records, []);
+    assert.deepEqual(Object.keys(parsed.collections ?? {}), ['users', 'orders']);
+    assert.deepEqual(parsed.collections?.users.records, [{ name: 'Ada' }, { name: 'Bob' }]);
+    assert.deepEqual(parsed.collections?.orders.validations, { total: { rules: { min: 0 } } });
+    assert.equal(parsed.collections?.orders.metadata.recordCount, 3);
+});
+
+test('each collection is numbered and validated on its own', async () => {
+    const { errors } = await new SQON({ fileContent: source.replace('#2 -> userId(1); total(5);', '#3 -> userId(7); total(-5);') }).parse();
+
+    assert.deepEqual(errors.map(({ code, document }) => ({ code, document })), [
+        { code: 'SQON4002', document: 3 },
+        { code: 'SQON5001', document: 3 },
+        { code: 'SQON5003', document: 3 },
+    ]);
+});
+
+test('redoc renumbers each collection from zero', async () => {
+    const shuffled = source.replace('#1 -> name("Bob");', '#5 -> name("Bob");').replace('#0 -> userId(0); total(12);', '#4 -> userId(0); total(12);');
+    const renumbered = await new SQON({ fileContent: shuffled }).redoc(shuffled);
+
+    assert.equal(renumbered, source);
+});
+
+test('stringify writes the collections back', async () => {
+    const parsed = await new SQON({ fileContent: source }).parse();
+    const reparsed = await new SQON({ fileContent: SQON.stringify(parsed) }).parse();
+
+    assert.deepEqual(reparsed.errors, []);
+    assert.deepEqual(reparsed.collections, parsed.collections);
+});
+
+test('populate replaces references by documents of another collection', async () => {
+    const sqon = new SQON({ fileContent: source.replace('#2 -> userId(1); total(5);', '#2 -> userId(9); total(5);') });
+    const { collections } = await sqon.parse();
+
+    const orders = await sqon.populate(collections!.orders.records, ['userId'], 'orders');
+    assert.deepEqual(orders.map(SQON.toObject), [
+        { userId: { name: 'Ada' }, total: 12 },
+        { userId: { name: 'Ada' }, total: 30 },
+        { userId: 9, total: 5 },
+    ]);
+
+    await assert.rejects(sqon.populate(orders, ['total'], 'orders'), /Ref/);
+    await assert.rejects(sqon.populate(orders, ['userId'], 'invoices'), /invoices/);
+});
+
+test('aggregate runs over the records of a collection', async () => {
+    const sqon = new SQON({ fileContent: source });
+    const { collections } = await sqon.parse();
+
+    const totals = await sqon.aggregate([
+        { $group: { _id: null, orders: { $count: {} }, total: { $sum: '$total' } } },
+    ], collections!.orders.records);
+    assert.deepEqual(totals.map(SQON.toObject), [{ _id: null, orders: 3, total: 47 }]);
+});
@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Convertor, SQON } from '../lib/sqon';
+
+test('columns whose names are not SQON key names are rejected', async () => {
+    const convertor = new Convertor({ format: 'CSV' });
+
+    for (const column of ['first name', '1x', 'home.zip code']) {
+        await assert.rejects(convertor.convert(`${column},age\nAda,36\n`), {
+            message: `Invalid CSV column name "${column}" in column 1: '${column.split('.').pop()}' is not a valid SQON key name.`,
+        });
+    }
+    await assert.rejects(new Convertor({ format: 'CSV' }).convert('name;age\nAda;36\n'), /'name;age' is not a valid SQON key name/);
+
+    const text = await new Convertor({ format: 'CSV', csv: { delimiter: ';' } }).convert('name;tags.0;tags.1\nAda;a;b\n');
+    const parsed = await new SQON({ fileContent: text }).parse({ output: 'objects' });
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(parsed.records, [{ name: 'Ada', tags: ['a', 'b'] }]);
+});
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQON } from '../lib/sqon';
+
+const source = `@schema
+name -> String
+joined -> Date
+visits -> BigInt
+price -> Decimal
+avatar -> Binary
+bytes -> Uint8Array
+home -> Object {
+    city -> String
+    geo -> Object {
+        lat -> Number
+    }
+}
+tags -> StringArray
+history -> ObjectArray {
+    at -> Date
+}
+@end
+
+@records
+#0 -> name("Ada"); joined(2024-01-02T03:04:05.000Z); visits(9007199254740993n); price(12.50m); avatar(hex:cafe); bytes(Uint8Array[1,2]); home{ city("Paris"); geo{ lat(48.8); }; }; tags[ _0("a"); _1("b"); ]; history[ _0{ at(2024-01-01T00:00:00.000Z); }; ];
+@end
+`;
+
+const expected = {
+    name: 'Ada',
+    joined: new Date('2024-01-02T03:04:05.000Z'),
+    visits: 9007199254740993n,
+    price: '12.50',
+    avatar: Buffer.from([0xca, 0xfe]),
+    bytes: new Uint8Array([1, 2]),
+    home: { city: 'Paris', geo: { lat: 48.8 } },
+    tags: ['a', 'b'],
+    history: [{ at: new Date('2024-01-01T00:00:00.000Z') }],
+};
+
+test('toObject and parse with objects output turn documents into plain values', async () => {
+    const parsed = await new SQON({ fileContent: source }).parse();
+    const objects = await new SQON({ fileContent: source }).parse({ output: 'objects' });
+
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(SQON.toObject(parsed.records[0]), expected);
+    assert.deepEqual(objects.records, [expected]);
+});
+
+test('fromObject rebuilds the parsed document from its plain object and the schema', async () => {
+    const { schema, records } = await new SQON({ fileContent: source }).parse();
+    assert.deepEqual(SQON.fromObject(SQON.toObject(records[0]), schema, 0), records[0]);
+});
+
+test('fromObject types ambiguous values by the schema and other values by themselves', () => {
+    const schema = { joined: { type: ['Date'] }, visits: { type: ['BigInt'] }, price: { type: ['Decimal'] }, avatar: { type: ['Binary'] }, code: { type: ['String'] } };
+    const document = SQON.fromObject({ joined: '2024-01-02T03:04:05.000Z', visits: '12', price: 3.5, avatar: [1, 2], code: '2024-01-02', extra: [1, 2] }, schema, 4);
+
+    assert.deepEqual(document, {
+        '#doc': 4,
+        data: [
+            { key: 'joined', value: new Date('2024-01-02T03:04:05.000Z'), type: 'Date' },
+            { key: 'visits', value: 12n, type: 'BigInt' },
+            { key: 'price', value: '3.5', type: 'Decimal' },
+            { key: 'avatar', value: Buffer.from([1, 2]), type: 'Binary' },
+            { key: 'code', value: '2024-01-02', type: 'String' },
+            { key: 'extra', value: [{ key: '_0', value: 1, type: 'Number' }, { key: '_1', value: 2, type: 'Number' }], type: 'NumberArray' },
+        ],
+    });
+});
+
+test('fromObject keeps values that do not fit their schema type, so validation reports them', async () => {
+    const schema = { joined: { type: ['Date'] }, visits: { type: ['BigInt'] } };
+    const document = SQON.fromObject({ joined: 'not a date', visits: '1.5' }, schema);
+    assert.deepEqual(document.data, [
+        { key: 'joined', value: 'not a date', type: 'String' },
+        { key: 'visits', value: '1.5', type: 'String' },
+    ]);
+
+    const text = SQON.stringify({ fileRules: { Strict: true }, schema, records: [document] });
+    const { errors } = await new SQON({ fileContent: text }).parse();
+    assert.deepEqual(errors.map(({ code, field }) => ({ code, field })), [
+        { code: 'SQON5001', field: 'joined' },
+        { code: 'SQON5001', field: 'visits' },
+    ]);
+});
+
+test('empty documents and objects convert both ways', async () => {
+    assert.deepEqual(SQON.fromObject({}, {}, 2), { '#doc': 2, data: [] });
+    assert.deepEqual(SQON.toObject({ '#doc': 2, data: [] }), {});
+
+    const document = SQON.fromObject({ meta: {} }, { meta: { type: ['Object'] } });
+    assert.deepEqual(document.data, [{ key: 'meta', value: {}, type: 'Object' }]);
+    assert.deepEqual(SQON.toObject(document), { meta: {} });
+});
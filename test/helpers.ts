@@ -0,0 +1,29 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Runs a test in a new temporary directory, which is removed afterwards.
+ * @param run - The test, given the path of the directory.
+ */
+export async function withDirectory(run: (directory: string) => Promise<void>): Promise<void> {
+    const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'sqon-test-'));
+    try {
+        await run(directory);
+    } finally {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Runs a test on a temporary `data.sqon` file, which is removed afterwards.
+ * @param content - The content of the file.
+ * @param run - The test, given the path of the file.
+ */
+export async function withFile(content: string, run: (filePath: string) => Promise<void>): Promise<void> {
+    await withDirectory(async (directory) => {
+        const filePath = path.join(directory, 'data.sqon');
+        await fs.promises.writeFile(filePath, content);
+        await run(filePath);
+    });
+}
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQON } from '../lib/sqon';
+import { withFile } from './helpers';
+
+const source = `@schema
+sku -> String
+name -> String
+@end
+
+@validations
+sku -> primaryKey=true
+@end
+
+@records
+#0 -> sku("a-1"); name("Lamp");
+#1 @id=b-2 -> sku("b-2"); name("Chair");
+@end
+`;
+
+test('getDocument finds documents by the ID taken from their primary key', async () => {
+    await withFile(source, async (filePath) => {
+        const sqon = new SQON({ filePath });
+        const lamp = await sqon.getDocument('a-1');
+        assert.equal(lamp?.['#doc'], 0);
+        assert.equal(lamp?.['@id'], 'a-1');
+        assert.equal((await sqon.getDocument('b-2'))?.['#doc'], 1);
+        assert.equal(await sqon.getDocument('c-3'), null);
+    });
+});
+
+test('parsing twice does not report IDs as duplicates of themselves', async () => {
+    const sqon = new SQON({ fileContent: source });
+    const first = await sqon.parse();
+    const second = await sqon.parse();
+
+    assert.deepEqual(first.errors, []);
+    assert.deepEqual(second.errors, []);
+    assert.equal(second.records.length, 2);
+});
@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SQON } from '../lib/sqon';
+import { withDirectory } from './helpers';
+
+const common = `@types
+User {
+    name -> String
+    email -> String
+}
+@end
+
+@validations
+User.name -> minLength=3
+@end
+`;
+
+test('a shared file of types and their validations imports without a schema', async () => {
+    await withDirectory(async (directory) => {
+        await fs.promises.writeFile(path.join(directory, 'common.sqon'), common);
+        const filePath = path.join(directory, 'data.sqon');
+        await fs.promises.writeFile(filePath, `*STRICT=TRUE
+@import "./common.sqon"
+
+@schema
+owner -> User
+@end
+
+@records
+#0 -> owner{ name("Ada"); email("ada@example.com"); };
+#1 -> owner{ name("Al"); email("al@example.com"); };
+@end
+`);
+
+        const { validations, errors } = await new SQON({ filePath }).parse();
+        assert.deepEqual(validations, { owner: { name: { rules: { minLength: 3 } } } });
+        assert.deepEqual(errors.map(({ code, document, file }) => ({ code, document, file })), [
+            { code: 'SQON5001', document: 1, file: undefined },
+        ]);
+    });
+});
+
+test('validations still need a schema or named types before them', async () => {
+    const { errors } = await new SQON({ fileContent: `@validations
+name -> minLength=3
+@end
+
+@schema
+name -> String
+@end
+
+@records
+@end
+` }).parse();
+
+    assert.deepEqual(errors.filter(({ code }) => code === 'SQON1004').map(({ message }) => message), [
+        "'@validations' must come after '@schema' or '@types'.",
+        "'@schema' must come before '@validations'.",
+    ]);
+});
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SQON } from '../lib/sqon';
+import { withFile } from './helpers';
+
+const source = `@schema
+name -> String
+age -> Number
+@end
+
+@records
+#0 -> name("Ada"); age(36);
+#1 -> name("Bob"); age(40);
+@end
+`;
+
+test('concurrent createIndex calls keep every index', async () => {
+    await withFile(source, async (filePath) => {
+        const sqon = new SQON({ filePath });
+        const results = await Promise.all([sqon.createIndex('name'), sqon.createIndex('age'), sqon.createIndex('name', { unique: true })]);
+        assert.deepEqual(results.map((result) => result.success), [true, true, true]);
+
+        const [ada] = await sqon.lookup('name', 'Ada');
+        const [bob] = await sqon.lookup('age', 40);
+        assert.equal(ada['#doc'], 0);
+        assert.equal(bob['#doc'], 1);
+        assert.deepEqual(await fs.promises.readdir(path.dirname(filePath)), ['data.sqon', 'data.sqon.idx']);
+    });
+});
+
+test('lookups rebuild the index once the file changes size', async () => {
+    await withFile(source, async (filePath) => {
+        const sqon = new SQON({ filePath });
+        await sqon.createIndex('name');
+
+        const inserted = await sqon.insert({ name: 'Cy', age: 22 });
+        assert.equal(inserted.success, true);
+
+        const [cy] = await sqon.lookup('name', 'Cy');
+        assert.equal(cy?.['#doc'], 2);
+        assert.deepEqual(SQON.toObject(cy), { name: 'Cy', age: 22 });
+    });
+});
+
+test('lookups rebuild the index when only the modification time of the file changes', async () => {
+    await withFile(source, async (filePath) => {
+        const sqon = new SQON({ filePath });
+        await sqon.createIndex('name');
+        const { mtime } = await fs.promises.stat(filePath);
+
+        await fs.promises.writeFile(filePath, source.replace('"Ada"', '"Ava"'));
+        await fs.promises.utimes(filePath, mtime, new Date(mtime.getTime() + 5000));
+
+        assert.deepEqual(await sqon.lookup('name', 'Ada'), []);
+        assert.equal((await sqon.lookup('name', 'Ava'))[0]?.['#doc'], 0);
+    });
+});
+
+test('a unique index is not created over duplicate values', async () => {
+    await withFile(source.replace('"Bob"', '"Ada"'), async (filePath) => {
+        const sqon = new SQON({ filePath });
+        const result = await sqon.createIndex('name', { unique: true });
+
+        assert.equal(result.success, false);
+        assert.deepEqual(result.errors.map(({ code, document }) => ({ code, document })), [{ code: 'SQON5002', document: 1 }]);
+        await assert.rejects(sqon.lookup('name', 'Ada'), /No index on 'name'/);
+    });
+});
+
+test('index files that cannot be read are ignored and dropping the last index removes the file', async () => {
+    await withFile(source, async (filePath) => {
+        await fs.promises.writeFile(`${filePath}.idx`, '{ not json');
+        const sqon = new SQON({ filePath });
+        await assert.rejects(sqon.lookup('age', 36), /No index on 'age'/);
+
+        assert.equal((await sqon.createIndex('age')).success, true);
+        assert.equal((await sqon.lookup('age', 36))[0]?.['#doc'], 0);
+        assert.equal(await sqon.dropIndex('age'), true);
+        assert.equal(await sqon.dropIndex('age'), false);
+        assert.deepEqual(await fs.promises.readdir(path.dirname(filePath)), ['data.sqon']);
+    });
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Convertor, SQON } from '../lib/sqon';
+
+test('empty objects are imported as documents without fields', async () => {
+    const convertor = new Convertor({ format: 'JSON' });
+
+    for (const input of [[{}, { name: 'Ada' }, {}], '[{}, {"name": "Ada"}, {}]']) {
+        const text = await convertor.convert(input);
+        assert.match(text, /^#0 -> ;$/m);
+
+        const parsed = await new SQON({ fileContent: text }).parse({ output: 'objects' });
+        assert.deepEqual(parsed.errors, []);
+        assert.deepEqual(parsed.records, [{}, { name: 'Ada' }, {}]);
+    }
+});
+
+test('keys that are not SQON key names are rejected', async () => {
+    const convertor = new Convertor({ format: 'JSON' });
+    const message = "Invalid key names, which must start with a letter, '_' or '$' and hold only letters, digits, '_', '$' and '-':\n"
+        + "'first name', first in record 1\n'home.1x', first in record 2\n'tags[0].name;age', first in record 2";
+    const records = [{ 'first name': 'Ada' }, { 'first name': 'Bob', home: { '1x': 1 }, tags: [{ 'name;age': 2 }] }];
+
+    await assert.rejects(convertor.convert(records), { message });
+    await assert.rejects(convertor.convert(JSON.stringify(records)), { message });
+});
+
+test('tagged decimals are read as Decimal values without a schema', async () => {
+    const source = '*STRICT=TRUE\n\n@schema\nprice -> Decimal\nhistory -> ObjectArray {\n    price -> Decimal\n}\n@end\n\n@records\n#0 -> price(12.50m); history[ _0{ price(9.990m); }; ];\n@end\n';
+    const json = await new Convertor({ format: 'JSON', includeSchema: false }).export(source);
+    assert.match(json, /"price": \{\s*"\$decimal": "12.50"\s*\}/);
+
+    const text = await new Convertor({ format: 'JSON' }).convert(json);
+    assert.match(text, /^price -> Decimal$/m);
+
+    const original = await new SQON({ fileContent: source }).parse();
+    const parsed = await new SQON({ fileContent: text }).parse();
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(parsed.records, original.records);
+
+    const typed = await new Convertor({ format: 'JSON', schema: '@schema\nprice -> String\n@end' }).convert('[{ "price": { "$decimal": "1.50" } }]');
+    assert.deepEqual((await new SQON({ fileContent: typed }).parse()).records[0].data, [{ key: 'price', value: '1.50', type: 'String' }]);
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { SQON } from '../lib/sqon';
+import { withFile } from './helpers';
+
+const source = `@schema
+name -> String
+tags -> StringArray
+@end
+
+@records
+#0 -> name("Ada"); tags[ _0("a"); ];
+!# Bob's tags are on their own line
+#1 -> name("Bob");
+    tags[ _0("b"); _1("c"); ];
+#2 -> name("Cy"); tags[ ];
+#3 -> name("Dee"); tags[ _0("d"); ];
+@end
+`;
+
+test('getDocument and getRange read multi-line documents by number', async () => {
+    await withFile(source, async (filePath) => {
+        const sqon = new SQON({ filePath });
+        const { records } = await new SQON({ filePath }).parse();
+
+        assert.deepEqual(await sqon.getDocument(1), records[1]);
+        assert.deepEqual(await sqon.getRange(1, 2), records.slice(1, 3));
+        assert.deepEqual(await sqon.getRange(2, 10), records.slice(2));
+    });
+});
+
+test('documents out of range are not found', async () => {
+    await withFile(source, async (filePath) => {
+        const sqon = new SQON({ filePath });
+
+        assert.equal(await sqon.getDocument(4), null);
+        assert.equal(await sqon.getDocument(-1), null);
+        assert.deepEqual(await sqon.getRange(3, 1), []);
+    });
+});
+
+test('the offset table is rebuilt after the file changes', async () => {
+    await withFile(source, async (filePath) => {
+        const sqon = new SQON({ filePath, cacheOffsets: true });
+        assert.equal(SQON.toObject((await sqon.getDocument(3))!).name, 'Dee');
+
+        await fs.promises.writeFile(filePath, source.replace('#0 -> name("Ada"); tags[ _0("a"); ];\n', '#0 -> name("Ann"); tags[ _0("a"); _1("longer"); ];\n'));
+        assert.equal(SQON.toObject((await sqon.getDocument(0))!).name, 'Ann');
+        assert.equal(SQON.toObject((await sqon.getDocument(3))!).name, 'Dee');
+    });
+});
+
+test('cacheOffsets saves the offset table for other instances', async () => {
+    await withFile(source, async (filePath) => {
+        await new SQON({ filePath }).getDocument(0);
+        await assert.rejects(fs.promises.stat(`${filePath}.idx`), { code: 'ENOENT' });
+
+        await new SQON({ filePath, cacheOffsets: true }).getDocument(0);
+        const { offsets } = JSON.parse(await fs.promises.readFile(`${filePath}.idx`, 'utf8'));
+        assert.deepEqual(offsets.map(([docNumber]: number[]) => docNumber), [0, 1, 2, 3]);
+        assert.equal(SQON.toObject((await new SQON({ filePath }).getDocument(2))!).name, 'Cy');
+    });
+});
+
+test('reading by number needs a file path', async () => {
+    await assert.rejects(new SQON({ fileContent: source }).getRange(0, 1), /filePath/);
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQON } from '../lib/sqon';
+
+const source = `*STRICT=TRUE
+@types
+Point {
+    lat -> Number
+    lng -> Number
+}
+Audit {
+    createdAt -> Date
+}
+User {
+    name -> String
+    role -> String | Number
+}
+Admin extends User with Audit {
+    role -> String
+    home -> Point
+}
+@end
+
+@schema
+admin -> Admin
+admins -> Admin[]
+@end
+
+@validations
+User.name -> required=true; minLength=3
+Point.lat -> min=-90; max=90
+admin.name -> minLength=4
+@end
+
+@records
+#0 -> admin{ name("Adam"); role("root"); createdAt(2024-01-01T00:00:00.000Z); home{ lat(1); lng(2); }; }; admins[ _0{ name("Bea"); role("x"); createdAt(2024-01-01T00:00:00.000Z); home{ lat(3); lng(4); }; }; ];
+@end
+`;
+
+test('stringify writes named types and refers to them by name', async () => {
+    const parsed = await new SQON({ fileContent: source }).parse();
+    const text = SQON.stringify(parsed);
+
+    assert.match(text, /^Admin extends User with Audit \{\n  role -> String\n  home -> Point\n\}$/m);
+    assert.match(text, /^admins -> Admin\[\]$/m);
+    assert.match(text, /^Point\.lat -> min=-90; max=90$/m);
+    assert.doesNotMatch(text, /^admin\.home\.lat/m);
+
+    const reparsed = await new SQON({ fileContent: text }).parse();
+    assert.deepEqual(reparsed.errors, []);
+    for (const key of ['types', 'typeValidations', 'schema', 'validations', 'records'] as const) {
+        assert.deepEqual(reparsed[key], parsed[key], key);
+    }
+});
+
+test('stringify writes empty documents in a form the parser reads back', async () => {
+    const text = SQON.stringify({ schema: { a: { type: ['Number', 'undefined'] } }, records: [{}, { a: 2 }, {}] });
+    assert.match(text, /^#0 -> ;$/m);
+
+    const reparsed = await new SQON({ fileContent: text }).parse({ output: 'objects' });
+    assert.deepEqual(reparsed.errors, []);
+    assert.deepEqual(reparsed.records, [{}, { a: 2 }, {}]);
+    assert.equal(SQON.stringify(await new SQON({ fileContent: text }).parse()), text);
+});
@@ -0,0 +1,19 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Convertor, SQON } from '../lib/sqon';
+
+test('SQL rows that leave out nullable columns match the derived schema', async () => {
+    const text = await new Convertor({ format: 'SQL' }).convert(`CREATE TABLE public.users (
+  id INTEGER PRIMARY KEY,
+  name TEXT,
+  email TEXT NOT NULL
+);
+INSERT INTO public.users (id, name, email) VALUES (3, 'x; y', 'e');
+INSERT INTO public.users (id, email) VALUES (4, 'f');
+`);
+
+    assert.match(text, /^name -> String \| Null \| undefined$/m);
+    const parsed = await new SQON({ fileContent: text }).parse({ output: 'objects' });
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(parsed.records, [{ id: 3, name: 'x; y', email: 'e' }, { id: 4, email: 'f' }]);
+});
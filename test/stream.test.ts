@@ -0,0 +1,93 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQON } from '../lib/sqon';
+import { withFile } from './helpers';
+
+const source = `*STRICT=TRUE
+
+@schema
+name -> String
+age -> Number
+@end
+
+@validations
+age -> min=18
+@end
+
+@records
+#0 -> name("Ada"); age(36);
+#1 -> name("Bob");
+  age(12);
+#2 -> name("Cy"); age(40);
+@end
+`;
+
+test('streamRecords reports errors of multi-line records at the line of the offending field', async () => {
+    const sqon = new SQON({ fileContent: source });
+    const records = [];
+    for await (const record of sqon.streamRecords()) records.push(record);
+
+    const parsed = await new SQON({ fileContent: source }).parse();
+    assert.equal(records.length, 3);
+    assert.equal(sqon.errors.length, 1);
+    assert.equal(sqon.errors[0].line, 15);
+    assert.match(sqon.errors[0].excerpt ?? '', /age\(12\);/);
+    assert.deepEqual(sqon.errors.map(({ line, excerpt }) => ({ line, excerpt })), parsed.errors.map(({ line, excerpt }) => ({ line, excerpt })));
+});
+
+test('streamRecords reads a file line by line and yields the documents parse returns', async () => {
+    await withFile(source, async (filePath) => {
+        const sqon = new SQON({ filePath });
+        const records = [];
+        for await (const record of sqon.streamRecords()) records.push(record);
+
+        assert.deepEqual(records, (await new SQON({ filePath }).parse()).records);
+    });
+});
+
+test('streamRecords can stop early and stream the file again from the start', async () => {
+    const sqon = new SQON({ fileContent: source });
+    for await (const record of sqon.streamRecords()) {
+        assert.equal(record['#doc'], 0);
+        break;
+    }
+
+    const docNumbers = [];
+    for await (const record of sqon.streamRecords()) docNumbers.push(record['#doc']);
+    assert.deepEqual(docNumbers, [0, 1, 2]);
+    assert.equal(sqon.errors.length, 1);
+});
+
+test('streamRecords streams a named collection', async () => {
+    const sqon = new SQON({ fileContent: `@schema users
+name -> String
+@end
+
+@records users
+#0 -> name("Ada");
+@end
+
+@schema orders
+total -> Number
+@end
+
+@records orders
+#0 -> total(3);
+#1 -> total("4");
+@end
+` });
+    const records = [];
+    for await (const record of sqon.streamRecords('orders')) records.push(SQON.toObject(record));
+
+    assert.deepEqual(records, [{ total: 3 }, { total: '4' }]);
+    assert.deepEqual(sqon.errors.map(({ code, document }) => ({ code, document })), [{ code: 'SQON5001', document: 1 }]);
+});
+
+test('streamRecords reports a missing records section and yields nothing', async () => {
+    const sqon = new SQON({ fileContent: source.replace(/@records[\s\S]*$/, '') });
+    const records = [];
+    for await (const record of sqon.streamRecords()) records.push(record);
+
+    assert.deepEqual(records, []);
+    assert.deepEqual(sqon.errors.map(({ code, message }) => ({ code, message })), [{ code: 'SQON1006', message: "Missing required section: '@records'" }]);
+});
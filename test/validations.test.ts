@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SQON } from '../lib/sqon';
+
+const source = `*STRICT=TRUE
+@types
+Address {
+    city -> String
+    zip -> String
+}
+@end
+
+@schema
+name -> String
+homes -> Address[]
+@end
+
+@validations
+Address.city -> minLength=3
+@end
+
+@records
+#0 -> name("Ada"); homes[ _0{ city("Paris"); zip("75001"); }; _1{ city("Oslo"); zip("0150"); }; ];
+#1 -> name("Bob"); homes[ _0{ city("NY"); zip("10001"); }; ];
+@end
+`;
+
+test('rules of a named type apply to each element of an array of that type', async () => {
+    const { errors } = await new SQON({ fileContent: source }).parse();
+    assert.deepEqual(errors.map(({ document, message }) => ({ document, message })), [
+        { document: 1, message: 'Document #1: homes[0].city should have a minimum length of 3' },
+    ]);
+});
+
+test('violations in records spanning several lines point at the line and column of their field', async () => {
+    const { errors } = await new SQON({ fileContent: `*STRICT=TRUE
+@schema
+name -> String
+age -> Number
+home -> Object {
+    city -> String
+}
+@end
+
+@validations
+name -> isUnique=true
+age -> min=18
+@end
+
+@records
+#0 -> name("Ada");
+    age(12);
+  home{ city(4); };
+#1 -> age(20); name("Ada");
+@end
+` }).parse();
+
+    assert.deepEqual(errors.map(({ code, line, column, field }) => ({ code, line, column, field })), [
+        { code: 'SQON5001', line: 18, column: 9, field: 'home.city' },
+        { code: 'SQON5001', line: 18, column: 9, field: 'home.city' },
+        { code: 'SQON5001', line: 17, column: 5, field: 'age' },
+        { code: 'SQON5002', line: 19, column: 16, field: 'name' },
+    ]);
+});
@@ -0,0 +1,201 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SQON } from '../lib/sqon';
+import { withDirectory, withFile } from './helpers';
+
+const header = `*STRICT=TRUE
+
+@schema
+name -> String
+age -> Number
+@end
+
+@validations
+name -> isUnique=true
+age -> min=18
+@end
+`;
+
+const withRecords = (records: string) => `${header}\n@records\n${records}@end\n`;
+
+const commented = `#0 -> name("Ada");
+!# the age is on its own line
+  age(36);
+#1 -> name("Bob"); age(40);
+`;
+
+test('update replaces every line of a multi-line record with a comment inside it', async () => {
+    await withFile(withRecords(commented), async (filePath) => {
+        const result = await new SQON({ filePath }).update(0, { age: 37 });
+        assert.equal(result.success, true);
+
+        const parsed = await new SQON({ filePath }).parse({ output: 'objects' });
+        assert.deepEqual(parsed.errors, []);
+        assert.deepEqual(parsed.records, [{ name: 'Ada', age: 37 }, { name: 'Bob', age: 40 }]);
+    });
+});
+
+test('delete removes every line of a multi-line record with a comment inside it', async () => {
+    await withFile(withRecords(commented), async (filePath) => {
+        const result = await new SQON({ filePath }).delete(0);
+        assert.equal(result.success, true);
+
+        const parsed = await new SQON({ filePath }).parse({ output: 'objects' });
+        assert.deepEqual(parsed.errors, []);
+        assert.deepEqual(parsed.records, [{ name: 'Bob', age: 40 }]);
+    });
+});
+
+test('writes are validated even when the file already has more errors than are reported', async () => {
+    const records = Array.from({ length: 60 }, (_, index) => `#${index} -> name("minor ${index}"); age(12);\n`).join('');
+    await withFile(withRecords(records), async (filePath) => {
+        const sqon = new SQON({ filePath });
+
+        const invalid = await sqon.insert({ name: 'minor 60', age: 10 });
+        assert.equal(invalid.success, false);
+        assert.deepEqual(invalid.errors.map((error) => error.code), ['SQON5001']);
+
+        const duplicate = await sqon.insert({ name: 'minor 3', age: 30 });
+        assert.equal(duplicate.success, false);
+        assert.deepEqual(duplicate.errors.map((error) => error.code), ['SQON5002']);
+
+        const valid = await sqon.insert({ name: 'Ada', age: 30 });
+        assert.equal(valid.success, true);
+        assert.equal(valid.docNumber, 60);
+    });
+});
+
+test('empty documents are written and read back', async () => {
+    await withFile(withRecords('#0 -> name("Ada"); age(36);\n'), async (filePath) => {
+        const result = await new SQON({ filePath }).insert({});
+        assert.equal(result.success, true);
+        assert.equal(result.docNumber, 1);
+
+        const parsed = await new SQON({ filePath }).parse({ output: 'objects' });
+        assert.deepEqual(parsed.errors, []);
+        assert.deepEqual(parsed.records, [{ name: 'Ada', age: 36 }, {}]);
+    });
+});
+
+test('files that are not strict accept violating writes and return their warnings', async () => {
+    await withFile(withRecords('').replace('*STRICT=TRUE', '*STRICT=FALSE'), async (filePath) => {
+        const result = await new SQON({ filePath }).insert({ name: 'Kid', age: 10 });
+        assert.equal(result.success, true);
+        assert.deepEqual(result.errors, []);
+        assert.deepEqual(result.warnings.map(({ code, severity, field }) => ({ code, severity, field })), [
+            { code: 'SQON5001', severity: 'warning', field: 'age' },
+        ]);
+
+        const parsed = await new SQON({ filePath }).parse({ output: 'objects' });
+        assert.deepEqual(parsed.records, [{ name: 'Kid', age: 10 }]);
+    });
+});
+
+const collections = `*STRICT=TRUE
+
+@schema users
+name -> String
+@end
+
+@schema orders
+userId -> Number
+total -> Number
+@end
+
+@validations orders
+total -> min=0
+@end
+
+@records users
+#0 -> name("Ada");
+@end
+
+@records orders
+#0 -> userId(0); total(12);
+@end
+`;
+
+test('writes to a named collection use its section and its schema', async () => {
+    await withFile(collections, async (filePath) => {
+        const sqon = new SQON({ filePath });
+
+        const invalid = await sqon.insert({ userId: 0, total: -1 }, undefined, 'orders');
+        assert.equal(invalid.success, false);
+        assert.deepEqual(invalid.errors.map((error) => error.code), ['SQON5001']);
+
+        const inserted = await sqon.insert({ userId: 0, total: 30 }, undefined, 'orders');
+        assert.equal(inserted.success, true);
+        assert.equal(inserted.docNumber, 1);
+
+        const updated = await sqon.update(0, { name: 'Ann' }, 'users');
+        assert.equal(updated.success, true);
+
+        const missing = await sqon.insert({ sku: 'a' }, undefined, 'products');
+        assert.equal(missing.success, false);
+        assert.deepEqual(missing.errors.map((error) => error.code), ['SQON1006']);
+
+        const parsed = await new SQON({ filePath }).parse({ output: 'objects' });
+        assert.deepEqual(parsed.errors, []);
+        assert.deepEqual(parsed.collections?.users.records, [{ name: 'Ann' }]);
+        assert.deepEqual(parsed.collections?.orders.records, [{ userId: 0, total: 12 }, { userId: 0, total: 30 }]);
+        assert.deepEqual(parsed.records, []);
+    });
+});
+
+test('writes that leave a dangling reference are rejected', async () => {
+    const content = collections.replace('userId -> Number', 'userId -> Ref<users>');
+    await withFile(content, async (filePath) => {
+        const sqon = new SQON({ filePath });
+
+        const dangling = await sqon.insert({ userId: 5, total: 1 }, undefined, 'orders');
+        assert.equal(dangling.success, false);
+        assert.deepEqual(dangling.errors.map((error) => error.code), ['SQON5003']);
+
+        const valid = await sqon.insert({ userId: 0, total: 1 }, undefined, 'orders');
+        assert.equal(valid.success, true);
+    });
+});
+
+test('deletes that would break a reference of the file are rejected', async () => {
+    const content = collections
+        .replace('userId -> Number', 'userId -> Ref<users>')
+        .replace('#0 -> name("Ada");', '#0 -> name("Ada");\n#1 @id=u-bob -> name("Bob");\n#2 -> name("Cy");\n#3 -> name("Dee");')
+        .replace('#0 -> userId(0); total(12);', '#0 -> userId("u-bob"); total(12);\n#1 -> userId(2); total(5);');
+    await withFile(content, async (filePath) => {
+        const sqon = new SQON({ filePath });
+
+        const referenced = await sqon.delete('u-bob', 'users');
+        assert.equal(referenced.success, false);
+        assert.deepEqual(referenced.errors.map(({ code, document, field }) => ({ code, document, field })), [
+            { code: 'SQON5003', document: 0, field: 'userId' },
+            { code: 'SQON5003', document: 1, field: 'userId' },
+        ]);
+        assert.match(referenced.errors[1].message, /deleting document #1 would renumber/);
+        assert.equal(await fs.promises.readFile(filePath, 'utf8'), content);
+
+        assert.equal((await sqon.delete(3, 'users')).success, true);
+        assert.equal((await sqon.delete(1, 'orders')).success, true);
+        assert.equal((await sqon.delete(2, 'users')).success, true);
+        assert.equal((await sqon.delete(0, 'users')).success, true);
+        assert.equal((await sqon.delete(0, 'users')).success, false);
+
+        const parsed = await new SQON({ filePath }).parse({ output: 'objects' });
+        assert.deepEqual(parsed.errors, []);
+        assert.deepEqual(parsed.collections?.users.records, [{ name: 'Bob' }]);
+    });
+});
+
+test('deletes are not checked against the references of other files', async () => {
+    await withDirectory(async (directory) => {
+        const users = path.join(directory, 'users.sqon');
+        await fs.promises.writeFile(users, '@schema\nname -> String\n@end\n\n@records\n#0 -> name("Ada");\n@end\n');
+        await fs.promises.writeFile(path.join(directory, 'orders.sqon'), '@schema\nuserId -> Ref<./users.sqon>\n@end\n\n@records\n#0 -> userId(0);\n@end\n');
+
+        assert.equal((await new SQON({ filePath: users }).delete(0)).success, true);
+
+        const { errors } = await new SQON({ filePath: path.join(directory, 'orders.sqon') }).parse();
+        assert.deepEqual(errors.map(({ code, document }) => ({ code, document })), [{ code: 'SQON5003', document: 0 }]);
+    });
+});
@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Convertor, SQON } from '../lib/sqon';
+
+const source = `*STRICT=TRUE
+
+@schema
+name -> String
+age -> Number
+joined -> Date
+file -> Binary
+note -> Null
+address -> Object {
+    city -> String
+}
+tags -> StringArray
+@end
+
+@validations
+age -> min=0
+@end
+
+@records
+#0 @id=u-ada -> name("Ada"); age(36); joined(2024-01-02T00:00:00.000Z); file(<Buffer 01 02>); note(NULL); address{ city("Rome"); }; tags[ _0("admin"); _1("staff"); ];
+#1 -> name("Bob"); age(7); joined(2024-03-04T00:00:00.000Z); file(<Buffer >); note(NULL); address{ city("Oslo"); }; tags[ _0("x"); ];
+@end
+`;
+
+test('records round trip through XML with their types, IDs and validations', async () => {
+    const convertor = new Convertor({ format: 'XML', xml: { root: 'users', record: 'user', attributeFields: ['name'] } });
+    const xml = await convertor.export(source);
+
+    assert.match(xml, /^<\?sqon-schema\n\*STRICT=TRUE\n/m);
+    assert.match(xml, /<user doc="0" id="u-ada" name="Ada">/);
+    assert.match(xml, /<note xsi:nil="true"\/>/);
+    assert.match(xml, /<tags>admin<\/tags>\n\s*<tags>staff<\/tags>/);
+
+    const original = await new SQON({ fileContent: source }).parse();
+    const parsed = await new SQON({ fileContent: await convertor.convert(xml) }).parse();
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(parsed.schema, original.schema);
+    assert.deepEqual(parsed.validations, original.validations);
+    assert.deepEqual(parsed.records, original.records);
+});
+
+test('the schema option takes precedence over the embedded schema', async () => {
+    const xml = '<?sqon-schema\n@schema\nage -> Number\n@end\n?>\n<users><user doc="0"><age>36</age></user></users>';
+
+    const embedded = await new SQON({ fileContent: await new Convertor({ format: 'XML' }).convert(xml) }).parse({ output: 'objects' });
+    assert.deepEqual(embedded.records, [{ age: 36 }]);
+
+    const text = await new Convertor({ format: 'XML', schema: '@schema\nage -> String\n@end' }).convert(xml);
+    const parsed = await new SQON({ fileContent: text }).parse({ output: 'objects' });
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(parsed.records, [{ age: '36' }]);
+});
+
+test('without a schema, attributes, repeated elements and nested elements are read as fields', async () => {
+    const xml = '<users><user doc="0" name="Ada"><age>3</age><tag>a</tag><tag>b</tag><price currency="EUR">3</price></user></users>';
+
+    const parsed = await new SQON({ fileContent: await new Convertor({ format: 'XML' }).convert(xml) }).parse({ output: 'objects' });
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(parsed.records, [{ name: 'Ada', age: 3, tag: ['a', 'b'], price: { currency: 'EUR', value: 3 } }]);
+
+    const ignored = await new Convertor({ format: 'XML', xml: { attributes: 'ignore' } }).convert(xml);
+    assert.deepEqual((await new SQON({ fileContent: ignored }).parse({ output: 'objects' })).records, [{ age: 3, tag: ['a', 'b'], price: 3 }]);
+});
+
+test('malformed XML and values that do not convert are rejected', async () => {
+    const convertor = new Convertor({ format: 'XML' });
+    const xml = await convertor.export(source);
+
+    const line = (text: string) => xml.split('\n').findIndex((candidate) => candidate.includes(text)) + 1;
+
+    await assert.rejects(convertor.convert(xml.replace('<age>36</age>', '<age>old</age>').replace('<age>7</age>', '<age>seven</age>')), {
+        message: `Invalid XML values:\nrecord 1, age (line ${line('<age>36')}): "old" is not a valid Number.\nrecord 2, age (line ${line('<age>7')}): "seven" is not a valid Number.`,
+    });
+    await assert.rejects(convertor.convert('<users><user>'), { message: 'Invalid XML at line 1: Unclosed element <user>.' });
+    await assert.rejects(new Convertor({ format: 'XML', xml: { attributeFields: ['doc'] } }).export(source), /reserved for the document number/);
+});
+
+test('elements whose names are not SQON key names are rejected', async () => {
+    await assert.rejects(new Convertor({ format: 'XML' }).convert('<records><record><first.name>Ada</first.name></record></records>'), /'first\.name', first in record 1/);
+});
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Convertor, SQON } from '../lib/sqon';
+
+test('empty binary values are exported as an empty !!binary scalar and read back', async () => {
+    const source = '*STRICT=TRUE\n\n@schema\nname -> String\nfile -> Binary\n@end\n\n@records\n#0 -> name("a"); file(<Buffer >);\n#1 -> name("b"); file(<Buffer 01 02>);\n@end\n';
+    const convertor = new Convertor({ format: 'YAML' });
+
+    const yaml = await convertor.export(source);
+    assert.match(yaml, /file: !!binary ""$/m);
+
+    const parsed = await new SQON({ fileContent: await convertor.convert(yaml) }).parse({ output: 'objects' });
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(parsed.records, [{ name: 'a', file: Buffer.alloc(0) }, { name: 'b', file: Buffer.from([1, 2]) }]);
+});
+
+test('empty mappings are imported as documents without fields', async () => {
+    const text = await new Convertor({ format: 'YAML' }).convert('- {}\n- name: Ada\n- {}\n');
+
+    assert.match(text, /^#0 -> ;$/m);
+    const parsed = await new SQON({ fileContent: text }).parse({ output: 'objects' });
+    assert.deepEqual(parsed.errors, []);
+    assert.deepEqual(parsed.records, [{}, { name: 'Ada' }, {}]);
+});
+
+test('keys that are not SQON key names are rejected', async () => {
+    await assert.rejects(new Convertor({ format: 'YAML' }).convert('- name: Ada\n- first name: Bob\n  1x: 1\n'), {
+        message: "Invalid key names, which must start with a letter, '_' or '$' and hold only letters, digits, '_', '$' and '-':\n'first name', first in record 2\n'1x', first in record 2",
+    });
+});